@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { normalizeCid } from '@/lib/cid'
+import { serverStorage, storageErrorResponse } from '@/lib/storage/server'
+
+// Size and pin state of content on the server's IPFS node
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ cid: string }> }) {
+  try {
+    const storage = await serverStorage()
+    return NextResponse.json(await storage.stat(normalizeCid((await params).cid)))
+  } catch (error) {
+    return storageErrorResponse(error, 'Failed to read pin status')
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { normalizeCid } from '@/lib/cid'
+import { openFileStream, serverStorage, storageErrorResponse } from '@/lib/storage/server'
+
+// Content under a CID never changes
+const IMMUTABLE = 'public, max-age=31536000, immutable'
+
+// Content from the server's IPFS node: a file's bytes, or with ?format=raw a
+// single block. The app reads files block by block and verifies each one
+// against its CID.
+export async function GET(request: NextRequest, { params }: { params: Promise<{ cid: string }> }) {
+  try {
+    const cid = normalizeCid((await params).cid)
+    const format = request.nextUrl.searchParams.get('format')
+    const storage = await serverStorage()
+
+    if (format === 'raw') {
+      const block = await storage.getBlock(cid, { signal: request.signal })
+      return new NextResponse(block as BodyInit, {
+        headers: { 'Content-Type': 'application/vnd.ipld.raw', 'Cache-Control': IMMUTABLE }
+      })
+    }
+    if (format) {
+      return NextResponse.json({ error: `Unsupported format: ${format}` }, { status: 400 })
+    }
+
+    const file = await openFileStream(storage, cid, { signal: request.signal })
+    return new NextResponse(file, {
+      headers: { 'Content-Type': 'application/octet-stream', 'Cache-Control': IMMUTABLE }
+    })
+  } catch (error) {
+    return storageErrorResponse(error, 'Failed to fetch content')
+  }
+}
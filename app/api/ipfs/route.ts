@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import * as jsonCodec from 'multiformats/codecs/json'
+import { FileEncryption, InvalidEncryptedFileError } from '@/lib/encryption'
+import { readWillDocument, WillValidationError } from '@/lib/will-schema'
+import {
+  limitBytes,
+  maxUploadBytes,
+  rateLimitUpload,
+  serverStorage,
+  storageErrorResponse,
+  streamChunks,
+  UploadTooLargeError
+} from '@/lib/storage/server'
+
+// Uploads to the server's IPFS node. Only ciphertext is accepted: will
+// documents must validate as encrypted envelopes, and files must be
+// FileEncryption streams. Everything accepted is pinned, so uploads are
+// size capped and rate limited per client.
+export async function POST(request: NextRequest) {
+  const limited = rateLimitUpload(request)
+  if (limited) return limited
+
+  const maxBytes = maxUploadBytes()
+  if (Number(request.headers.get('content-length')) > maxBytes) {
+    return NextResponse.json({ error: new UploadTooLargeError(maxBytes).message }, { status: 413 })
+  }
+  const body = request.body?.pipeThrough(limitBytes(maxBytes))
+  const contentType = request.headers.get('content-type') ?? ''
+
+  try {
+    const storage = await serverStorage()
+    let cid: string
+
+    if (contentType.startsWith('application/json')) {
+      const document = readWillDocument(jsonCodec.decode(new Uint8Array(await new Response(body).arrayBuffer())))
+      if (!('envelope' in document)) {
+        return NextResponse.json({ error: 'Only encrypted will documents can be uploaded' }, { status: 400 })
+      }
+      // Store the parsed document so fields the schema does not know are never pinned
+      cid = await storage.putJSON(document, { signal: request.signal })
+    } else if (contentType.startsWith('application/octet-stream')) {
+      if (!body) {
+        return NextResponse.json({ error: 'Missing file' }, { status: 400 })
+      }
+      cid = await storage.putBytes(
+        streamChunks(body.pipeThrough(FileEncryption.checkStream())),
+        { signal: request.signal }
+      )
+    } else {
+      return NextResponse.json({ error: 'Expected a will document or an encrypted file' }, { status: 415 })
+    }
+
+    await storage.pin(cid)
+    return NextResponse.json({ cid })
+  } catch (error) {
+    if (error instanceof UploadTooLargeError) {
+      return NextResponse.json({ error: error.message }, { status: 413 })
+    }
+    if (error instanceof WillValidationError) {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: 400 })
+    }
+    if (error instanceof InvalidEncryptedFileError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    return storageErrorResponse(error, 'Failed to store content')
+  }
+}
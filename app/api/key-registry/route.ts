@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import fs from 'fs'
+import path from 'path'
+import { isAddress } from 'viem'
+import { RecipientEncryption, type KeyRegistration } from '@/lib/encryption'
+
+// Registrations are self-authenticating (signed by the registering wallet),
+// so the registry only has to store them, never trust them.
+const registryPath = process.env.KEY_REGISTRY_PATH || path.join(process.cwd(), 'key-registrations.json')
+
+function readRegistry(): Record<string, KeyRegistration> {
+  if (!fs.existsSync(registryPath)) {
+    return {}
+  }
+  return JSON.parse(fs.readFileSync(registryPath, 'utf8'))
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const address = request.nextUrl.searchParams.get('address')
+
+    if (!address || !isAddress(address)) {
+      return NextResponse.json({ error: 'Invalid address' }, { status: 400 })
+    }
+
+    const registration = readRegistry()[address.toLowerCase()]
+
+    // A hand-edited or corrupted registry could file a registration under the wrong key
+    if (!registration || registration.address?.toLowerCase() !== address.toLowerCase()) {
+      return NextResponse.json({ error: 'No key registered for this address' }, { status: 404 })
+    }
+
+    return NextResponse.json(registration)
+  } catch (error) {
+    console.error('Error reading key registry:', error)
+    return NextResponse.json({ error: 'Failed to read key registry' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const registration: KeyRegistration = await request.json()
+
+    if (!registration.address || !isAddress(registration.address) || !registration.publicKey || !registration.signature) {
+      return NextResponse.json({ error: 'Missing required parameters' }, { status: 400 })
+    }
+
+    if (!(await RecipientEncryption.verifyRegistration(registration))) {
+      return NextResponse.json({ error: 'Registration signature does not match address' }, { status: 400 })
+    }
+
+    const registry = readRegistry()
+    registry[registration.address.toLowerCase()] = {
+      address: registration.address,
+      publicKey: registration.publicKey,
+      signature: registration.signature
+    }
+    fs.writeFileSync(registryPath, JSON.stringify(registry, null, 2))
+
+    return NextResponse.json(registration)
+  } catch (error) {
+    console.error('Error writing key registry:', error)
+    return NextResponse.json({ error: 'Failed to store key registration' }, { status: 500 })
+  }
+}
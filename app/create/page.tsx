@@ -1,8 +1,8 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useAccount, useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
-import { parseEther } from 'viem'
+import { isAddress, parseEventLogs, type Abi } from 'viem'
 import { Navbar } from '@/components/navbar'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -12,10 +12,15 @@ import { Textarea } from '@/components/ui/textarea'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { useIPFS } from '@/hooks/useIPFS'
+import { Switch } from '@/components/ui/switch'
+import { useIPFS, useEncryption } from '@/hooks/useIPFS'
 import { useWillsNFT } from '@/hooks/useContracts'
+import { PasswordStrengthMeter } from '@/components/password-strength-meter'
+import { AttachmentUploader } from '@/components/attachment-uploader'
+import { TransferStatus } from '@/components/transfer-status'
 import { Plus, Trash2, AlertCircle, CheckCircle, FileText } from 'lucide-react'
-import type { WillContent } from '@/lib/ipfs'
+import type { WillAttachment, WillContent } from '@/lib/ipfs'
+import { DEFAULT_PASSWORD_KDF, EncryptionService, type EncryptionMethod, type PasswordKdf } from '@/lib/encryption'
 
 interface Beneficiary {
   name: string
@@ -30,9 +35,11 @@ export default function CreateWillPage() {
   const { address, isConnected } = useAccount()
   const { address: contractAddress, abi } = useWillsNFT()
   const { writeContract, data: hash, error: contractError, isPending } = useWriteContract()
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash })
+  const { data: receipt, isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash })
+  const { writeContractAsync: authorizeViewerAsync } = useWriteContract()
   
-  const { storeWill, isStoring, error: ipfsError, clearError } = useIPFS()
+  const { storeWill, isStoring, error: ipfsError, progress, cancel, clearError } = useIPFS()
+  const { generatePassword, generatePassphrase, validatePassword } = useEncryption()
 
   // Form states
   const [willTitle, setWillTitle] = useState('')
@@ -40,9 +47,26 @@ export default function CreateWillPage() {
   const [executorAddress, setExecutorAddress] = useState('')
   const [executorInstructions, setExecutorInstructions] = useState('')
   const [emergencyDelay, setEmergencyDelay] = useState('30') // days
-  const [encryptionMethod, setEncryptionMethod] = useState<'wallet' | 'password'>('wallet')
+  const [encryptionMethod, setEncryptionMethod] = useState<EncryptionMethod>('wallet')
   const [password, setPassword] = useState('')
   const [confirmPassword, setConfirmPassword] = useState('')
+  const [passwordKdf, setPasswordKdf] = useState<PasswordKdf>(DEFAULT_PASSWORD_KDF)
+  const [passphraseWords, setPassphraseWords] = useState('6')
+  const [passphraseSeparator, setPassphraseSeparator] = useState('-')
+  const [generatedSecret, setGeneratedSecret] = useState<{ value: string; entropyBits: number } | null>(null)
+  const [privateMetadata, setPrivateMetadata] = useState(true)
+  // Attachments are encrypted as they are added, so the will's content key exists up front
+  const [contentKey, setContentKey] = useState(() => EncryptionService.generateContentKey())
+  const [attachments, setAttachments] = useState<WillAttachment[]>([])
+  const [isUploadingAttachments, setIsUploadingAttachments] = useState(false)
+  // Set when the user cancels the upload, so it is not reported as a failure
+  const uploadCancelled = useRef(false)
+  
+  const [viewers, setViewers] = useState<string[]>([])
+  const [viewerStatus, setViewerStatus] = useState<string | null>(null)
+  // Viewers the stored will's key was wrapped to; only they are authorized once it is minted
+  const [wrappedViewers, setWrappedViewers] = useState<{ ipfsHash: string; viewers: string[] } | null>(null)
+  const viewersLocked = isStoring || isPending || isConfirming
   
   const [beneficiaries, setBeneficiaries] = useState<Beneficiary[]>([
     { name: '', address: '', allocation: '', assetType: 'ETH' }
@@ -69,6 +93,73 @@ export default function CreateWillPage() {
     setBeneficiaries(updated)
   }
 
+  // Update viewer
+  const updateViewer = (index: number, value: string) => {
+    setViewers(viewers.map((v, i) => (i === index ? value : v)))
+  }
+
+  // The minted will keeps its key and attachments; the next will on this page starts with its own
+  useEffect(() => {
+    if (!isConfirmed) return
+    setContentKey(EncryptionService.generateContentKey())
+    setAttachments([])
+  }, [isConfirmed])
+
+  // Authorize viewers on-chain once the will NFT has been minted
+  useEffect(() => {
+    if (!receipt || !contractAddress || !wrappedViewers) return
+
+    const [created] = parseEventLogs({
+      abi: abi as Abi,
+      logs: receipt.logs,
+      eventName: 'WillCreated'
+    })
+    const { tokenId, ipfsHash } = (created?.args ?? {}) as { tokenId?: bigint; ipfsHash?: string }
+    // The receipt of an earlier will on this page may still be around
+    if (ipfsHash !== undefined && ipfsHash !== wrappedViewers.ipfsHash) return
+
+    const { viewers } = wrappedViewers
+    setWrappedViewers(null)
+    if (viewers.length === 0) return
+
+    const authorizeViewers = async () => {
+      if (tokenId === undefined) {
+        setViewerStatus('Could not determine the new will\'s token ID to authorize viewers')
+        return
+      }
+
+      try {
+        for (const [index, viewer] of viewers.entries()) {
+          setViewerStatus(`Authorizing viewer ${index + 1} of ${viewers.length}...`)
+          await authorizeViewerAsync({
+            address: contractAddress,
+            abi: abi,
+            functionName: 'authorizeViewer',
+            args: [tokenId, viewer as `0x${string}`],
+          })
+        }
+        setViewerStatus(`${viewers.length} viewer(s) authorized`)
+      } catch (error) {
+        console.error('Failed to authorize viewers:', error)
+        setViewerStatus('Failed to authorize viewers: ' + (error instanceof Error ? error.message : 'Unknown error'))
+      }
+    }
+
+    authorizeViewers()
+  }, [receipt, contractAddress, abi, wrappedViewers, authorizeViewerAsync])
+
+  // Fill both password fields with a generated password or passphrase
+  const applyGeneratedSecret = (secret: { value: string; entropyBits: number }) => {
+    setPassword(secret.value)
+    setConfirmPassword(secret.value)
+    setGeneratedSecret(secret)
+  }
+
+  // Details an attacker could know about this will count against the password
+  const passwordValidation = encryptionMethod === 'password' && password
+    ? validatePassword(password, [willTitle, address ?? '', executorAddress, ...beneficiaries.map(b => b.name)])
+    : null
+
   // Validate form
   const validateForm = (): string[] => {
     const errors: string[] = []
@@ -78,11 +169,15 @@ export default function CreateWillPage() {
     if (!executorAddress.trim()) errors.push('Executor address is required')
     if (executorAddress === address) errors.push('You cannot be your own executor')
     if (!executorInstructions.trim()) errors.push('Executor instructions are required')
+    if (executorAddress.trim() && !isAddress(executorAddress)) errors.push('Executor address is invalid')
+    if (viewers.some(v => !isAddress(v))) errors.push('All viewer addresses must be valid')
     
     if (encryptionMethod === 'password') {
       if (!password) errors.push('Password is required for encryption')
       if (password !== confirmPassword) errors.push('Passwords do not match')
-      if (password.length < 8) errors.push('Password must be at least 8 characters')
+      if (passwordValidation && !passwordValidation.isValid) {
+        errors.push('Password is too weak: ' + passwordValidation.feedback.join(' '))
+      }
     }
     
     const invalidBeneficiaries = beneficiaries.filter(b => 
@@ -98,6 +193,8 @@ export default function CreateWillPage() {
   // Create will
   const handleCreateWill = async () => {
     clearError()
+    setViewerStatus(null)
+    uploadCancelled.current = false
     
     // Validate form
     const errors = validateForm()
@@ -118,20 +215,31 @@ export default function CreateWillPage() {
         content: willContent,
         beneficiaries,
         executorInstructions,
+        attachments,
         createdAt: new Date().toISOString(),
         lastModified: new Date().toISOString()
       }
 
-      // Store encrypted will to IPFS
-      const ipfsHash = await storeWill(
-        willData, 
-        encryptionMethod === 'password' ? password : undefined
-      )
+      // Store encrypted will to IPFS, wrapping its key for the executor and every viewer.
+      // Viewers are authorized after the mint, so the ones wrapped to are kept with the hash.
+      const willViewers = [...viewers]
+      const ipfsHash = await storeWill(willData, {
+        method: encryptionMethod,
+        password: encryptionMethod === 'password' ? password : undefined,
+        kdf: passwordKdf,
+        recipients: [executorAddress, ...willViewers],
+        privateMetadata,
+        contentKey
+      })
 
       if (!ipfsHash) {
+        // The form is kept, so the will can be submitted again
+        if (uploadCancelled.current) return
         throw new Error('Failed to store will to IPFS')
       }
 
+      setWrappedViewers({ ipfsHash, viewers: willViewers })
+
       // Convert days to seconds for emergency delay
       const emergencyDelaySeconds = BigInt(parseInt(emergencyDelay) * 24 * 60 * 60)
 
@@ -192,6 +300,12 @@ export default function CreateWillPage() {
                 IPFS Hash: {createdWillHash}
                 <br />
                 Transaction Hash: {hash}
+                {viewerStatus && (
+                  <>
+                    <br />
+                    {viewerStatus}
+                  </>
+                )}
               </AlertDescription>
             </Alert>
           )}
@@ -253,6 +367,20 @@ export default function CreateWillPage() {
                     </p>
                   </div>
 
+                  <div>
+                    <Label>Attachments</Label>
+                    <p className="text-sm text-muted-foreground mb-2">
+                      Deeds, account lists or letters for your executor and beneficiaries
+                    </p>
+                    <AttachmentUploader
+                      contentKey={contentKey}
+                      attachments={attachments}
+                      onChange={setAttachments}
+                      onUploadingChange={setIsUploadingAttachments}
+                      disabled={isPending || isStoring}
+                    />
+                  </div>
+
                   <div className="flex justify-end">
                     <Button onClick={() => setCurrentTab('beneficiaries')}>
                       Next: Beneficiaries
@@ -384,8 +512,46 @@ export default function CreateWillPage() {
                       className="mt-1"
                     />
                     <p className="text-sm text-muted-foreground mt-1">
-                      This person will be authorized to execute your will when the time comes
+                      This person will be authorized to execute your will when the time comes.
+                      They must have registered an encryption key on the Execute page.
+                    </p>
+                  </div>
+
+                  <div>
+                    <Label>Authorized Viewers</Label>
+                    <p className="text-sm text-muted-foreground mb-2">
+                      Optional addresses that may read the will content. Each needs a registered encryption key,
+                      since the will is encrypted to them before it is minted.
                     </p>
+                    {viewers.map((viewer, index) => (
+                      <div key={index} className="flex gap-2 mb-2">
+                        <Input
+                          value={viewer}
+                          onChange={(e) => updateViewer(index, e.target.value)}
+                          placeholder="0x..."
+                          disabled={viewersLocked}
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setViewers(viewers.filter((_, i) => i !== index))}
+                          disabled={viewersLocked}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setViewers([...viewers, ''])}
+                      disabled={viewersLocked}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Viewer
+                    </Button>
                   </div>
 
                   <div>
@@ -455,6 +621,42 @@ export default function CreateWillPage() {
                         </Label>
                       </div>
                       
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="radio"
+                          id="metamask"
+                          name="encryption"
+                          value="metamask"
+                          checked={encryptionMethod === 'metamask'}
+                          onChange={() => setEncryptionMethod('metamask')}
+                        />
+                        <Label htmlFor="metamask" className="cursor-pointer">
+                          <strong>Wallet Encryption Key (MetaMask)</strong>
+                          <br />
+                          <span className="text-sm text-muted-foreground">
+                            Encrypts to your wallet&apos;s encryption key; only your wallet can decrypt it
+                          </span>
+                        </Label>
+                      </div>
+
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="radio"
+                          id="passkey"
+                          name="encryption"
+                          value="passkey"
+                          checked={encryptionMethod === 'passkey'}
+                          onChange={() => setEncryptionMethod('passkey')}
+                        />
+                        <Label htmlFor="passkey" className="cursor-pointer">
+                          <strong>Passkey</strong>
+                          <br />
+                          <span className="text-sm text-muted-foreground">
+                            Creates a passkey on this device or security key; it is required to decrypt
+                          </span>
+                        </Label>
+                      </div>
+
                       <div className="flex items-center space-x-2">
                         <input
                           type="radio"
@@ -483,10 +685,16 @@ export default function CreateWillPage() {
                           id="password"
                           type="password"
                           value={password}
-                          onChange={(e) => setPassword(e.target.value)}
+                          onChange={(e) => {
+                            setPassword(e.target.value)
+                            setGeneratedSecret(null)
+                          }}
                           placeholder="Enter a strong password"
                           className="mt-1"
                         />
+                        {passwordValidation && (
+                          <PasswordStrengthMeter validation={passwordValidation} />
+                        )}
                       </div>
 
                       <div>
@@ -500,9 +708,108 @@ export default function CreateWillPage() {
                           className="mt-1"
                         />
                       </div>
+
+                      <div className="space-y-2">
+                        <Label>Generate</Label>
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => applyGeneratedSecret(generatePassword())}
+                          >
+                            Generate Password
+                          </Button>
+                          <Input
+                            type="number"
+                            min={4}
+                            max={24}
+                            value={passphraseWords}
+                            onChange={(e) => setPassphraseWords(e.target.value)}
+                            className="w-20"
+                            aria-label="Passphrase word count"
+                          />
+                          <Select value={passphraseSeparator} onValueChange={setPassphraseSeparator}>
+                            <SelectTrigger className="w-32" aria-label="Passphrase separator">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="-">Hyphen (-)</SelectItem>
+                              <SelectItem value=" ">Space</SelectItem>
+                              <SelectItem value=".">Period (.)</SelectItem>
+                              <SelectItem value="_">Underscore (_)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => applyGeneratedSecret(
+                              generatePassphrase(Math.min(Math.max(parseInt(passphraseWords) || 6, 4), 24), passphraseSeparator)
+                            )}
+                          >
+                            Generate Passphrase
+                          </Button>
+                        </div>
+                        {generatedSecret && (
+                          <div className="bg-muted p-3 rounded-lg">
+                            <p className="font-mono text-sm break-all">{generatedSecret.value}</p>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Entropy: {Math.floor(generatedSecret.entropyBits)} bits. Write it down - it cannot be recovered if lost.
+                            </p>
+                          </div>
+                        )}
+                      </div>
+
+                      <div>
+                        <Label htmlFor="passwordKdf">Key Derivation</Label>
+                        <Select
+                          value={passwordKdf}
+                          onValueChange={(value) => setPasswordKdf(value as PasswordKdf)}
+                        >
+                          <SelectTrigger id="passwordKdf" className="mt-1">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="PBKDF2-SHA256">PBKDF2-SHA256 (600,000 iterations)</SelectItem>
+                            <SelectItem value="SCRYPT">scrypt (N=2^17, r=8, p=1)</SelectItem>
+                            <SelectItem value="ARGON2ID">Argon2id (64 MiB, 3 passes)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <p className="text-sm text-muted-foreground mt-1">
+                          scrypt and Argon2id are memory-hard and resist GPU guessing better, but take a few seconds
+                        </p>
+                      </div>
                     </>
                   )}
 
+                  <div className="flex items-start justify-between gap-4 border rounded-lg p-4">
+                    <div>
+                      <Label htmlFor="privateMetadata">Private Metadata</Label>
+                      <p className="text-sm text-muted-foreground mt-1">
+                        {privateMetadata
+                          ? 'The title, creator and dates are encrypted with the will. IPFS only sees an opaque, versioned ciphertext.'
+                          : 'The title, creator and dates are published unencrypted next to the ciphertext, where anyone with the CID can read them.'}
+                      </p>
+                    </div>
+                    <Switch
+                      id="privateMetadata"
+                      checked={privateMetadata}
+                      onCheckedChange={setPrivateMetadata}
+                    />
+                  </div>
+
+                  {isStoring && (
+                    <TransferStatus
+                      label="Encrypting and uploading will"
+                      progress={progress}
+                      onCancel={() => {
+                        uploadCancelled.current = true
+                        cancel()
+                      }}
+                    />
+                  )}
+
                   <div className="flex justify-between">
                     <Button 
                       variant="outline"
@@ -512,7 +819,7 @@ export default function CreateWillPage() {
                     </Button>
                     <Button
                       onClick={handleCreateWill}
-                      disabled={isPending || isStoring || isConfirming}
+                      disabled={isPending || isStoring || isConfirming || isUploadingAttachments}
                       size="lg"
                     >
                       {isPending || isStoring ? 'Creating Will...' :
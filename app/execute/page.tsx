@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { useAccount, useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
 import { Navbar } from '@/components/navbar'
+import { KeyRegistration } from '@/components/key-registration'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -12,7 +13,10 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { useWillsNFT, useWillExecutor } from '@/hooks/useContracts'
 import { useIPFS } from '@/hooks/useIPFS'
-import { Shield, Calendar, FileText, AlertTriangle, CheckCircle, Clock, User } from 'lucide-react'
+import { SignatureBadge } from '@/components/signature-badge'
+import { AttachmentList } from '@/components/attachment-list'
+import { WillValidationAlert } from '@/components/will-validation-alert'
+import { Shield, Calendar, FileText, AlertTriangle, CheckCircle, Clock, User, Server } from 'lucide-react'
 import type { WillContent } from '@/lib/ipfs'
 
 interface ExecutableWill {
@@ -34,11 +38,14 @@ export default function ExecutePage() {
   const { writeContract, data: hash, error: contractError, isPending } = useWriteContract()
   const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash })
   
-  const { retrieveWill } = useIPFS()
+  const { retrieveWill, validationError } = useIPFS()
   
   const [executableWills, setExecutableWills] = useState<ExecutableWill[]>([])
   const [selectedWill, setSelectedWill] = useState<ExecutableWill | null>(null)
   const [willContent, setWillContent] = useState<WillContent | null>(null)
+  const [willSignature, setWillSignature] = useState<`0x${string}` | undefined>()
+  const [willSource, setWillSource] = useState<string | null>(null)
+  const [willKey, setWillKey] = useState<Uint8Array<ArrayBuffer> | undefined>()
   const [isLoadingContent, setIsLoadingContent] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [executionPassword, setExecutionPassword] = useState('')
@@ -150,7 +157,10 @@ export default function ExecutePage() {
 
     try {
       const content = await retrieveWill(will.ipfsHash, executionPassword || undefined)
-      setWillContent(content)
+      setWillContent(content?.willContent ?? null)
+      setWillSignature(content?.signature)
+      setWillSource(content?.source ?? null)
+      setWillKey(content?.contentKey)
     } catch (error) {
       console.error('Error loading will content:', error)
       setError('Failed to decrypt will content. The will may be password-protected.')
@@ -238,6 +248,8 @@ export default function ExecutePage() {
             </p>
           </div>
 
+          <KeyRegistration />
+
           {error && (
             <Alert className="mb-6 border-red-200 bg-red-50">
               <AlertTriangle className="h-4 w-4 text-red-600" />
@@ -360,6 +372,20 @@ export default function ExecutePage() {
                           </div>
                         ) : willContent ? (
                           <div className="space-y-6">
+                            <div className="flex flex-wrap items-center gap-3">
+                              <SignatureBadge
+                                tokenId={will.tokenId}
+                                content={willContent}
+                                signature={willSignature}
+                              />
+                              {willSource && (
+                                <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                                  <Server className="h-3 w-3" />
+                                  Served by {willSource}
+                                </span>
+                              )}
+                            </div>
+
                             <div>
                               <h3 className="font-semibold mb-2 text-green-600">Executor Instructions</h3>
                               <div className="bg-green-50 border border-green-200 p-4 rounded-lg">
@@ -367,6 +393,13 @@ export default function ExecutePage() {
                               </div>
                             </div>
                             
+                            {willContent.attachments && willContent.attachments.length > 0 && (
+                              <div>
+                                <h3 className="font-semibold mb-2">Attachments</h3>
+                                <AttachmentList attachments={willContent.attachments} contentKey={willKey} />
+                              </div>
+                            )}
+                            
                             <div>
                               <h3 className="font-semibold mb-2">Will Title</h3>
                               <p className="text-sm">{willContent.title}</p>
@@ -398,6 +431,8 @@ export default function ExecutePage() {
                               </div>
                             </div>
                           </div>
+                        ) : validationError ? (
+                          <WillValidationAlert error={validationError} />
                         ) : error && (
                           <Alert className="border-red-200 bg-red-50">
                             <AlertTriangle className="h-4 w-4 text-red-600" />
@@ -1,18 +1,33 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useAccount, useReadContract } from 'wagmi'
+import { useAccount, useReadContract, useWriteContract } from 'wagmi'
 import { Navbar } from '@/components/navbar'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
 import { useWillsNFT } from '@/hooks/useContracts'
 import { useIPFS } from '@/hooks/useIPFS'
-import { FileText, Eye, Edit, Clock, Shield, AlertCircle, Calendar } from 'lucide-react'
+import { RotateKeyDialog } from '@/components/rotate-key-dialog'
+import { SignatureBadge } from '@/components/signature-badge'
+import { PinStatusBadge } from '@/components/pin-status-badge'
+import { PinningSettingsDialog } from '@/components/pinning-settings-dialog'
+import { LocalCacheDialog } from '@/components/local-cache-dialog'
+import { CarImportDialog } from '@/components/car-import-dialog'
+import { WillHistoryDialog } from '@/components/will-history-dialog'
+import { AttachmentList } from '@/components/attachment-list'
+import { WillExportPanel } from '@/components/will-export-panel'
+import { WillValidationAlert } from '@/components/will-validation-alert'
+import { usePinning } from '@/hooks/usePinning'
+import { FileText, Eye, Edit, Clock, Shield, AlertCircle, Calendar, Lock, KeyRound, Server } from 'lucide-react'
 import Link from 'next/link'
 import type { WillContent } from '@/lib/ipfs'
+import { DEFAULT_PASSWORD_KDF, type PasswordKdf } from '@/lib/encryption'
 
 interface Will {
   tokenId: bigint
@@ -26,13 +41,24 @@ interface Will {
 export default function MyWillsPage() {
   const { address, isConnected } = useAccount()
   const { address: contractAddress, abi } = useWillsNFT()
-  const { retrieveWill } = useIPFS()
+  const { retrieveWill, needsKdfUpgrade, upgradeWillKdf, error: ipfsError, validationError } = useIPFS()
+  const { writeContractAsync } = useWriteContract()
+  const pinning = usePinning()
   
   const [wills, setWills] = useState<Will[]>([])
   const [selectedWill, setSelectedWill] = useState<Will | null>(null)
   const [willContent, setWillContent] = useState<WillContent | null>(null)
+  const [willSignature, setWillSignature] = useState<`0x${string}` | undefined>()
+  const [willSource, setWillSource] = useState<string | null>(null)
+  const [willKey, setWillKey] = useState<Uint8Array<ArrayBuffer> | undefined>()
+  // Titles are encrypted with private wills, so they are only shown once a will has been unlocked
+  const [unlockedTitles, setUnlockedTitles] = useState<Record<string, string>>({})
   const [isLoadingContent, setIsLoadingContent] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [password, setPassword] = useState('')
+  const [kdfUpgradeAvailable, setKdfUpgradeAvailable] = useState(false)
+  const [upgradeKdf, setUpgradeKdf] = useState<PasswordKdf>(DEFAULT_PASSWORD_KDF)
+  const [upgradeStatus, setUpgradeStatus] = useState<string | null>(null)
 
   // Get user's token count
   const { data: tokenCount } = useReadContract({
@@ -119,15 +145,32 @@ export default function MyWillsPage() {
     loadUserWills()
   }, [address, contractAddress, abi, tokenCount])
 
-  // Load will content
-  const handleViewWill = async (will: Will) => {
+  // Load will content, with a password for password-protected wills
+  const handleViewWill = async (will: Will, willPassword?: string) => {
     setSelectedWill(will)
+    setWillContent(null)
+    setWillSignature(undefined)
+    setWillSource(null)
+    setWillKey(undefined)
     setIsLoadingContent(true)
     setError(null)
+    setKdfUpgradeAvailable(false)
+    setUpgradeStatus(null)
 
     try {
-      const content = await retrieveWill(will.ipfsHash)
-      setWillContent(content)
+      const content = await retrieveWill(will.ipfsHash, willPassword)
+      setWillContent(content?.willContent ?? null)
+      setWillSignature(content?.signature)
+      setWillSource(content?.source ?? null)
+      setWillKey(content?.contentKey)
+
+      if (content) {
+        setUnlockedTitles(previous => ({ ...previous, [will.tokenId.toString()]: content.willContent.title }))
+      }
+
+      if (content && willPassword) {
+        setKdfUpgradeAvailable(await needsKdfUpgrade(will.ipfsHash))
+      }
     } catch (error) {
       console.error('Error loading will content:', error)
       setError('Failed to decrypt will content. Please check your password or wallet connection.')
@@ -136,6 +179,41 @@ export default function MyWillsPage() {
     }
   }
 
+  // Re-encrypt a password will with a stronger KDF and point the token at the new CID
+  const handleUpgradeKdf = async (will: Will) => {
+    if (!contractAddress) return
+
+    setUpgradeStatus('Re-encrypting and uploading...')
+    const newHash = await upgradeWillKdf(will.ipfsHash, password, upgradeKdf)
+    if (!newHash) {
+      setUpgradeStatus(null)
+      return
+    }
+
+    try {
+      setUpgradeStatus('Confirm the update in your wallet...')
+      await writeContractAsync({
+        address: contractAddress,
+        abi: abi,
+        functionName: 'updateWill',
+        args: [will.tokenId, newHash],
+      })
+
+      setWills(wills.map(w => (w.tokenId === will.tokenId ? { ...w, ipfsHash: newHash } : w)))
+      setKdfUpgradeAvailable(false)
+      setUpgradeStatus('Encryption upgraded')
+    } catch (error) {
+      console.error('Failed to update will:', error)
+      setUpgradeStatus(`Upload succeeded (${newHash}) but the on-chain update failed - try again`)
+    }
+  }
+
+  // Track the re-encrypted CID after a key rotation
+  const handleRotated = (will: Will, newHash: string) => {
+    setWills(wills.map(w => (w.tokenId === will.tokenId ? { ...w, ipfsHash: newHash } : w)))
+    setWillContent(null)
+  }
+
   // Format date
   const formatDate = (timestamp: bigint) => {
     return new Date(Number(timestamp) * 1000).toLocaleDateString()
@@ -178,12 +256,23 @@ export default function MyWillsPage() {
                 Manage and view your decentralized wills
               </p>
             </div>
-            <Link href="/create">
-              <Button size="lg">
-                <FileText className="h-4 w-4 mr-2" />
-                Create New Will
-              </Button>
-            </Link>
+            <div className="flex gap-2">
+              <LocalCacheDialog wills={wills} />
+              <CarImportDialog wills={wills} />
+              <PinningSettingsDialog
+                config={pinning.config}
+                error={pinning.error}
+                onSave={pinning.saveConfig}
+                onClear={pinning.clearConfig}
+                onTest={pinning.testConnection}
+              />
+              <Link href="/create">
+                <Button size="lg">
+                  <FileText className="h-4 w-4 mr-2" />
+                  Create New Will
+                </Button>
+              </Link>
+            </div>
           </div>
 
           {error && (
@@ -219,13 +308,14 @@ export default function MyWillsPage() {
                   <CardHeader className="pb-4">
                     <div className="flex justify-between items-start">
                       <CardTitle className="text-lg">
-                        Will #{will.tokenId.toString()}
+                        {unlockedTitles[will.tokenId.toString()] ?? `Will #${will.tokenId.toString()}`}
                       </CardTitle>
                       <Badge variant={will.isExecuted ? 'destructive' : 'default'}>
                         {will.isExecuted ? 'Executed' : 'Active'}
                       </Badge>
                     </div>
                     <CardDescription>
+                      {unlockedTitles[will.tokenId.toString()] ? `Will #${will.tokenId.toString()} · ` : ''}
                       Created {formatDate(will.createdAt)}
                     </CardDescription>
                   </CardHeader>
@@ -245,8 +335,10 @@ export default function MyWillsPage() {
                       <Calendar className="h-4 w-4" />
                       <span>IPFS: {will.ipfsHash.slice(0, 12)}...</span>
                     </div>
+
+                    <PinStatusBadge ipfsHash={will.ipfsHash} config={pinning.config} />
                     
-                    <div className="flex gap-2 pt-4">
+                    <div className="flex flex-wrap gap-2 pt-4">
                       <Dialog>
                         <DialogTrigger asChild>
                           <Button 
@@ -274,6 +366,20 @@ export default function MyWillsPage() {
                             </div>
                           ) : willContent ? (
                             <div className="space-y-6">
+                              <div className="flex flex-wrap items-center gap-3">
+                                <SignatureBadge
+                                  tokenId={will.tokenId}
+                                  content={willContent}
+                                  signature={willSignature}
+                                />
+                                {willSource && (
+                                  <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                                    <Server className="h-3 w-3" />
+                                    Served by {willSource}
+                                  </span>
+                                )}
+                              </div>
+
                               <div>
                                 <h3 className="font-semibold mb-2">Title</h3>
                                 <p className="text-sm">{willContent.title}</p>
@@ -306,18 +412,88 @@ export default function MyWillsPage() {
                                 </div>
                               </div>
                               
+                              {willContent.attachments && willContent.attachments.length > 0 && (
+                                <div>
+                                  <h3 className="font-semibold mb-2">Attachments</h3>
+                                  <AttachmentList attachments={willContent.attachments} contentKey={willKey} />
+                                </div>
+                              )}
+                              
                               <div className="text-xs text-muted-foreground">
                                 <p>Created: {willContent.createdAt}</p>
                                 <p>Last Modified: {willContent.lastModified}</p>
                               </div>
+
+                              <WillExportPanel tokenId={will.tokenId} ipfsHash={will.ipfsHash} contentKey={willKey} />
+
+                              {kdfUpgradeAvailable && (
+                                <div className="border rounded-lg p-4 space-y-3">
+                                  <p className="text-sm">
+                                    This will&apos;s password protection uses outdated key derivation settings.
+                                  </p>
+                                  <div className="flex gap-2">
+                                    <Select
+                                      value={upgradeKdf}
+                                      onValueChange={(value) => setUpgradeKdf(value as PasswordKdf)}
+                                    >
+                                      <SelectTrigger className="w-56">
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        <SelectItem value="PBKDF2-SHA256">PBKDF2-SHA256</SelectItem>
+                                        <SelectItem value="SCRYPT">scrypt</SelectItem>
+                                        <SelectItem value="ARGON2ID">Argon2id</SelectItem>
+                                      </SelectContent>
+                                    </Select>
+                                    <Button
+                                      size="sm"
+                                      onClick={() => handleUpgradeKdf(will)}
+                                      disabled={!!upgradeStatus && upgradeStatus !== 'Encryption upgraded'}
+                                    >
+                                      Upgrade KDF
+                                    </Button>
+                                  </div>
+                                </div>
+                              )}
+
+                              {upgradeStatus && (
+                                <p className="text-sm text-muted-foreground">{upgradeStatus}</p>
+                              )}
+                            </div>
+                          ) : (
+                            <div className="space-y-4">
+                              {validationError ? (
+                                <WillValidationAlert error={validationError} />
+                              ) : (ipfsError || error) && (
+                                <Alert className="border-red-200 bg-red-50">
+                                  <AlertCircle className="h-4 w-4 text-red-600" />
+                                  <AlertDescription className="text-red-800">
+                                    {ipfsError || error}
+                                  </AlertDescription>
+                                </Alert>
+                              )}
+
+                              <div>
+                                <Label htmlFor={`password-${will.tokenId}`}>Password</Label>
+                                <div className="flex gap-2 mt-1">
+                                  <Input
+                                    id={`password-${will.tokenId}`}
+                                    type="password"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    placeholder="Password for password-protected wills"
+                                  />
+                                  <Button
+                                    variant="outline"
+                                    onClick={() => handleViewWill(will, password)}
+                                    disabled={!password}
+                                  >
+                                    <Lock className="h-4 w-4 mr-1" />
+                                    Unlock
+                                  </Button>
+                                </div>
+                              </div>
                             </div>
-                          ) : error && (
-                            <Alert className="border-red-200 bg-red-50">
-                              <AlertCircle className="h-4 w-4 text-red-600" />
-                              <AlertDescription className="text-red-800">
-                                {error}
-                              </AlertDescription>
-                            </Alert>
                           )}
                         </DialogContent>
                       </Dialog>
@@ -330,6 +506,22 @@ export default function MyWillsPage() {
                         <Edit className="h-4 w-4 mr-1" />
                         Edit
                       </Button>
+
+                      <Link href={`/recovery-kit?tokenId=${will.tokenId}&cid=${will.ipfsHash}`}>
+                        <Button size="sm" variant="outline" disabled={will.isExecuted}>
+                          <KeyRound className="h-4 w-4 mr-1" />
+                          Recovery Kit
+                        </Button>
+                      </Link>
+
+                      <RotateKeyDialog
+                        tokenId={will.tokenId}
+                        ipfsHash={will.ipfsHash}
+                        disabled={will.isExecuted}
+                        onRotated={(newHash) => handleRotated(will, newHash)}
+                      />
+
+                      <WillHistoryDialog tokenId={will.tokenId} ipfsHash={will.ipfsHash} />
                     </div>
                   </CardContent>
                 </Card>
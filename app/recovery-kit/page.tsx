@@ -0,0 +1,301 @@
+'use client'
+
+import { Suspense, useEffect, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import QRCode from 'qrcode'
+import { Navbar } from '@/components/navbar'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { useIPFS } from '@/hooks/useIPFS'
+import { RecoveryKit, type RecoveryKitData } from '@/lib/encryption'
+import type { WillContent } from '@/lib/ipfs'
+import { AlertCircle, KeyRound, Printer } from 'lucide-react'
+
+function RecoveryKitContent() {
+  const searchParams = useSearchParams()
+  const { createRecoveryKit, retrieveWill, isRetrieving, error: ipfsError, clearError } = useIPFS()
+
+  const [tokenId, setTokenId] = useState(searchParams.get('tokenId') ?? '')
+  const [cid, setCid] = useState(searchParams.get('cid') ?? '')
+  const [password, setPassword] = useState('')
+  const [kit, setKit] = useState<RecoveryKitData | null>(null)
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null)
+
+  const [restoreCid, setRestoreCid] = useState('')
+  const [restoreInput, setRestoreInput] = useState('')
+  const [restoredWill, setRestoredWill] = useState<WillContent | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Render the kit's QR code once it has been generated
+  useEffect(() => {
+    if (!kit) {
+      setQrDataUrl(null)
+      return
+    }
+
+    QRCode.toDataURL(RecoveryKit.toQrPayload(kit), { errorCorrectionLevel: 'M', margin: 1, width: 240 })
+      .then(setQrDataUrl)
+      .catch((err: unknown) => {
+        console.error('Failed to render QR code:', err)
+        setQrDataUrl(null)
+      })
+  }, [kit])
+
+  const handleGenerate = async () => {
+    clearError()
+    setError(null)
+
+    if (!/^\d+$/.test(tokenId) || !cid.trim()) {
+      setError('Token ID and CID are required')
+      return
+    }
+
+    setKit(await createRecoveryKit(BigInt(tokenId), cid.trim(), password || undefined))
+  }
+
+  const handleRestore = async () => {
+    clearError()
+    setError(null)
+    setRestoredWill(null)
+
+    let words: string[]
+    let kitCid = restoreCid.trim()
+    try {
+      const parsed = RecoveryKit.parse(restoreInput)
+      words = parsed.words
+      kitCid = kitCid || parsed.kit?.cid || ''
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid recovery phrase')
+      return
+    }
+
+    if (!kitCid) {
+      setError('Enter the will\'s CID from the recovery kit')
+      return
+    }
+
+    const result = await retrieveWill(kitCid, undefined, words.join(' '))
+    setRestoredWill(result?.willContent ?? null)
+  }
+
+  const displayError = error || ipfsError
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="mb-8 print:hidden">
+        <h1 className="text-3xl font-bold mb-2">Recovery Kit</h1>
+        <p className="text-muted-foreground">
+          Print an offline backup of a will&apos;s decryption key, or restore a will from one
+        </p>
+      </div>
+
+      {displayError && (
+        <Alert className="mb-6 border-red-200 bg-red-50 print:hidden">
+          <AlertCircle className="h-4 w-4 text-red-600" />
+          <AlertDescription className="text-red-800">
+            {displayError}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Tabs defaultValue="create">
+        <TabsList className="grid w-full grid-cols-2 print:hidden">
+          <TabsTrigger value="create">Create Kit</TabsTrigger>
+          <TabsTrigger value="restore">Restore</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="create" className="space-y-6">
+          <Card className="print:hidden">
+            <CardHeader>
+              <CardTitle>Generate Recovery Kit</CardTitle>
+              <CardDescription>
+                Unlock the will to encode its content key. Anyone holding the kit can read the will - store it like a private key.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="tokenId">Token ID</Label>
+                  <Input
+                    id="tokenId"
+                    value={tokenId}
+                    onChange={(e) => setTokenId(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="cid">IPFS CID</Label>
+                  <Input
+                    id="cid"
+                    value={cid}
+                    onChange={(e) => setCid(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="kitPassword">Password</Label>
+                <Input
+                  id="kitPassword"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Only needed for password-protected wills"
+                  className="mt-1"
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={handleGenerate} disabled={isRetrieving}>
+                  <KeyRound className="h-4 w-4 mr-2" />
+                  {isRetrieving ? 'Unlocking...' : 'Generate Kit'}
+                </Button>
+                {kit && (
+                  <Button variant="outline" onClick={() => window.print()}>
+                    <Printer className="h-4 w-4 mr-2" />
+                    Print
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {kit && (
+            <Card className="print:shadow-none print:border-0">
+              <CardHeader>
+                <CardTitle>WillsDAO Recovery Kit</CardTitle>
+                <CardDescription>
+                  Keep this page offline and secure. These 24 words decrypt the will below.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="flex flex-col md:flex-row gap-6">
+                  <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-2 text-sm flex-1">
+                    <dt className="font-semibold">Token ID</dt>
+                    <dd>#{kit.tokenId}</dd>
+                    <dt className="font-semibold">IPFS CID</dt>
+                    <dd className="font-mono break-all">{kit.cid}</dd>
+                    <dt className="font-semibold">Chain ID</dt>
+                    <dd>{kit.chainId}</dd>
+                    <dt className="font-semibold">Contract</dt>
+                    <dd className="font-mono break-all">{kit.contract}</dd>
+                    <dt className="font-semibold">Created</dt>
+                    <dd>{new Date(kit.createdAt).toLocaleString()}</dd>
+                  </dl>
+                  {qrDataUrl && (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img src={qrDataUrl} alt="Recovery kit QR code" className="w-48 h-48 self-center" />
+                  )}
+                </div>
+
+                <ol className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {kit.words.map((word, index) => (
+                    <li key={index} className="border rounded px-3 py-2 font-mono text-sm">
+                      <span className="text-muted-foreground mr-2">{index + 1}.</span>
+                      {word}
+                    </li>
+                  ))}
+                </ol>
+
+                <p className="text-xs text-muted-foreground">
+                  To restore: open WillsDAO → Recovery Kit → Restore, then scan the QR code or enter the words and CID.
+                  The last word is a checksum, so a mistyped word is detected.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="restore" className="space-y-6 print:hidden">
+          <Card>
+            <CardHeader>
+              <CardTitle>Restore From Recovery Kit</CardTitle>
+              <CardDescription>
+                No wallet is needed. Paste the scanned QR contents, or type the 24 words and the CID.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label htmlFor="restoreCid">IPFS CID</Label>
+                <Input
+                  id="restoreCid"
+                  value={restoreCid}
+                  onChange={(e) => setRestoreCid(e.target.value)}
+                  placeholder="Optional when pasting QR contents"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="restoreInput">Recovery Words</Label>
+                <Textarea
+                  id="restoreInput"
+                  value={restoreInput}
+                  onChange={(e) => setRestoreInput(e.target.value)}
+                  rows={4}
+                  className="mt-1 font-mono"
+                />
+              </div>
+              <Button onClick={handleRestore} disabled={isRetrieving || !restoreInput.trim()}>
+                {isRetrieving ? 'Restoring...' : 'Restore Will'}
+              </Button>
+            </CardContent>
+          </Card>
+
+          {restoredWill && (
+            <Card>
+              <CardHeader>
+                <CardTitle>{restoredWill.title}</CardTitle>
+                <CardDescription>Last modified {restoredWill.lastModified}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="bg-muted p-4 rounded-lg">
+                  <pre className="whitespace-pre-wrap text-sm">{restoredWill.content}</pre>
+                </div>
+
+                <div>
+                  <h3 className="font-semibold mb-2">Beneficiaries</h3>
+                  <div className="space-y-2">
+                    {restoredWill.beneficiaries.map((beneficiary, index) => (
+                      <div key={index} className="bg-muted p-3 rounded-lg text-sm">
+                        <p><strong>Name:</strong> {beneficiary.name}</p>
+                        <p><strong>Address:</strong> {beneficiary.address}</p>
+                        <p><strong>Allocation:</strong> {beneficiary.allocation} {beneficiary.assetType}</p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <h3 className="font-semibold mb-2">Executor Instructions</h3>
+                  <div className="bg-muted p-4 rounded-lg">
+                    <pre className="whitespace-pre-wrap text-sm">{restoredWill.executorInstructions}</pre>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
+
+export default function RecoveryKitPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted/50 print:bg-none">
+      <div className="print:hidden">
+        <Navbar />
+      </div>
+
+      <main className="container mx-auto px-4 py-8">
+        <Suspense>
+          <RecoveryKitContent />
+        </Suspense>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { TransferStatus } from '@/components/transfer-status'
+import { useIPFS } from '@/hooks/useIPFS'
+import type { WillAttachment } from '@/lib/ipfs'
+import { formatBytes } from '@/lib/storage'
+import { Download, FileText, Loader2 } from 'lucide-react'
+
+interface AttachmentListProps {
+  attachments: WillAttachment[]
+  // Content key of the will the attachments belong to
+  contentKey?: Uint8Array<ArrayBuffer>
+}
+
+// A decrypted will's attachments, each downloadable as its original file
+export function AttachmentList({ attachments, contentKey }: AttachmentListProps) {
+  const { downloadAttachment, error, progress, cancel } = useIPFS()
+  const [downloading, setDownloading] = useState<string | null>(null)
+
+  const handleDownload = async (attachment: WillAttachment) => {
+    if (!contentKey) return
+
+    setDownloading(attachment.cid)
+    try {
+      await downloadAttachment(attachment, contentKey)
+    } finally {
+      setDownloading(null)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {attachments.map(attachment => (
+        <div key={attachment.cid} className="flex items-center gap-3 bg-muted p-3 rounded-lg text-sm">
+          <FileText className="h-4 w-4 shrink-0" />
+          <span className="flex-1 truncate" title={attachment.name}>{attachment.name}</span>
+          <span className="text-muted-foreground">{formatBytes(attachment.size)}</span>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => handleDownload(attachment)}
+            disabled={!contentKey || downloading !== null}
+          >
+            {downloading === attachment.cid
+              ? <Loader2 className="h-4 w-4 animate-spin" />
+              : <Download className="h-4 w-4" />}
+          </Button>
+        </div>
+      ))}
+
+      {downloading && (
+        <TransferStatus
+          label={`Downloading ${attachments.find(attachment => attachment.cid === downloading)?.name}`}
+          progress={progress}
+          onCancel={cancel}
+        />
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  )
+}
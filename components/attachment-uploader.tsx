@@ -0,0 +1,147 @@
+'use client'
+
+import { useRef, useState, type DragEvent } from 'react'
+import { Button } from '@/components/ui/button'
+import { TransferStatus } from '@/components/transfer-status'
+import { useIPFS } from '@/hooks/useIPFS'
+import { ipfsService, type WillAttachment } from '@/lib/ipfs'
+import { formatBytes } from '@/lib/storage'
+import { FileText, Loader2, Upload, X } from 'lucide-react'
+
+interface AttachmentUploaderProps {
+  // The content key the will will be stored under
+  contentKey: Uint8Array<ArrayBuffer>
+  attachments: WillAttachment[]
+  onChange: (attachments: WillAttachment[]) => void
+  // Called when uploads start and finish, so the will is not stored with files still pending
+  onUploadingChange?: (uploading: boolean) => void
+  disabled?: boolean
+}
+
+// Drag-and-drop area that encrypts each file under the will's content key before uploading it
+export function AttachmentUploader({
+  contentKey,
+  attachments,
+  onChange,
+  onUploadingChange,
+  disabled
+}: AttachmentUploaderProps) {
+  const { storeAttachment, isStoring, error, progress, cancel } = useIPFS()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isDragging, setIsDragging] = useState(false)
+  const [uploading, setUploading] = useState<string | null>(null)
+
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0) return
+
+    // Upload one at a time so large files are not encrypted side by side; a
+    // cancelled or failed upload skips the files after it
+    onUploadingChange?.(true)
+    let updated = attachments
+    try {
+      for (const file of files) {
+        setUploading(file.name)
+        const attachment = await storeAttachment(file, contentKey)
+        if (!attachment) break
+        updated = [...updated, attachment]
+        onChange(updated)
+      }
+    } finally {
+      setUploading(null)
+      onUploadingChange?.(false)
+    }
+  }
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setIsDragging(false)
+    if (!disabled && !isStoring) handleFiles(Array.from(event.dataTransfer.files))
+  }
+
+  const handleRemove = async (attachment: WillAttachment) => {
+    onChange(attachments.filter(item => item.cid !== attachment.cid))
+    // The ciphertext is not referenced by any will, so drop the local copy
+    try {
+      await ipfsService.evictContent(attachment.cid)
+    } catch (err) {
+      console.error('Failed to evict removed attachment:', err)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div
+        onDragOver={(event) => {
+          event.preventDefault()
+          setIsDragging(true)
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => !disabled && !isStoring && inputRef.current?.click()}
+        className={`flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-6 text-center cursor-pointer transition-colors ${
+          isDragging ? 'border-primary bg-primary/5' : 'border-muted-foreground/25'
+        }`}
+      >
+        {uploading ? (
+          <>
+            <Loader2 className="h-6 w-6 animate-spin" />
+            <p className="text-sm">Encrypting and uploading {uploading}...</p>
+          </>
+        ) : (
+          <>
+            <Upload className="h-6 w-6 text-muted-foreground" />
+            <p className="text-sm">Drop files here or click to choose</p>
+            <p className="text-xs text-muted-foreground">
+              Files are encrypted in your browser before they are uploaded
+            </p>
+          </>
+        )}
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={(event) => {
+          // Copy the files out before clearing the input, so the same file can be picked again
+          const files = Array.from(event.target.files ?? [])
+          event.target.value = ''
+          handleFiles(files)
+        }}
+      />
+
+      {uploading && (
+        <TransferStatus
+          label={`Encrypting and uploading ${uploading}`}
+          progress={progress}
+          onCancel={cancel}
+        />
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      {attachments.length > 0 && (
+        <ul className="space-y-2">
+          {attachments.map(attachment => (
+            <li key={attachment.cid} className="flex items-center gap-3 rounded-lg bg-muted p-3 text-sm">
+              <FileText className="h-4 w-4 shrink-0" />
+              <span className="flex-1 truncate">{attachment.name}</span>
+              <span className="text-muted-foreground">{formatBytes(attachment.size)}</span>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => handleRemove(attachment)}
+                disabled={disabled || isStoring}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { WillValidationAlert } from '@/components/will-validation-alert'
+import { useIPFS } from '@/hooks/useIPFS'
+import type { WillImport } from '@/lib/ipfs'
+import { formatBytes } from '@/lib/storage'
+import { isValidCid, normalizeCid } from '@/lib/cid'
+import { CheckCircle, FileUp, Loader2, XCircle } from 'lucide-react'
+
+interface CarImportDialogProps {
+  // The connected wallet's wills, whose on-chain CIDs an import is checked against
+  wills: Array<{ tokenId: bigint; ipfsHash: string }>
+}
+
+function sameCid(a: string, b: string): boolean {
+  return isValidCid(a) && isValidCid(b) && normalizeCid(a) === normalizeCid(b)
+}
+
+// Loads an exported will into the local IPFS node and reports its root CID,
+// so the copy can be checked against the ipfsHash recorded on-chain
+export function CarImportDialog({ wills }: CarImportDialogProps) {
+  const { importWillCar, isStoring, error, validationError, clearError } = useIPFS()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [file, setFile] = useState<File | null>(null)
+  const [expectedCid, setExpectedCid] = useState('')
+  const [result, setResult] = useState<WillImport | null>(null)
+
+  const handleImport = async () => {
+    if (!file) return
+    setResult(await importWillCar(file))
+  }
+
+  const reset = () => {
+    clearError()
+    setFile(null)
+    setExpectedCid('')
+    setResult(null)
+  }
+
+  const matchingWill = result && wills.find(will => sameCid(will.ipfsHash, result.root))
+  const expected = expectedCid.trim()
+
+  return (
+    <Dialog onOpenChange={(open) => !open && reset()}>
+      <DialogTrigger asChild>
+        <Button size="lg" variant="outline">
+          <FileUp className="h-4 w-4 mr-2" />
+          Import CAR
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Import Will from CAR File</DialogTitle>
+          <DialogDescription>
+            Load an offline copy into the IPFS node in this browser. Every block is checked against its hash before it is stored.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="car-file">CAR file</Label>
+            <div className="flex items-center gap-2 mt-1">
+              <Button type="button" variant="outline" onClick={() => inputRef.current?.click()} disabled={isStoring}>
+                Choose File
+              </Button>
+              <span className="text-sm text-muted-foreground truncate">
+                {file ? `${file.name} (${formatBytes(file.size)})` : 'No file selected'}
+              </span>
+            </div>
+            <input
+              ref={inputRef}
+              id="car-file"
+              type="file"
+              accept=".car,application/vnd.ipld.car"
+              className="hidden"
+              onChange={(event) => {
+                setFile(event.target.files?.[0] ?? null)
+                setResult(null)
+              }}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="car-expected-cid">On-chain IPFS hash (optional)</Label>
+            <Input
+              id="car-expected-cid"
+              value={expectedCid}
+              onChange={(e) => setExpectedCid(e.target.value)}
+              placeholder="The will token's ipfsHash, to compare with the imported root"
+              className="mt-1 font-mono text-xs"
+            />
+          </div>
+
+          <Button onClick={handleImport} disabled={!file || isStoring} className="w-full">
+            {isStoring && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Import
+          </Button>
+
+          {validationError ? (
+            <WillValidationAlert error={validationError} />
+          ) : error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          {result && (
+            <div className="border rounded-lg p-4 space-y-2 text-sm">
+              <div>
+                <Label className="text-sm font-medium">Root CID</Label>
+                <p className="font-mono text-xs break-all">{result.root}</p>
+              </div>
+              <p className="text-muted-foreground">
+                Revision {result.revision} - {result.blocks} blocks, {formatBytes(result.bytes)} verified and pinned
+              </p>
+
+              {expected && (
+                sameCid(expected, result.root) ? (
+                  <p className="flex items-center gap-1 text-green-600">
+                    <CheckCircle className="h-4 w-4" />
+                    Matches the on-chain IPFS hash
+                  </p>
+                ) : (
+                  <p className="flex items-center gap-1 text-red-600">
+                    <XCircle className="h-4 w-4" />
+                    Does not match the on-chain IPFS hash - this copy is of a different will or version
+                  </p>
+                )
+              )}
+              {!expected && matchingWill && (
+                <p className="flex items-center gap-1 text-green-600">
+                  <CheckCircle className="h-4 w-4" />
+                  Matches the on-chain record of Will #{matchingWill.tokenId.toString()}
+                </p>
+              )}
+              {!expected && !matchingWill && (
+                <p className="text-muted-foreground">
+                  Not the current version of any of your wills. Compare the root CID with the will token&apos;s ipfsHash.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
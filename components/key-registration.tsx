@@ -0,0 +1,43 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { useKeyRegistration } from '@/hooks/useIPFS'
+import { KeyRound } from 'lucide-react'
+
+export function KeyRegistration() {
+  const { registration, register, isLoading, error } = useKeyRegistration()
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <KeyRound className="h-5 w-5" />
+              Encryption Key
+            </CardTitle>
+            <CardDescription>
+              {registration
+                ? 'Wills can be encrypted to your address. You will be asked to sign once to unlock them.'
+                : 'Register an encryption key so will creators can share their will content with you.'}
+            </CardDescription>
+            {error && (
+              <p className="text-sm text-red-600 mt-2">{error}</p>
+            )}
+          </div>
+          {registration ? (
+            <Badge variant="secondary" className="bg-green-100 text-green-800 shrink-0">
+              Registered
+            </Badge>
+          ) : (
+            <Button onClick={register} disabled={isLoading} className="shrink-0">
+              {isLoading ? 'Registering...' : 'Register Key'}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+    </Card>
+  )
+}
@@ -0,0 +1,183 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { ipfsService } from '@/lib/ipfs'
+import {
+  estimateStorage,
+  formatBytes,
+  requestPersistentStorage,
+  type StorageEstimate,
+  type StorageStat,
+  type StorageUsage
+} from '@/lib/storage'
+import { normalizeCid } from '@/lib/cid'
+import { HardDrive, Loader2, Trash2 } from 'lucide-react'
+
+interface LocalCacheDialogProps {
+  // The connected wallet's wills, to label cached CIDs
+  wills: Array<{ tokenId: bigint; ipfsHash: string }>
+}
+
+// Content held by the local IPFS node, with per-will eviction and the browser's storage quota
+export function LocalCacheDialog({ wills }: LocalCacheDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [content, setContent] = useState<StorageStat[]>([])
+  const [usage, setUsage] = useState<StorageUsage | null>(null)
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [evicting, setEvicting] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      setContent(await ipfsService.listLocalContent())
+      setUsage(await ipfsService.storageUsage())
+      setEstimate(await estimateStorage())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load local cache')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (open) refresh()
+  }, [open, refresh])
+
+  const labelFor = (cid: string) => {
+    const will = wills.find(w => {
+      try {
+        return normalizeCid(w.ipfsHash) === cid
+      } catch {
+        return false
+      }
+    })
+    return will ? `Will #${will.tokenId.toString()}` : 'Other content'
+  }
+
+  const handleEvict = async (cid: string) => {
+    if (!confirm(`Remove ${labelFor(cid)} from this browser? Copies pinned elsewhere are not affected.`)) return
+
+    setEvicting(cid)
+    setError(null)
+    try {
+      await ipfsService.evictContent(cid)
+      await refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to evict content')
+    } finally {
+      setEvicting(null)
+    }
+  }
+
+  const handlePersist = async () => {
+    if (!(await requestPersistentStorage())) {
+      setError('The browser declined persistent storage')
+    }
+    setEstimate(await estimateStorage())
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="lg" variant="outline">
+          <HardDrive className="h-4 w-4 mr-2" />
+          Local Cache
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Local Cache</DialogTitle>
+          <DialogDescription>
+            Encrypted wills and files stored by the IPFS node in this browser. Evicting content only removes the local copy.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {estimate && estimate.quota > 0 && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>Browser storage</span>
+                <span className="text-muted-foreground">
+                  {formatBytes(estimate.usage)} of {formatBytes(estimate.quota)}
+                </span>
+              </div>
+              <Progress value={(estimate.usage / estimate.quota) * 100} />
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>
+                  {estimate.persisted
+                    ? 'Persistent storage granted'
+                    : 'Not persistent - the browser may clear this cache under storage pressure'}
+                </span>
+                {!estimate.persisted && (
+                  <Button size="sm" variant="ghost" className="h-6 px-2" onClick={handlePersist}>
+                    Keep data
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {usage && (
+            <p className="text-sm text-muted-foreground">
+              {usage.blocks} blocks, {formatBytes(usage.bytes)} held by the IPFS node
+            </p>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          {isLoading && content.length === 0 ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : content.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Nothing is stored locally.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Content</TableHead>
+                  <TableHead>CID</TableHead>
+                  <TableHead className="text-right">Size</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {content.map(item => (
+                  <TableRow key={item.cid}>
+                    <TableCell>{labelFor(item.cid)}</TableCell>
+                    <TableCell className="font-mono text-xs" title={item.cid}>
+                      {item.cid.slice(0, 12)}...{item.cid.slice(-6)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatBytes(item.size)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleEvict(item.cid)}
+                        disabled={evicting !== null}
+                      >
+                        {evicting === item.cid
+                          ? <Loader2 className="h-4 w-4 animate-spin" />
+                          : <Trash2 className="h-4 w-4" />}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
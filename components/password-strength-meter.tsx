@@ -0,0 +1,48 @@
+'use client'
+
+import { Progress } from '@/components/ui/progress'
+import { cn } from '@/lib/utils'
+import type { PasswordValidation } from '@/lib/encryption'
+
+const SCORE_LABELS = ['Very weak', 'Weak', 'Fair', 'Good', 'Strong']
+// Full class names so Tailwind picks them up
+const SCORE_COLORS = [
+  '[&>div]:bg-red-600',
+  '[&>div]:bg-red-500',
+  '[&>div]:bg-orange-500',
+  '[&>div]:bg-yellow-500',
+  '[&>div]:bg-green-600'
+]
+
+interface PasswordStrengthMeterProps {
+  validation: PasswordValidation
+}
+
+// Live strength estimate shown under a password field
+export function PasswordStrengthMeter({ validation }: PasswordStrengthMeterProps) {
+  const { score, guessesLog10, crackTimesDisplay, feedback, isValid } = validation
+
+  return (
+    <div className="space-y-1 mt-2" aria-live="polite">
+      <Progress
+        value={((score + 1) / SCORE_LABELS.length) * 100}
+        className={cn('h-2', SCORE_COLORS[score])}
+      />
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span className={cn(isValid ? 'text-green-700' : 'text-red-600')}>
+          {SCORE_LABELS[score]}
+        </span>
+        <span>
+          ~10^{Math.floor(guessesLog10)} guesses · offline attack: {crackTimesDisplay.offlineSlowHash}
+        </span>
+      </div>
+      {feedback.length > 0 && (
+        <ul className="text-xs text-muted-foreground list-disc pl-4">
+          {feedback.map((item) => (
+            <li key={item}>{item}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
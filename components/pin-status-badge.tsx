@@ -0,0 +1,143 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { ipfsService } from '@/lib/ipfs'
+import { PinningServiceClient, type PinningServiceConfig, type PinStatus } from '@/lib/pinning'
+import { CheckCircle, CloudOff, Loader2, Pin, XCircle } from 'lucide-react'
+
+const POLL_INTERVAL = 5000
+
+interface PinStatusBadgeProps {
+  ipfsHash: string
+  // The connected wallet's pinning service, or null if none is configured
+  config: PinningServiceConfig | null
+}
+
+// Remote pin state of a will, polled while the service is still fetching it
+export function PinStatusBadge({ ipfsHash, config }: PinStatusBadgeProps) {
+  const [pin, setPin] = useState<PinStatus | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setPin(null)
+    setError(null)
+    if (!config) return
+
+    const load = async () => {
+      setIsLoading(true)
+      try {
+        const status = await new PinningServiceClient(config).findPin(ipfsHash)
+        if (!cancelled) setPin(status)
+      } catch (err) {
+        console.error('Failed to load pin status:', err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load pin status')
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [config, ipfsHash])
+
+  // Poll queued and in-progress requests until they settle
+  const requestId = pin?.requestid
+  const isPending = pin?.status === 'queued' || pin?.status === 'pinning'
+  useEffect(() => {
+    if (!config || !requestId || !isPending) return
+
+    const timer = setInterval(async () => {
+      try {
+        setPin(await new PinningServiceClient(config).getPin(requestId))
+      } catch (err) {
+        console.error('Failed to refresh pin status:', err)
+      }
+    }, POLL_INTERVAL)
+    return () => clearInterval(timer)
+  }, [config, requestId, isPending])
+
+  const handlePin = async () => {
+    if (!config) return
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const client = new PinningServiceClient(config)
+      setPin(await client.addPin({ cid: ipfsHash, name: 'willsdao-will' }))
+      // Earlier revisions are separate documents, so they need pins of their own
+      const revisions = await ipfsService.pinWillHistory(ipfsHash)
+      for (const revision of revisions.slice(1)) {
+        await client.ensurePinned({ cid: revision, name: 'willsdao-will' })
+      }
+    } catch (err) {
+      console.error('Failed to pin will:', err)
+      setError(err instanceof Error ? err.message : 'Failed to pin will')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (!config) {
+    return (
+      <Badge variant="secondary" title="Configure a pinning service to keep this will available">
+        <CloudOff className="h-3 w-3 mr-1" />
+        Browser only
+      </Badge>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <Badge variant="outline">
+        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+        Checking pin
+      </Badge>
+    )
+  }
+
+  if (error) {
+    return (
+      <Badge variant="destructive" title={error}>
+        <XCircle className="h-3 w-3 mr-1" />
+        Pin status unavailable
+      </Badge>
+    )
+  }
+
+  switch (pin?.status) {
+    case 'pinned':
+      return (
+        <Badge className="bg-green-600 hover:bg-green-600">
+          <CheckCircle className="h-3 w-3 mr-1" />
+          Pinned
+        </Badge>
+      )
+    case 'queued':
+    case 'pinning':
+      return (
+        <Badge variant="outline">
+          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          {pin.status === 'queued' ? 'Pin queued' : 'Pinning'}
+        </Badge>
+      )
+    default:
+      return (
+        <div className="flex items-center gap-2">
+          <Badge variant={pin ? 'destructive' : 'secondary'} title={pin?.info?.status_details}>
+            {pin ? <XCircle className="h-3 w-3 mr-1" /> : <CloudOff className="h-3 w-3 mr-1" />}
+            {pin ? 'Pin failed' : 'Not pinned'}
+          </Badge>
+          <Button size="sm" variant="ghost" className="h-6 px-2" onClick={handlePin}>
+            <Pin className="h-3 w-3 mr-1" />
+            {pin ? 'Retry' : 'Pin'}
+          </Button>
+        </div>
+      )
+  }
+}
@@ -0,0 +1,122 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import type { PinningServiceConfig } from '@/lib/pinning'
+import { Loader2, Server } from 'lucide-react'
+
+interface PinningSettingsDialogProps {
+  config: PinningServiceConfig | null
+  error: string | null
+  onSave: (config: PinningServiceConfig) => void
+  onClear: () => void
+  onTest: (config: PinningServiceConfig) => Promise<boolean>
+}
+
+// Per-wallet Pinning Service API endpoint and access token
+export function PinningSettingsDialog({ config, error, onSave, onClear, onTest }: PinningSettingsDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [endpoint, setEndpoint] = useState('')
+  const [accessToken, setAccessToken] = useState('')
+  const [isTesting, setIsTesting] = useState(false)
+  const [testResult, setTestResult] = useState<boolean | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setEndpoint(config?.endpoint ?? '')
+    setAccessToken(config?.accessToken ?? '')
+    setTestResult(null)
+  }, [open, config])
+
+  const candidate = { endpoint: endpoint.trim(), accessToken: accessToken.trim() }
+  const isComplete = !!candidate.endpoint && !!candidate.accessToken
+
+  const handleTest = async () => {
+    setIsTesting(true)
+    try {
+      setTestResult(await onTest(candidate))
+    } finally {
+      setIsTesting(false)
+    }
+  }
+
+  const handleSave = () => {
+    onSave(candidate)
+    setOpen(false)
+  }
+
+  const handleClear = () => {
+    onClear()
+    setOpen(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="lg" variant="outline">
+          <Server className="h-4 w-4 mr-2" />
+          Pinning Service
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Remote Pinning Service</DialogTitle>
+          <DialogDescription>
+            Wills are pinned on a service implementing the IPFS Pinning Service API so they stay available after this tab closes.
+            Settings are stored in this browser for the connected wallet only.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="pinning-endpoint">API Endpoint</Label>
+            <Input
+              id="pinning-endpoint"
+              value={endpoint}
+              onChange={(e) => setEndpoint(e.target.value)}
+              placeholder="https://pinning.example.com/psa"
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="pinning-token">Access Token</Label>
+            <Input
+              id="pinning-token"
+              type="password"
+              value={accessToken}
+              onChange={(e) => setAccessToken(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+
+          {testResult === true && (
+            <p className="text-sm text-green-700">Connected to the pinning service.</p>
+          )}
+          {testResult === false && error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleTest} disabled={!isComplete || isTesting}>
+              {isTesting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Test Connection
+            </Button>
+            <Button onClick={handleSave} disabled={!isComplete} className="flex-1">
+              Save
+            </Button>
+            {config && (
+              <Button variant="destructive" onClick={handleClear}>
+                Remove
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
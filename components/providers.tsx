@@ -7,6 +7,7 @@ import { RainbowKitProvider, darkTheme, lightTheme } from '@rainbow-me/rainbowki
 import { useTheme } from 'next-themes'
 
 import { config } from '@/lib/wagmi'
+import { ipfsService } from '@/lib/ipfs'
 import '@rainbow-me/rainbowkit/styles.css'
 
 const queryClient = new QueryClient()
@@ -18,6 +19,16 @@ export function Web3Providers({ children }: { children: React.ReactNode }) {
     return theme === 'dark' ? darkTheme() : lightTheme()
   }, [theme])
 
+  // Stop the IPFS node when the page is unloaded so IndexedDB is released cleanly.
+  // It restarts on the next storage call if the page is restored from the back-forward cache.
+  React.useEffect(() => {
+    const handlePageHide = () => {
+      ipfsService.shutdown()
+    }
+    window.addEventListener('pagehide', handlePageHide)
+    return () => window.removeEventListener('pagehide', handlePageHide)
+  }, [])
+
   return (
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
@@ -0,0 +1,326 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { usePublicClient, useWriteContract } from 'wagmi'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { useIPFS, useEncryption } from '@/hooks/useIPFS'
+import { useWillsNFT } from '@/hooks/useContracts'
+import { DEFAULT_PASSWORD_KDF, type EncryptionMethod, type PasswordKdf } from '@/lib/encryption'
+import { PasswordStrengthMeter } from '@/components/password-strength-meter'
+import { CheckCircle, Circle, KeyRound, Loader2, XCircle } from 'lucide-react'
+
+type RotationStep = 'decrypt' | 'upload' | 'update' | 'confirm'
+type StepStatus = 'pending' | 'active' | 'done' | 'failed'
+
+const ROTATION_STEPS: Array<{ id: RotationStep; label: string }> = [
+  { id: 'decrypt', label: 'Decrypt current will' },
+  { id: 'upload', label: 'Sign, re-encrypt under a new key and upload' },
+  { id: 'update', label: 'Submit updateWill transaction' },
+  { id: 'confirm', label: 'Wait for confirmation' }
+]
+
+const INITIAL_STATUS: Record<RotationStep, StepStatus> = {
+  decrypt: 'pending',
+  upload: 'pending',
+  update: 'pending',
+  confirm: 'pending'
+}
+
+interface RotateKeyDialogProps {
+  tokenId: bigint
+  ipfsHash: string
+  disabled?: boolean
+  onRotated: (newHash: string) => void
+}
+
+// Re-encrypt a will under a fresh content key and a new creator method or secret,
+// then point the token at the new CID
+export function RotateKeyDialog({ tokenId, ipfsHash, disabled, onRotated }: RotateKeyDialogProps) {
+  const { address: contractAddress, abi } = useWillsNFT()
+  const { writeContractAsync } = useWriteContract()
+  const publicClient = usePublicClient()
+  const { retrieveWill, storeWill, getWillRecipients, error: ipfsError, clearError } = useIPFS()
+  const { validatePassword } = useEncryption()
+
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [method, setMethod] = useState<EncryptionMethod>('wallet')
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [kdf, setKdf] = useState<PasswordKdf>(DEFAULT_PASSWORD_KDF)
+
+  const [stepStatus, setStepStatus] = useState<Record<RotationStep, StepStatus>>(INITIAL_STATUS)
+  const [uploadedHash, setUploadedHash] = useState<string | null>(null)
+  const [rotatedHash, setRotatedHash] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+
+  const passwordValidation = method === 'password' && newPassword ? validatePassword(newPassword) : null
+
+  const setStep = (step: RotationStep, status: StepStatus) => {
+    setStepStatus(previous => ({ ...previous, [step]: status }))
+  }
+
+  // Point the token at the uploaded CID; can be retried without re-uploading
+  const submitUpdate = async (newHash: string) => {
+    if (!contractAddress || !publicClient) {
+      setError('Contract not available')
+      return
+    }
+
+    try {
+      setStep('update', 'active')
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: abi,
+        functionName: 'updateWill',
+        args: [tokenId, newHash],
+      })
+      setStep('update', 'done')
+
+      setStep('confirm', 'active')
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash })
+      if (receipt.status !== 'success') {
+        setStep('update', 'failed')
+        setStep('confirm', 'failed')
+        setError(`The updateWill transaction reverted. The new version is uploaded (${newHash}) - retry the update.`)
+        return
+      }
+
+      setStep('confirm', 'done')
+      setUploadedHash(null)
+      setRotatedHash(newHash)
+      onRotated(newHash)
+    } catch (err) {
+      console.error('Failed to update will:', err)
+      setStep('update', 'failed')
+      setError('Transaction failed: ' + (err instanceof Error ? err.message : 'Unknown error') +
+        `. The new version is uploaded (${newHash}) - retry the update.`)
+    }
+  }
+
+  const handleRotate = async () => {
+    if (method === 'password') {
+      if (!passwordValidation || !passwordValidation.isValid) {
+        setError('New password is too weak: ' + (passwordValidation?.feedback.join(' ') ?? 'enter a password'))
+        return
+      }
+      if (newPassword !== confirmPassword) {
+        setError('New passwords do not match')
+        return
+      }
+    }
+
+    clearError()
+    setError(null)
+    setStepStatus(INITIAL_STATUS)
+    setRotatedHash(null)
+    setIsRunning(true)
+
+    try {
+      setStep('decrypt', 'active')
+      const current = await retrieveWill(ipfsHash, currentPassword || undefined)
+      const recipients = current ? await getWillRecipients(ipfsHash, current.contentKey) : null
+      if (!current || !recipients) {
+        setStep('decrypt', 'failed')
+        return
+      }
+      setStep('decrypt', 'done')
+
+      // A new content key is generated, so anyone holding the old key or password loses access.
+      // storeWill asks the wallet to sign the content again, so the new version keeps its creator signature.
+      setStep('upload', 'active')
+      const newHash = await storeWill(
+        { ...current.willContent, lastModified: new Date().toISOString() },
+        {
+          method,
+          password: method === 'password' ? newPassword : undefined,
+          kdf,
+          recipients,
+          privateMetadata: current.privateMetadata,
+          // The old key is sealed under the new one so the history stays readable
+          previous: { cid: ipfsHash, contentKey: current.contentKey }
+        }
+      )
+      if (!newHash) {
+        setStep('upload', 'failed')
+        return
+      }
+      setStep('upload', 'done')
+      setUploadedHash(newHash)
+
+      await submitUpdate(newHash)
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const handleRetry = async () => {
+    if (!uploadedHash) return
+
+    setError(null)
+    setIsRunning(true)
+    try {
+      await submitUpdate(uploadedHash)
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const stepIcon = (status: StepStatus) => {
+    switch (status) {
+      case 'active':
+        return <Loader2 className="h-4 w-4 animate-spin" />
+      case 'done':
+        return <CheckCircle className="h-4 w-4 text-green-600" />
+      case 'failed':
+        return <XCircle className="h-4 w-4 text-red-600" />
+      default:
+        return <Circle className="h-4 w-4 text-muted-foreground" />
+    }
+  }
+
+  const displayError = error || ipfsError
+  const isComplete = stepStatus.confirm === 'done'
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" disabled={disabled}>
+          <KeyRound className="h-4 w-4 mr-1" />
+          Rotate Key
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Rotate Will Key</DialogTitle>
+          <DialogDescription>
+            Re-encrypt this will under a new key. Executors and viewers keep access; the old password or key no longer opens the current version.
+            Your wallet will be asked to sign the content again, and recovery kits made for the old version will only open that version.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor={`current-password-${tokenId}`}>Current Password</Label>
+            <Input
+              id={`current-password-${tokenId}`}
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              placeholder="Only needed for password-protected wills"
+              className="mt-1"
+              disabled={isRunning}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor={`new-method-${tokenId}`}>New Encryption Method</Label>
+            <Select
+              value={method}
+              onValueChange={(value) => setMethod(value as EncryptionMethod)}
+              disabled={isRunning}
+            >
+              <SelectTrigger id={`new-method-${tokenId}`} className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="wallet">Wallet Signature</SelectItem>
+                <SelectItem value="metamask">Wallet Encryption Key (MetaMask)</SelectItem>
+                <SelectItem value="passkey">Passkey</SelectItem>
+                <SelectItem value="password">Custom Password</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {method === 'password' && (
+            <>
+              <div>
+                <Label htmlFor={`new-password-${tokenId}`}>New Password</Label>
+                <Input
+                  id={`new-password-${tokenId}`}
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  className="mt-1"
+                  disabled={isRunning}
+                />
+                {passwordValidation && (
+                  <PasswordStrengthMeter validation={passwordValidation} />
+                )}
+              </div>
+              <div>
+                <Label htmlFor={`confirm-password-${tokenId}`}>Confirm New Password</Label>
+                <Input
+                  id={`confirm-password-${tokenId}`}
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className="mt-1"
+                  disabled={isRunning}
+                />
+              </div>
+              <div>
+                <Label htmlFor={`kdf-${tokenId}`}>Key Derivation</Label>
+                <Select
+                  value={kdf}
+                  onValueChange={(value) => setKdf(value as PasswordKdf)}
+                  disabled={isRunning}
+                >
+                  <SelectTrigger id={`kdf-${tokenId}`} className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="PBKDF2-SHA256">PBKDF2-SHA256</SelectItem>
+                    <SelectItem value="SCRYPT">scrypt</SelectItem>
+                    <SelectItem value="ARGON2ID">Argon2id</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+
+          <ol className="space-y-2">
+            {ROTATION_STEPS.map(step => (
+              <li key={step.id} className="flex items-center gap-2 text-sm">
+                {stepIcon(stepStatus[step.id])}
+                <span>{step.label}</span>
+              </li>
+            ))}
+          </ol>
+
+          {displayError && (
+            <p className="text-sm text-red-600">{displayError}</p>
+          )}
+
+          {isComplete ? (
+            <div className="space-y-2">
+              <p className="text-sm text-green-700">Key rotated. The will now points to the re-encrypted version.</p>
+              <p className="text-sm text-muted-foreground">
+                Any recovery kit you made before no longer opens the current will. Generate a new one and destroy the old copies.
+              </p>
+              {rotatedHash && (
+                <Button asChild variant="outline" className="w-full">
+                  <Link href={`/recovery-kit?tokenId=${tokenId}&cid=${rotatedHash}`}>Generate New Recovery Kit</Link>
+                </Button>
+              )}
+            </div>
+          ) : uploadedHash && !isRunning ? (
+            <Button onClick={handleRetry} className="w-full">
+              Retry Update
+            </Button>
+          ) : (
+            <Button onClick={handleRotate} disabled={isRunning} className="w-full">
+              {isRunning ? 'Rotating...' : 'Rotate Key'}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,89 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useAccount, usePublicClient } from 'wagmi'
+import { Badge } from '@/components/ui/badge'
+import { useWillsNFT } from '@/hooks/useContracts'
+import { ContentSignature, type SignatureStatus } from '@/lib/encryption'
+import type { WillContent } from '@/lib/ipfs'
+import { CheckCircle, HelpCircle, Loader2, XCircle } from 'lucide-react'
+
+interface SignatureBadgeProps {
+  tokenId: bigint
+  content: WillContent
+  signature?: `0x${string}`
+}
+
+// Verify a decrypted will's creator signature against the creator recorded on-chain
+export function SignatureBadge({ tokenId, content, signature }: SignatureBadgeProps) {
+  const { address } = useAccount()
+  const { address: contractAddress, abi } = useWillsNFT()
+  const publicClient = usePublicClient()
+  const [status, setStatus] = useState<SignatureStatus | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const verify = async () => {
+      setStatus(null)
+      if (!signature) {
+        setStatus('unsigned')
+        return
+      }
+      if (!publicClient || !contractAddress) return
+
+      try {
+        // getWillData is restricted to the owner, executor and viewers, so call it as the connected account
+        const [, creator] = await publicClient.readContract({
+          address: contractAddress,
+          abi: abi,
+          functionName: 'getWillData',
+          args: [tokenId],
+          account: address
+        }) as readonly [string, string, ...unknown[]]
+
+        const result = await ContentSignature.verify(content, signature, creator)
+        if (!cancelled) setStatus(result)
+      } catch (err) {
+        console.error('Failed to verify will signature:', err)
+        if (!cancelled) setStatus('failed')
+      }
+    }
+
+    verify()
+    return () => {
+      cancelled = true
+    }
+  }, [abi, address, content, contractAddress, publicClient, signature, tokenId])
+
+  switch (status) {
+    case 'verified':
+      return (
+        <Badge className="bg-green-600 hover:bg-green-600">
+          <CheckCircle className="h-3 w-3 mr-1" />
+          Signed by creator
+        </Badge>
+      )
+    case 'failed':
+      return (
+        <Badge variant="destructive">
+          <XCircle className="h-3 w-3 mr-1" />
+          Signature verification failed
+        </Badge>
+      )
+    case 'unsigned':
+      return (
+        <Badge variant="secondary">
+          <HelpCircle className="h-3 w-3 mr-1" />
+          Unsigned
+        </Badge>
+      )
+    default:
+      return (
+        <Badge variant="outline">
+          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          Verifying signature
+        </Badge>
+      )
+  }
+}
@@ -0,0 +1,37 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { formatBytes, type TransferProgress } from '@/lib/storage'
+
+interface TransferStatusProps {
+  label: string
+  progress: TransferProgress | null
+  onCancel: () => void
+}
+
+// Progress of an upload or download, with a button to cancel it
+export function TransferStatus({ label, progress, onCancel }: TransferStatusProps) {
+  const percent = progress?.total ? Math.min(100, (progress.loaded / progress.total) * 100) : 0
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <span className="truncate">{label}</span>
+        <span className="shrink-0 text-muted-foreground">
+          {!progress
+            ? 'Preparing...'
+            : progress.total
+              ? `${formatBytes(progress.loaded)} of ${formatBytes(progress.total)}`
+              : formatBytes(progress.loaded)}
+        </span>
+      </div>
+      <div className="flex items-center gap-2">
+        <Progress value={percent} className="h-2" />
+        <Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  )
+}
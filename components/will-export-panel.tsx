@@ -0,0 +1,61 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { useIPFS } from '@/hooks/useIPFS'
+import type { WillExport } from '@/lib/ipfs'
+import { Loader2, PackageOpen } from 'lucide-react'
+
+interface WillExportPanelProps {
+  tokenId: bigint
+  ipfsHash: string
+  // Needed to find the attachments; without it only the will documents are exported
+  contentKey?: Uint8Array<ArrayBuffer>
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`
+}
+
+// Saves a self-contained copy of a will - every revision and attachment - as a CAR file
+export function WillExportPanel({ tokenId, ipfsHash, contentKey }: WillExportPanelProps) {
+  const { exportWillCar, isRetrieving, error } = useIPFS()
+  const [summary, setSummary] = useState<Omit<WillExport, 'car'> | null>(null)
+
+  const handleExport = async () => {
+    setSummary(await exportWillCar(tokenId, ipfsHash, contentKey))
+  }
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <p className="text-sm">
+        Download an offline copy of this will with its earlier versions and attachments. The copy stays
+        encrypted and can be imported into any IPFS node, so it does not depend on anyone pinning the will.
+      </p>
+      <Button size="sm" variant="outline" onClick={handleExport} disabled={isRetrieving}>
+        {isRetrieving ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <PackageOpen className="h-4 w-4 mr-2" />
+        )}
+        Export CAR File
+      </Button>
+
+      {summary && (
+        <p className="text-sm text-muted-foreground">
+          Exported {plural(summary.revisions, 'revision')} and {plural(summary.attachments, 'attachment')}.
+          Root CID: <span className="font-mono text-xs break-all">{summary.root}</span>
+        </p>
+      )}
+      {summary && summary.lockedRevisions > 0 && (
+        <p className="text-sm text-amber-600">
+          {plural(summary.lockedRevisions, 'revision')} could not be decrypted with this will&apos;s key, so
+          any attachments {summary.lockedRevisions === 1 ? 'it has are' : 'they have are'} not included.
+        </p>
+      )}
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  )
+}
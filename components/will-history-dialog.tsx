@@ -0,0 +1,265 @@
+'use client'
+
+import { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { SignatureBadge } from '@/components/signature-badge'
+import { WillValidationAlert } from '@/components/will-validation-alert'
+import { useIPFS } from '@/hooks/useIPFS'
+import type { WillContent, WillRevision } from '@/lib/ipfs'
+import { formatBytes } from '@/lib/storage'
+import { History, Loader2, Lock } from 'lucide-react'
+
+type ComparedField = 'title' | 'content' | 'beneficiaries' | 'executorInstructions' | 'attachments'
+
+const COMPARED_FIELDS: Array<{ key: ComparedField; label: string }> = [
+  { key: 'title', label: 'Title' },
+  { key: 'content', label: 'Will Content' },
+  { key: 'beneficiaries', label: 'Beneficiaries' },
+  { key: 'executorInstructions', label: 'Executor Instructions' },
+  { key: 'attachments', label: 'Attachments' }
+]
+
+// Key rotations re-encrypt attachments under new CIDs, so attachments are compared by file
+function comparable(content: WillContent, key: ComparedField) {
+  if (key !== 'attachments') return content[key]
+  return (content.attachments ?? []).map(({ name, mimeType, size }) => ({ name, mimeType, size }))
+}
+
+interface WillHistoryDialogProps {
+  tokenId: bigint
+  ipfsHash: string
+}
+
+// Earlier versions of a will, found by following each revision's previous link,
+// with any two shown side by side
+export function WillHistoryDialog({ tokenId, ipfsHash }: WillHistoryDialogProps) {
+  const { retrieveWill, getWillHistory, isRetrieving, error: ipfsError, validationError, clearError } = useIPFS()
+  const [password, setPassword] = useState('')
+  const [revisions, setRevisions] = useState<WillRevision[] | null>(null)
+  const [selected, setSelected] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const handleLoad = async () => {
+    clearError()
+    setError(null)
+    setSelected([])
+
+    // Unlocking the latest revision yields the key that opens the rest of the chain
+    const current = await retrieveWill(ipfsHash, password || undefined)
+    if (!current) return
+    if (!current.contentKey) {
+      setError('This will predates version history - rotate its key to start recording revisions')
+      return
+    }
+
+    const history = await getWillHistory(ipfsHash, current.contentKey)
+    if (history) setRevisions(history)
+  }
+
+  // Keep at most two revisions selected, dropping the older selection
+  const toggleSelected = (cid: string) => {
+    setSelected(previous => previous.includes(cid)
+      ? previous.filter(item => item !== cid)
+      : [...previous.slice(-1), cid])
+  }
+
+  // Older revision on the left
+  const compared = (revisions ?? [])
+    .flatMap(revision => selected.includes(revision.cid) && revision.decrypted
+      ? [{ revision, content: revision.decrypted.willContent }]
+      : [])
+    .sort((a, b) => a.revision.revision - b.revision.revision)
+
+  const changedFields = compared.length === 2
+    ? new Set(COMPARED_FIELDS
+      .map(field => field.key)
+      .filter(key => JSON.stringify(comparable(compared[0].content, key)) !==
+        JSON.stringify(comparable(compared[1].content, key))))
+    : new Set<ComparedField>()
+
+  const displayError = error || ipfsError
+
+  return (
+    <Dialog onOpenChange={(open) => !open && setRevisions(null)}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <History className="h-4 w-4 mr-1" />
+          History
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Version History - Will #{tokenId.toString()}</DialogTitle>
+          <DialogDescription>
+            Every update links to the version it replaced. Select two revisions to compare them side by side.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!revisions ? (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor={`history-password-${tokenId}`}>Password</Label>
+              <Input
+                id={`history-password-${tokenId}`}
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Only needed for password-protected wills"
+                className="mt-1"
+              />
+            </div>
+
+            {validationError ? (
+              <WillValidationAlert error={validationError} />
+            ) : displayError && (
+              <p className="text-sm text-red-600">{displayError}</p>
+            )}
+
+            <Button onClick={handleLoad} disabled={isRetrieving} className="w-full">
+              {isRetrieving ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Lock className="h-4 w-4 mr-2" />
+              )}
+              Unlock History
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead />
+                  <TableHead>Revision</TableHead>
+                  <TableHead>Saved</TableHead>
+                  <TableHead>Author</TableHead>
+                  <TableHead>CID</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {revisions.map(revision => (
+                  <TableRow key={revision.cid}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selected.includes(revision.cid)}
+                        onCheckedChange={() => toggleSelected(revision.cid)}
+                        disabled={!revision.decrypted}
+                        aria-label={`Compare revision ${revision.revision}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {revision.revision}
+                      {revision.cid === revisions[0].cid && (
+                        <Badge variant="secondary" className="ml-2">Current</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {revision.decrypted
+                        ? new Date(revision.decrypted.willContent.lastModified).toLocaleString()
+                        : '-'}
+                    </TableCell>
+                    <TableCell>
+                      {revision.decrypted ? (
+                        <SignatureBadge
+                          tokenId={tokenId}
+                          content={revision.decrypted.willContent}
+                          signature={revision.signature}
+                        />
+                      ) : (
+                        <Badge variant="outline">
+                          <Lock className="h-3 w-3 mr-1" />
+                          Locked
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs" title={revision.cid}>
+                      {revision.cid.slice(0, 12)}...{revision.cid.slice(-6)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {validationError ? (
+              <WillValidationAlert error={validationError} />
+            ) : displayError && (
+              <p className="text-sm text-red-600">{displayError}</p>
+            )}
+
+            {compared.length === 2 ? (
+              <div className="grid grid-cols-2 gap-4">
+                {compared.map(({ revision, content }) => (
+                  <RevisionColumn
+                    key={revision.cid}
+                    revision={revision}
+                    content={content}
+                    changedFields={changedFields}
+                  />
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center">
+                Select two revisions to compare them.
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface RevisionColumnProps {
+  revision: WillRevision
+  content: WillContent
+  changedFields: Set<ComparedField>
+}
+
+// One side of the comparison; fields that differ from the other side are highlighted
+function RevisionColumn({ revision, content, changedFields }: RevisionColumnProps) {
+  const fieldClass = (key: ComparedField) =>
+    changedFields.has(key) ? 'rounded-md bg-amber-50 dark:bg-amber-950 p-2' : 'p-2'
+
+  return (
+    <div className="space-y-3 min-w-0">
+      <div>
+        <h3 className="font-semibold">Revision {revision.revision}</h3>
+        <p className="text-xs text-muted-foreground">{new Date(content.lastModified).toLocaleString()}</p>
+      </div>
+
+      {COMPARED_FIELDS.map(field => (
+        <div key={field.key} className={fieldClass(field.key)}>
+          <Label className="text-sm font-medium">{field.label}</Label>
+          {field.key === 'beneficiaries' ? (
+            <ul className="mt-1 space-y-1 text-sm">
+              {content.beneficiaries.map((beneficiary, index) => (
+                <li key={index}>
+                  {beneficiary.name} - {beneficiary.allocation} {beneficiary.assetType}
+                  <span className="block font-mono text-xs text-muted-foreground">{beneficiary.address}</span>
+                </li>
+              ))}
+            </ul>
+          ) : field.key === 'attachments' ? (
+            <ul className="mt-1 space-y-1 text-sm">
+              {(content.attachments ?? []).map(attachment => (
+                <li key={attachment.cid}>
+                  {attachment.name}
+                  <span className="text-muted-foreground"> ({formatBytes(attachment.size)})</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="mt-1 text-sm whitespace-pre-wrap break-words">{content[field.key]}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+'use client'
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import type { WillValidationError } from '@/lib/will-schema'
+import { FileWarning } from 'lucide-react'
+
+interface WillValidationAlertProps {
+  error: WillValidationError
+}
+
+// Explains why a will could not be read when its document or decrypted content is malformed
+export function WillValidationAlert({ error }: WillValidationAlertProps) {
+  return (
+    <Alert className="border-red-200 bg-red-50">
+      <FileWarning className="h-4 w-4 text-red-600" />
+      <AlertTitle className="text-red-800">
+        {error.target === 'document' ? 'Unrecognized will format' : 'Invalid will content'}
+      </AlertTitle>
+      <AlertDescription className="text-red-800 space-y-2">
+        <p>
+          {error.target === 'document'
+            ? 'The stored will does not match any known WillsDAO format. It may have been saved by a newer version of the app, or altered.'
+            : 'The will was decrypted, but its contents are not a valid will. Your password or key was correct.'}
+          {error.version && ` Format version: ${error.version}.`}
+        </p>
+        <ul className="list-disc pl-5 font-mono text-xs">
+          {error.issues.map((issue, index) => (
+            <li key={index}>{issue}</li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -1,26 +1,133 @@
-import { useState, useCallback } from 'react'
-import { useAccount, useSignMessage } from 'wagmi'
+import { useState, useCallback, useEffect, useRef } from 'react'
+import { useAccount, useChainId, useSignTypedData } from 'wagmi'
 import { 
   ipfsService, 
   encryptAndStoreWill, 
-  retrieveAndDecryptWill,
   storeFileToIPFS,
   retrieveFileFromIPFS,
-  type WillContent 
+  storeEncryptedFileToIPFS,
+  retrieveEncryptedFileFromIPFS,
+  type PreviousRevision,
+  type WillAttachment,
+  type WillContent,
+  type WillExport,
+  type WillImport,
+  type WillMetadata,
+  type WillRevision
 } from '@/lib/ipfs'
-import { WalletEncryption, EncryptionService } from '@/lib/encryption'
+import {
+  WalletEncryption,
+  EncryptionService,
+  RecipientEncryption,
+  PasskeyEncryption,
+  RecoveryKit,
+  PasswordValidator,
+  ContentSignature,
+  type EncryptionEnvelope,
+  type EncryptionMethod,
+  type EncryptionProvider,
+  type KeyRegistration,
+  type KeyWrap,
+  type PasswordKdf,
+  type PasswordValidation,
+  type RecoveryKitData,
+  type WalletKeyBinding,
+  type WillEnvelope
+} from '@/lib/encryption'
+import { fetchKeyRegistration, publishKeyRegistration } from '@/lib/key-registry'
+import { saveStreamToFile } from '@/lib/download'
+import { CAR_MIME_TYPE, type TransferOptions, type TransferProgress } from '@/lib/storage'
+import { PinningServiceClient, loadPinningConfig } from '@/lib/pinning'
+import { InvalidCIDError, normalizeCid, parseCid } from '@/lib/cid'
+import { WillValidationError } from '@/lib/will-schema'
+import { useWillsNFT } from '@/hooks/useContracts'
+
+interface StoreWillOptions {
+  method: EncryptionMethod
+  password?: string
+  // Password KDF; defaults to DEFAULT_PASSWORD_KDF
+  kdf?: PasswordKdf
+  // Executor and viewer addresses to wrap the content key for
+  recipients?: string[]
+  // Keep the title, creator and timestamps inside the ciphertext (default true)
+  privateMetadata?: boolean
+  // The version this one replaces, linked as the previous revision
+  previous?: PreviousRevision
+  // Key the attachments were encrypted under; a new key is generated when omitted
+  contentKey?: Uint8Array<ArrayBuffer>
+}
+
+export interface RetrievedWill {
+  willContent: WillContent
+  metadata: WillMetadata
+  // Creator's EIP-712 signature over willContent, if the envelope carries one
+  signature?: `0x${string}`
+  // Whether the metadata is only readable after decryption
+  privateMetadata: boolean
+  // Local node, Kubo node or gateway the will document was served by
+  source: string
+  revision: number
+  // Unwrapped content key; wills from before content keys have none
+  contentKey?: Uint8Array<ArrayBuffer>
+}
+
+// Error text for a failed transfer; one the user cancelled is not reported as a failure
+function transferError(err: unknown, { signal }: TransferOptions, fallback: string): string {
+  if (signal?.aborted) return 'Cancelled'
+  return err instanceof Error ? err.message : fallback
+}
+
+// Why a CID is malformed, or null when it parses
+function cidError(ipfsHash: string): string | null {
+  try {
+    parseCid(ipfsHash)
+    return null
+  } catch (err) {
+    return err instanceof InvalidCIDError ? err.message : 'Invalid IPFS hash format'
+  }
+}
 
 interface UseIPFSReturn {
   // States
   isStoring: boolean
   isRetrieving: boolean
   error: string | null
+  // Set alongside `error` when a will document or its decrypted content is malformed
+  validationError: WillValidationError | null
+  // Bytes moved by the upload or download in progress
+  progress: TransferProgress | null
   
   // Functions
-  storeWill: (willContent: WillContent, password?: string) => Promise<string | null>
-  retrieveWill: (ipfsHash: string, password?: string) => Promise<{ willContent: WillContent; metadata: any } | null>
+  storeWill: (willContent: WillContent, options: StoreWillOptions) => Promise<string | null>
+  retrieveWill: (
+    ipfsHash: string,
+    password?: string,
+    recoveryPhrase?: string
+  ) => Promise<RetrievedWill | null>
+  createRecoveryKit: (tokenId: bigint, ipfsHash: string, password?: string) => Promise<RecoveryKitData | null>
   storeFile: (file: File) => Promise<string | null>
   retrieveFile: (ipfsHash: string) => Promise<Uint8Array | null>
+  storeEncryptedFile: (file: Blob, contentKey: Uint8Array<ArrayBuffer>) => Promise<string | null>
+  storeAttachment: (file: File, contentKey: Uint8Array<ArrayBuffer>) => Promise<WillAttachment | null>
+  downloadAttachment: (attachment: WillAttachment, contentKey: Uint8Array<ArrayBuffer>) => Promise<boolean>
+  downloadEncryptedFile: (
+    ipfsHash: string,
+    contentKey: Uint8Array<ArrayBuffer>,
+    fileName: string,
+    mimeType?: string
+  ) => Promise<boolean>
+  getWillHistory: (ipfsHash: string, contentKey: Uint8Array<ArrayBuffer>) => Promise<WillRevision[] | null>
+  exportWillCar: (
+    tokenId: bigint,
+    ipfsHash: string,
+    contentKey?: Uint8Array<ArrayBuffer>
+  ) => Promise<Omit<WillExport, 'car'> | null>
+  importWillCar: (file: File) => Promise<WillImport | null>
+  getWillRecipients: (ipfsHash: string, contentKey?: Uint8Array<ArrayBuffer>) => Promise<string[] | null>
+  needsKdfUpgrade: (ipfsHash: string) => Promise<boolean>
+  upgradeWillKdf: (ipfsHash: string, password: string, kdf: PasswordKdf) => Promise<string | null>
+  // Abort the upload or download in progress; it fails with the error 'Cancelled'
+  cancel: () => void
   clearError: () => void
 }
 
@@ -28,17 +135,67 @@ export function useIPFS(): UseIPFSReturn {
   const [isStoring, setIsStoring] = useState(false)
   const [isRetrieving, setIsRetrieving] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [validationError, setValidationError] = useState<WillValidationError | null>(null)
+  const [progress, setProgress] = useState<TransferProgress | null>(null)
+  const transfer = useRef<AbortController | null>(null)
   
-  const { address } = useAccount()
-  const { signMessageAsync } = useSignMessage()
+  const { address, connector } = useAccount()
+  const chainId = useChainId()
+  const { address: contractAddress } = useWillsNFT()
+  const { signTypedDataAsync } = useSignTypedData()
 
   const clearError = useCallback(() => {
     setError(null)
+    setValidationError(null)
   }, [])
 
+  // Options for a new cancellable transfer that reports into `progress`
+  const startTransfer = useCallback((): TransferOptions => {
+    const controller = new AbortController()
+    transfer.current = controller
+    setProgress(null)
+    return { signal: controller.signal, onProgress: setProgress }
+  }, [])
+
+  const cancel = useCallback(() => {
+    transfer.current?.abort()
+  }, [])
+
+  // Sign the will's key derivation request and derive the key material
+  const deriveWalletKey = useCallback(async (binding: WalletKeyBinding): Promise<string> => {
+    const signature = await signTypedDataAsync(
+      WalletEncryption.createKeyDerivationTypedData(binding)
+    )
+    return WalletEncryption.deriveKeyFromSignature(signature)
+  }, [signTypedDataAsync])
+
+  // Sign the recipient key derivation request and derive the connected account's key pair
+  const deriveRecipientKey = useCallback(async (account: `0x${string}`) => {
+    const signature = await signTypedDataAsync(
+      RecipientEncryption.createKeyDerivationTypedData(account)
+    )
+    return RecipientEncryption.deriveKeyPair(signature)
+  }, [signTypedDataAsync])
+
+  // The connected wallet's provider, for eth_getEncryptionPublicKey / eth_decrypt
+  const getEncryptionProvider = useCallback(async (): Promise<EncryptionProvider> => {
+    if (!connector) {
+      throw new Error('Wallet not connected')
+    }
+    return await connector.getProvider() as EncryptionProvider
+  }, [connector])
+
   const storeWill = useCallback(async (
     willContent: WillContent, 
-    password?: string
+    {
+      method,
+      password,
+      kdf,
+      recipients = [],
+      privateMetadata = true,
+      previous,
+      contentKey = EncryptionService.generateContentKey()
+    }: StoreWillOptions
   ): Promise<string | null> => {
     if (!address) {
       setError('Wallet not connected')
@@ -47,160 +204,706 @@ export function useIPFS(): UseIPFSReturn {
 
     setIsStoring(true)
     setError(null)
+    const transferOptions = startTransfer()
 
     try {
-      let encryptionKey = password
+      // Every recipient needs a registered encryption key to receive a copy of the content key
+      const registrations: KeyRegistration[] = []
+      const unregistered: string[] = []
 
-      // If no password provided, derive one from wallet signature
-      if (!encryptionKey) {
-        const message = WalletEncryption.createSigningMessage(
-          willContent.title, 
-          willContent.createdAt
+      for (const recipient of recipients) {
+        const registration = await fetchKeyRegistration(recipient)
+        if (registration) {
+          registrations.push(registration)
+        } else {
+          unregistered.push(recipient)
+        }
+      }
+
+      if (unregistered.length > 0) {
+        setError(`No encryption key registered for: ${unregistered.join(', ')}. ` +
+          'Ask them to register their key on the Execute page first.')
+        return null
+      }
+
+      // The creator's own registration is optional but lets them open the will like any recipient
+      const creatorRegistration = await fetchKeyRegistration(address)
+      if (creatorRegistration) {
+        registrations.push(creatorRegistration)
+      }
+
+      // Attachments of the replaced version are encrypted under its key, so they move to the new one
+      let content = willContent
+      if (previous?.contentKey && willContent.attachments?.length) {
+        const attachments: WillAttachment[] = []
+        for (const attachment of willContent.attachments) {
+          const reencrypted = await ipfsService.reencryptAttachment(
+            attachment,
+            previous.contentKey,
+            contentKey,
+            transferOptions
+          )
+          await ipfsService.pinContent(reencrypted.cid)
+          attachments.push(reencrypted)
+        }
+        content = { ...willContent, attachments }
+      }
+
+      // The creator signs the plaintext so readers can tell it was not altered after creation
+      let signature: `0x${string}`
+      try {
+        signature = await signTypedDataAsync(ContentSignature.createTypedData(address, content))
+      } catch {
+        setError('Failed to sign will content')
+        return null
+      }
+
+      let creatorWrap: KeyWrap
+
+      if (method === 'password') {
+        if (!password) {
+          setError('Password is required for encryption')
+          return null
+        }
+        creatorWrap = await EncryptionService.wrapContentKey(contentKey, password, 'password', { kdf })
+      } else if (method === 'metamask') {
+        // Encrypt to the wallet's own encryption key; only the wallet can decrypt it
+        let publicKey: string
+        try {
+          publicKey = await WalletEncryption.getEncryptionPublicKey(await getEncryptionProvider(), address)
+        } catch {
+          setError('Wallet did not provide an encryption public key')
+          return null
+        }
+        creatorWrap = WalletEncryption.wrapKeyForWallet(contentKey, publicKey, address, !privateMetadata)
+      } else if (method === 'passkey') {
+        // A new passkey per will; its PRF output over a fresh salt wraps the content key
+        if (!PasskeyEncryption.isSupported()) {
+          setError('Passkeys are not supported in this browser')
+          return null
+        }
+
+        const prfSalt = PasskeyEncryption.generatePrfSalt()
+        let credentialId: string
+        let secret: string
+        try {
+          const credential = await PasskeyEncryption.createCredential(address, prfSalt)
+          credentialId = credential.credentialId
+          // Some authenticators only return PRF results on assertion
+          secret = credential.secret ?? await PasskeyEncryption.evaluatePrf(credentialId, prfSalt)
+        } catch (err) {
+          setError(err instanceof Error ? err.message : 'Failed to create passkey')
+          return null
+        }
+
+        creatorWrap = await EncryptionService.wrapContentKey(
+          contentKey,
+          secret,
+          'passkey',
+          PasskeyEncryption.envelopeOptions(credentialId, prfSalt)
         )
-        
+      } else {
+        // Derive the key from a signature bound to this chain, contract and a fresh salt
+        if (!contractAddress) {
+          setError('Contract address not available')
+          return null
+        }
+
+        const binding: WalletKeyBinding = {
+          chainId,
+          verifyingContract: contractAddress,
+          creator: address,
+          salt: WalletEncryption.generateWillSalt()
+        }
+
+        let encryptionKey: string
         try {
-          const signature = await signMessageAsync({ message })
-          encryptionKey = await WalletEncryption.deriveKeyFromSignature(message, signature)
-        } catch (signError) {
+          encryptionKey = await deriveWalletKey(binding)
+        } catch {
           setError('Failed to sign message for encryption')
           return null
         }
+
+        creatorWrap = await EncryptionService.wrapContentKey(
+          contentKey,
+          encryptionKey,
+          'wallet',
+          WalletEncryption.envelopeOptions(binding, !privateMetadata)
+        )
       }
 
-      const ipfsHash = await encryptAndStoreWill(
-        willContent,
-        encryptionKey,
-        address
+      // Private wills do not name the recipients in their wraps, only in the sealed payload
+      const recipientWraps = await Promise.all(
+        registrations.map(registration => RecipientEncryption.wrapKey(contentKey, registration, !privateMetadata))
       )
+      const wrappedTo = registrations.map(registration => registration.address.toLowerCase())
+      if (method === 'metamask') wrappedTo.push(address.toLowerCase())
 
-      // Pin the content for persistence
-      await ipfsService.pinContent(ipfsHash)
+      const ipfsHash = await encryptAndStoreWill(content, contentKey, [creatorWrap, ...recipientWraps], address, {
+        method,
+        signature,
+        privateMetadata,
+        recipients: wrappedTo,
+        previous,
+        ...transferOptions
+      })
+
+      // Pin the content, and the revisions it links to, for persistence
+      const revisions = await ipfsService.pinWillHistory(ipfsHash)
+
+      // The browser node's pins go away with the tab, so also ask the remote pinning service
+      const pinningConfig = loadPinningConfig(address)
+      if (pinningConfig) {
+        try {
+          const client = new PinningServiceClient(pinningConfig)
+          await client.addPin({ cid: ipfsHash, name: 'willsdao-will' })
+          for (const revision of revisions.slice(1)) {
+            await client.ensurePinned({ cid: revision, name: 'willsdao-will' })
+          }
+          for (const attachment of content.attachments ?? []) {
+            await client.addPin({ cid: attachment.cid, name: 'willsdao-attachment' })
+          }
+        } catch (err) {
+          // The will is stored; it can be pinned again from My Wills
+          console.error('Failed to request remote pin:', err)
+        }
+      }
 
       return ipfsHash
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to store will'
-      setError(errorMessage)
+      setError(transferError(err, transferOptions, 'Failed to store will'))
       return null
     } finally {
       setIsStoring(false)
+      setProgress(null)
     }
-  }, [address, signMessageAsync])
+  }, [address, chainId, contractAddress, deriveWalletKey, getEncryptionProvider, signTypedDataAsync, startTransfer])
 
-  const retrieveWill = useCallback(async (
-    ipfsHash: string, 
+  // Re-derive the creator's secret for a wallet or passkey wrap
+  const deriveCreatorSecret = useCallback(async (wrap: EncryptionEnvelope): Promise<string> => {
+    if (wrap.method === 'passkey') {
+      // Passkey copies are opened by re-evaluating the PRF
+      const { credentialId, prfSalt } = PasskeyEncryption.bindingFromEnvelope(wrap)
+      try {
+        return await PasskeyEncryption.evaluatePrf(credentialId, prfSalt)
+      } catch (err) {
+        throw new Error(err instanceof Error ? err.message : 'Passkey authentication failed')
+      }
+    }
+
+    // The creator re-derives their wallet key from the binding stored in the envelope
+    try {
+      return await deriveWalletKey(WalletEncryption.bindingFromEnvelope(wrap, address))
+    } catch {
+      throw new Error('Failed to sign message for decryption')
+    }
+  }, [address, deriveWalletKey])
+
+  // Unwrap a content-key will's key for the connected account
+  const unlockContentKey = useCallback(async (
+    envelope: WillEnvelope,
+    creator: string | undefined,
     password?: string
-  ): Promise<{ willContent: WillContent; metadata: any } | null> => {
+  ): Promise<Uint8Array<ArrayBuffer>> => {
     if (!address) {
+      throw new Error('Wallet not connected')
+    }
+
+    if (password) {
+      try {
+        return await ipfsService.unwrapContentKey(envelope, password)
+      } catch {
+        throw new Error('Failed to decrypt will content - check your password')
+      }
+    }
+
+    const account = address.toLowerCase()
+    const creatorWrap = envelope.keys.find((wrap): wrap is EncryptionEnvelope =>
+      (wrap.method === 'wallet' && wrap.kdfParams.creator?.toLowerCase() === account) ||
+      (wrap.method === 'passkey' && creator?.toLowerCase() === account)
+    )
+
+    if (creatorWrap) {
+      return EncryptionService.unwrapContentKey(creatorWrap, await deriveCreatorSecret(creatorWrap))
+    }
+
+    // Wallet-encrypted copies are decrypted by the wallet itself via eth_decrypt
+    for (const metaMaskWrap of WalletEncryption.findKeyWraps(envelope.keys, address)) {
+      try {
+        return await WalletEncryption.unwrapKeyWithWallet(await getEncryptionProvider(), metaMaskWrap, address)
+      } catch {
+        // An unaddressed wrap may belong to another wallet, so the other wraps are still tried
+        if (metaMaskWrap.recipient) throw new Error('Wallet declined to decrypt the will key')
+      }
+    }
+
+    // Private wills do not say who the creator is, so their wallet or passkey wrap is tried last
+    const anonymousWrap = envelope.keys.find((wrap): wrap is EncryptionEnvelope =>
+      (wrap.method === 'wallet' && !wrap.kdfParams.creator) ||
+      (wrap.method === 'passkey' && !creator)
+    )
+
+    // Executors and viewers open the copy of the content key wrapped to their address,
+    // or in a private will whichever unaddressed copy their key opens
+    const recipientWraps = RecipientEncryption.findKeyWraps(envelope.keys, address)
+    if (recipientWraps.length > 0) {
+      let privateKey: Uint8Array
+      try {
+        privateKey = (await deriveRecipientKey(address)).privateKey
+      } catch {
+        throw new Error('Failed to sign message for decryption')
+      }
+
+      try {
+        return await RecipientEncryption.unwrapAnyKey(recipientWraps, privateKey)
+      } catch (err) {
+        if (!anonymousWrap) throw err
+      }
+    }
+
+    if (anonymousWrap) {
+      const secret = await deriveCreatorSecret(anonymousWrap)
+      try {
+        return await EncryptionService.unwrapContentKey(anonymousWrap, secret)
+      } catch {
+        throw new Error('No decryption key for this will is available to your address')
+      }
+    }
+
+    throw new Error(envelope.method === 'password'
+      ? 'This will is password-protected - a password is required'
+      : 'No decryption key for this will is available to your address')
+  }, [address, deriveCreatorSecret, deriveRecipientKey, getEncryptionProvider])
+
+  const retrieveWill = useCallback(async (
+    ipfsHash: string, 
+    password?: string,
+    recoveryPhrase?: string
+  ): Promise<RetrievedWill | null> => {
+    // Restoring from a recovery kit does not need a wallet
+    if (!address && !recoveryPhrase) {
       setError('Wallet not connected')
       return null
     }
 
-    if (!ipfsService.isValidIPFSHash(ipfsHash)) {
-      setError('Invalid IPFS hash format')
+    const invalidCid = cidError(ipfsHash)
+    if (invalidCid) {
+      setError(invalidCid)
       return null
     }
 
     setIsRetrieving(true)
     setError(null)
+    setValidationError(null)
+    const transferOptions = startTransfer()
 
     try {
-      let decryptionKey = password
+      const { value: encryptedWillData, source } = await ipfsService.retrieveWillDataWithSource(
+        ipfsHash,
+        transferOptions
+      )
+      const signature = ipfsService.contentSignature(encryptedWillData)
+      const privateMetadata = ipfsService.hasPrivateMetadata(encryptedWillData)
+      const revision = ipfsService.revisionNumber(encryptedWillData)
 
-      // If no password provided, try to derive from wallet signature
-      if (!decryptionKey) {
-        try {
-          // First try to get metadata to determine creation details
-          const tempResult = await retrieveAndDecryptWill(ipfsHash, 'temp')
-          // This will fail but we can catch it and prompt for signature
-        } catch {
-          // Prompt for signature to derive key
-          const message = WalletEncryption.createSigningMessage(
-            'Unknown Will', // We don't know the title yet
-            new Date().toISOString()
-          )
-          
-          try {
-            const signature = await signMessageAsync({ message })
-            decryptionKey = await WalletEncryption.deriveKeyFromSignature(message, signature)
-          } catch (signError) {
-            setError('Failed to sign message for decryption')
-            return null
-          }
+      // The recovery phrase decodes directly to the content key
+      if (recoveryPhrase) {
+        if (!('envelope' in encryptedWillData) || encryptedWillData.envelope.version !== 3) {
+          setError('This will predates recovery kits and cannot be restored from one')
+          return null
+        }
+
+        const contentKey = RecoveryKit.decodeContentKey(recoveryPhrase)
+        const decrypted = await ipfsService.decryptWillContentWithKey(encryptedWillData, contentKey)
+        return { ...decrypted, signature, privateMetadata, source, revision, contentKey }
+      }
+
+      if (!('envelope' in encryptedWillData)) {
+        if (!password) {
+          setError('This will is password-protected - a password is required')
+          return null
         }
+        const decrypted = await ipfsService.decryptWillContent(encryptedWillData, password)
+        return { ...decrypted, signature, privateMetadata, source, revision }
       }
 
-      if (!decryptionKey) {
-        setError('Decryption key required')
+      // Content-key wills are opened through their key, which is handed back for history and attachments
+      const { envelope } = encryptedWillData
+      if (envelope.version === 3) {
+        const contentKey = await unlockContentKey(envelope, ipfsService.publicCreator(encryptedWillData), password)
+        const decrypted = await ipfsService.decryptWillContentWithKey(encryptedWillData, contentKey)
+        return { ...decrypted, signature, privateMetadata, source, revision, contentKey }
+      }
+
+      if (password) {
+        const decrypted = await ipfsService.decryptWillContent(encryptedWillData, password)
+        return { ...decrypted, signature, privateMetadata, source, revision }
+      }
+
+      // Single-key envelopes can only be opened by their creator
+      const creator = envelope.method === 'wallet'
+        ? envelope.kdfParams.creator
+        : ipfsService.publicCreator(encryptedWillData)
+      if (envelope.method === 'password' || creator?.toLowerCase() !== address?.toLowerCase()) {
+        setError(envelope.method === 'password'
+          ? 'This will is password-protected - a password is required'
+          : 'No decryption key for this will is available to your address')
         return null
       }
 
-      const result = await retrieveAndDecryptWill(ipfsHash, decryptionKey)
-      return result
+      const decryptionKey = await deriveCreatorSecret(envelope)
+      const decrypted = await ipfsService.decryptWillContent(encryptedWillData, decryptionKey)
+      return { ...decrypted, signature, privateMetadata, source, revision }
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to retrieve will'
+      setError(transferError(err, transferOptions, 'Failed to retrieve will'))
+      if (err instanceof WillValidationError) setValidationError(err)
+      return null
+    } finally {
+      setIsRetrieving(false)
+    }
+  }, [address, deriveCreatorSecret, startTransfer, unlockContentKey])
+
+  // Unlock a will's content key and encode it as a printable recovery kit
+  const createRecoveryKit = useCallback(async (
+    tokenId: bigint,
+    ipfsHash: string,
+    password?: string
+  ): Promise<RecoveryKitData | null> => {
+    if (!contractAddress) {
+      setError('Contract address not available')
+      return null
+    }
+
+    setIsRetrieving(true)
+    setError(null)
+
+    try {
+      const encryptedWillData = await ipfsService.retrieveWillData(ipfsHash)
+      if (!('envelope' in encryptedWillData) || encryptedWillData.envelope.version !== 3) {
+        setError('Recovery kits need a will with a content key - rotate the will\'s key first')
+        return null
+      }
+
+      const contentKey = await unlockContentKey(
+        encryptedWillData.envelope,
+        ipfsService.publicCreator(encryptedWillData),
+        password
+      )
+
+      return RecoveryKit.createKit(contentKey, {
+        tokenId,
+        cid: normalizeCid(ipfsHash),
+        chainId,
+        contract: contractAddress
+      })
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create recovery kit'
       setError(errorMessage)
       return null
     } finally {
       setIsRetrieving(false)
     }
-  }, [address, signMessageAsync])
+  }, [chainId, contractAddress, unlockContentKey])
 
   const storeFile = useCallback(async (file: File): Promise<string | null> => {
     setIsStoring(true)
     setError(null)
+    const transferOptions = startTransfer()
 
     try {
-      const ipfsHash = await storeFileToIPFS(file)
+      const ipfsHash = await storeFileToIPFS(file, transferOptions)
       await ipfsService.pinContent(ipfsHash)
       return ipfsHash
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to store file'
-      setError(errorMessage)
+      setError(transferError(err, transferOptions, 'Failed to store file'))
       return null
     } finally {
       setIsStoring(false)
+      setProgress(null)
     }
-  }, [])
+  }, [startTransfer])
 
   const retrieveFile = useCallback(async (ipfsHash: string): Promise<Uint8Array | null> => {
-    if (!ipfsService.isValidIPFSHash(ipfsHash)) {
-      setError('Invalid IPFS hash format')
+    const invalidCid = cidError(ipfsHash)
+    if (invalidCid) {
+      setError(invalidCid)
       return null
     }
 
     setIsRetrieving(true)
     setError(null)
+    const transferOptions = startTransfer()
 
     try {
-      const fileContent = await retrieveFileFromIPFS(ipfsHash)
+      const fileContent = await retrieveFileFromIPFS(ipfsHash, transferOptions)
       return fileContent
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to retrieve file'
+      setError(transferError(err, transferOptions, 'Failed to retrieve file'))
+      return null
+    } finally {
+      setIsRetrieving(false)
+      setProgress(null)
+    }
+  }, [startTransfer])
+
+  // Encrypt and upload an attachment as a chunked stream
+  const storeEncryptedFile = useCallback(async (
+    file: Blob,
+    contentKey: Uint8Array<ArrayBuffer>
+  ): Promise<string | null> => {
+    setIsStoring(true)
+    setError(null)
+    const transferOptions = startTransfer()
+
+    try {
+      const ipfsHash = await storeEncryptedFileToIPFS(file, contentKey, transferOptions)
+      await ipfsService.pinContent(ipfsHash)
+      return ipfsHash
+    } catch (err) {
+      setError(transferError(err, transferOptions, 'Failed to store file'))
+      return null
+    } finally {
+      setIsStoring(false)
+      setProgress(null)
+    }
+  }, [startTransfer])
+
+  // Encrypt and upload a will attachment under the will's content key
+  const storeAttachment = useCallback(async (
+    file: File,
+    contentKey: Uint8Array<ArrayBuffer>
+  ): Promise<WillAttachment | null> => {
+    setIsStoring(true)
+    setError(null)
+    const transferOptions = startTransfer()
+
+    try {
+      const attachment = await ipfsService.storeAttachment(file, contentKey, transferOptions)
+      await ipfsService.pinContent(attachment.cid)
+      return attachment
+    } catch (err) {
+      setError(transferError(err, transferOptions, 'Failed to store attachment'))
+      return null
+    } finally {
+      setIsStoring(false)
+      setProgress(null)
+    }
+  }, [startTransfer])
+
+  // Decrypt a will attachment to disk under its original name
+  const downloadAttachment = useCallback(async (
+    attachment: WillAttachment,
+    contentKey: Uint8Array<ArrayBuffer>
+  ): Promise<boolean> => {
+    setIsRetrieving(true)
+    setError(null)
+    const transferOptions = startTransfer()
+
+    try {
+      const stream = await ipfsService.retrieveAttachment(attachment, contentKey, transferOptions)
+      await saveStreamToFile(stream, attachment.name, attachment.mimeType)
+      return true
+    } catch (err) {
+      setError(transferError(err, transferOptions, 'Failed to download attachment'))
+      return false
+    } finally {
+      setIsRetrieving(false)
+      setProgress(null)
+    }
+  }, [startTransfer])
+
+  // Decrypt an attachment straight to disk. A file that fails authentication
+  // part-way is reported as an error; the partial download must be discarded.
+  const downloadEncryptedFile = useCallback(async (
+    ipfsHash: string,
+    contentKey: Uint8Array<ArrayBuffer>,
+    fileName: string,
+    mimeType?: string
+  ): Promise<boolean> => {
+    const invalidCid = cidError(ipfsHash)
+    if (invalidCid) {
+      setError(invalidCid)
+      return false
+    }
+
+    setIsRetrieving(true)
+    setError(null)
+    const transferOptions = startTransfer()
+
+    try {
+      const stream = await retrieveEncryptedFileFromIPFS(ipfsHash, contentKey, transferOptions)
+      await saveStreamToFile(stream, fileName, mimeType)
+      return true
+    } catch (err) {
+      setError(transferError(err, transferOptions, 'Failed to retrieve file'))
+      return false
+    } finally {
+      setIsRetrieving(false)
+      setProgress(null)
+    }
+  }, [startTransfer])
+
+  // A will's revisions, newest first, opened with the latest revision's content key
+  const getWillHistory = useCallback(async (
+    ipfsHash: string,
+    contentKey: Uint8Array<ArrayBuffer>
+  ): Promise<WillRevision[] | null> => {
+    const invalidCid = cidError(ipfsHash)
+    if (invalidCid) {
+      setError(invalidCid)
+      return null
+    }
+
+    setIsRetrieving(true)
+    setError(null)
+    setValidationError(null)
+
+    try {
+      return await ipfsService.willHistory(ipfsHash, contentKey)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to retrieve will history'
       setError(errorMessage)
+      if (err instanceof WillValidationError) setValidationError(err)
       return null
     } finally {
       setIsRetrieving(false)
     }
   }, [])
 
+  // Save a will, its earlier revisions and attachments as a CAR file. Without
+  // the content key only the will documents are included.
+  const exportWillCar = useCallback(async (
+    tokenId: bigint,
+    ipfsHash: string,
+    contentKey?: Uint8Array<ArrayBuffer>
+  ): Promise<Omit<WillExport, 'car'> | null> => {
+    const invalidCid = cidError(ipfsHash)
+    if (invalidCid) {
+      setError(invalidCid)
+      return null
+    }
+
+    setIsRetrieving(true)
+    setError(null)
+
+    try {
+      const { car, ...summary } = await ipfsService.exportWillCar(ipfsHash, contentKey ?? null)
+      await saveStreamToFile(car, `will-${tokenId.toString()}.car`, CAR_MIME_TYPE)
+      return summary
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to export will'
+      setError(errorMessage)
+      return null
+    } finally {
+      setIsRetrieving(false)
+    }
+  }, [])
+
+  // Load an exported CAR file into the local node
+  const importWillCar = useCallback(async (file: File): Promise<WillImport | null> => {
+    setIsStoring(true)
+    setError(null)
+    setValidationError(null)
+
+    try {
+      return await ipfsService.importWillCar(file)
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to import CAR file'
+      setError(errorMessage)
+      if (err instanceof WillValidationError) setValidationError(err)
+      return null
+    } finally {
+      setIsStoring(false)
+    }
+  }, [])
+
+  // Executor and viewer addresses the will's content key is currently wrapped to.
+  // Private wills only list them inside the ciphertext, so they need the content key.
+  const getWillRecipients = useCallback(async (
+    ipfsHash: string,
+    contentKey?: Uint8Array<ArrayBuffer>
+  ): Promise<string[] | null> => {
+    try {
+      const recipients = await ipfsService.keyRecipients(await ipfsService.retrieveWillData(ipfsHash), contentKey)
+      return recipients.filter(recipient => recipient !== address?.toLowerCase())
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to retrieve will'
+      setError(errorMessage)
+      return null
+    }
+  }, [address])
+
+  const needsKdfUpgrade = useCallback(async (ipfsHash: string): Promise<boolean> => {
+    try {
+      return ipfsService.needsKdfUpgrade(await ipfsService.retrieveWillData(ipfsHash))
+    } catch {
+      return false
+    }
+  }, [])
+
+  // Re-protect a password will with a stronger KDF and store it under a new CID.
+  // The caller points the token at the returned hash with updateWill.
+  const upgradeWillKdf = useCallback(async (
+    ipfsHash: string,
+    password: string,
+    kdf: PasswordKdf
+  ): Promise<string | null> => {
+    setIsStoring(true)
+    setError(null)
+
+    try {
+      const encryptedWillData = await ipfsService.retrieveWillData(ipfsHash)
+      const upgraded = await ipfsService.upgradePasswordKdf(ipfsHash, encryptedWillData, password, kdf)
+      const newHash = await ipfsService.storeWillData(upgraded)
+      await ipfsService.pinWillHistory(newHash)
+      return newHash
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to upgrade will encryption'
+      setError(errorMessage)
+      return null
+    } finally {
+      setIsStoring(false)
+    }
+  }, [])
+
   return {
     isStoring,
     isRetrieving,
     error,
+    validationError,
+    progress,
     storeWill,
     retrieveWill,
+    createRecoveryKit,
     storeFile,
     retrieveFile,
+    storeEncryptedFile,
+    downloadEncryptedFile,
+    storeAttachment,
+    downloadAttachment,
+    getWillHistory,
+    exportWillCar,
+    importWillCar,
+    getWillRecipients,
+    needsKdfUpgrade,
+    upgradeWillKdf,
+    cancel,
     clearError
   }
 }
 
 // Hook for password management and encryption utilities
+interface GeneratedSecret {
+  value: string
+  entropyBits: number
+}
+
 interface UseEncryptionReturn {
-  generatePassword: () => string
-  validatePassword: (password: string) => { isValid: boolean; score: number; feedback: string[] }
-  encryptText: (text: string, password: string) => string | null
-  decryptText: (encryptedText: string, password: string) => string | null
+  generatePassword: (length?: number) => GeneratedSecret
+  generatePassphrase: (wordCount?: number, separator?: string) => GeneratedSecret
+  validatePassword: (password: string, userInputs?: string[]) => PasswordValidation
+  encryptText: (text: string, password: string) => Promise<string | null>
+  decryptText: (encryptedText: string, password: string) => Promise<string | null>
   hashPassword: (password: string) => string
   error: string | null
   clearError: () => void
@@ -213,23 +916,28 @@ export function useEncryption(): UseEncryptionReturn {
     setError(null)
   }, [])
 
-  const generatePassword = useCallback(() => {
-    return EncryptionService.generateSecurePassword()
+  const generatePassword = useCallback((length = 20) => {
+    return {
+      value: EncryptionService.generateSecurePassword(length),
+      entropyBits: EncryptionService.passwordEntropyBits(length)
+    }
   }, [])
 
-  const validatePassword = useCallback((password: string) => {
-    const validation = EncryptionService.derivePasswordFromInput(password)
+  const generatePassphrase = useCallback((wordCount = 6, separator = '-') => {
     return {
-      isValid: password.length >= 8,
-      score: Math.min(password.length / 2, 5),
-      feedback: password.length < 8 ? ['Password must be at least 8 characters'] : []
+      value: EncryptionService.generatePassphrase(wordCount, separator),
+      entropyBits: EncryptionService.passphraseEntropyBits(wordCount)
     }
   }, [])
 
-  const encryptText = useCallback((text: string, password: string): string | null => {
+  const validatePassword = useCallback((password: string, userInputs: string[] = []) => {
+    return PasswordValidator.validateStrength(password, userInputs)
+  }, [])
+
+  const encryptText = useCallback(async (text: string, password: string): Promise<string | null> => {
     try {
       setError(null)
-      return EncryptionService.encryptText(text, password)
+      return await EncryptionService.encryptText(text, password)
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Encryption failed'
       setError(errorMessage)
@@ -237,10 +945,10 @@ export function useEncryption(): UseEncryptionReturn {
     }
   }, [])
 
-  const decryptText = useCallback((encryptedText: string, password: string): string | null => {
+  const decryptText = useCallback(async (encryptedText: string, password: string): Promise<string | null> => {
     try {
       setError(null)
-      return EncryptionService.decryptText(encryptedText, password)
+      return await EncryptionService.decryptText(encryptedText, password)
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Decryption failed'
       setError(errorMessage)
@@ -254,6 +962,7 @@ export function useEncryption(): UseEncryptionReturn {
 
   return {
     generatePassword,
+    generatePassphrase,
     validatePassword,
     encryptText,
     decryptText,
@@ -265,7 +974,7 @@ export function useEncryption(): UseEncryptionReturn {
 
 // Hook for wallet-based encryption
 interface UseWalletEncryptionReturn {
-  signForEncryption: (willTitle: string) => Promise<string | null>
+  signForEncryption: (salt: `0x${string}`) => Promise<string | null>
   isLoading: boolean
   error: string | null
   clearError: () => void
@@ -274,24 +983,34 @@ interface UseWalletEncryptionReturn {
 export function useWalletEncryption(): UseWalletEncryptionReturn {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const { signMessageAsync } = useSignMessage()
+  const { address } = useAccount()
+  const chainId = useChainId()
+  const { address: contractAddress } = useWillsNFT()
+  const { signTypedDataAsync } = useSignTypedData()
 
   const clearError = useCallback(() => {
     setError(null)
   }, [])
 
-  const signForEncryption = useCallback(async (willTitle: string): Promise<string | null> => {
+  const signForEncryption = useCallback(async (salt: `0x${string}`): Promise<string | null> => {
+    if (!address || !contractAddress) {
+      setError('Wallet not connected')
+      return null
+    }
+
     setIsLoading(true)
     setError(null)
 
     try {
-      const message = WalletEncryption.createSigningMessage(
-        willTitle, 
-        new Date().toISOString()
+      const signature = await signTypedDataAsync(
+        WalletEncryption.createKeyDerivationTypedData({
+          chainId,
+          verifyingContract: contractAddress,
+          creator: address,
+          salt
+        })
       )
-      
-      const signature = await signMessageAsync({ message })
-      const encryptionKey = await WalletEncryption.deriveKeyFromSignature(message, signature)
+      const encryptionKey = await WalletEncryption.deriveKeyFromSignature(signature)
       
       return encryptionKey
     } catch (err) {
@@ -301,7 +1020,7 @@ export function useWalletEncryption(): UseWalletEncryptionReturn {
     } finally {
       setIsLoading(false)
     }
-  }, [signMessageAsync])
+  }, [address, chainId, contractAddress, signTypedDataAsync])
 
   return {
     signForEncryption,
@@ -309,4 +1028,77 @@ export function useWalletEncryption(): UseWalletEncryptionReturn {
     error,
     clearError
   }
-}
\ No newline at end of file
+}
+
+
+// Hook for registering the connected wallet's recipient encryption key
+interface UseKeyRegistrationReturn {
+  registration: KeyRegistration | null
+  register: () => Promise<KeyRegistration | null>
+  isLoading: boolean
+  error: string | null
+  clearError: () => void
+}
+
+export function useKeyRegistration(): UseKeyRegistrationReturn {
+  const [registration, setRegistration] = useState<KeyRegistration | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { address } = useAccount()
+  const { signTypedDataAsync } = useSignTypedData()
+
+  useEffect(() => {
+    setRegistration(null)
+    if (!address) return
+
+    fetchKeyRegistration(address)
+      .then(setRegistration)
+      .catch(err => console.error('Failed to load key registration:', err))
+  }, [address])
+
+  const clearError = useCallback(() => {
+    setError(null)
+  }, [])
+
+  const register = useCallback(async (): Promise<KeyRegistration | null> => {
+    if (!address) {
+      setError('Wallet not connected')
+      return null
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      // First signature derives the key pair, second one publishes its public key
+      const derivationSignature = await signTypedDataAsync(
+        RecipientEncryption.createKeyDerivationTypedData(address)
+      )
+      const { publicKey } = await RecipientEncryption.deriveKeyPair(derivationSignature)
+
+      const signature = await signTypedDataAsync(
+        RecipientEncryption.createRegistrationTypedData(address, publicKey)
+      )
+
+      const newRegistration: KeyRegistration = { address, publicKey, signature }
+      await publishKeyRegistration(newRegistration)
+      setRegistration(newRegistration)
+
+      return newRegistration
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to register encryption key'
+      setError(errorMessage)
+      return null
+    } finally {
+      setIsLoading(false)
+    }
+  }, [address, signTypedDataAsync])
+
+  return {
+    registration,
+    register,
+    isLoading,
+    error,
+    clearError
+  }
+}
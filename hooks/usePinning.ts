@@ -0,0 +1,70 @@
+import { useState, useCallback, useEffect } from 'react'
+import { useAccount } from 'wagmi'
+import {
+  PinningServiceClient,
+  loadPinningConfig,
+  savePinningConfig,
+  clearPinningConfig,
+  type PinningServiceConfig
+} from '@/lib/pinning'
+
+interface UsePinningReturn {
+  config: PinningServiceConfig | null
+  error: string | null
+
+  saveConfig: (config: PinningServiceConfig) => void
+  clearConfig: () => void
+  testConnection: (config: PinningServiceConfig) => Promise<boolean>
+  clearError: () => void
+}
+
+// The connected wallet's remote pinning service settings
+export function usePinning(): UsePinningReturn {
+  const { address } = useAccount()
+  const [config, setConfig] = useState<PinningServiceConfig | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setConfig(address ? loadPinningConfig(address) : null)
+  }, [address])
+
+  const clearError = useCallback(() => {
+    setError(null)
+  }, [])
+
+  const saveConfig = useCallback((next: PinningServiceConfig) => {
+    if (!address) {
+      setError('Wallet not connected')
+      return
+    }
+    savePinningConfig(address, next)
+    setConfig(next)
+  }, [address])
+
+  const clearConfig = useCallback(() => {
+    if (!address) return
+    clearPinningConfig(address)
+    setConfig(null)
+  }, [address])
+
+  // Listing a single pin checks both the endpoint and the access token
+  const testConnection = useCallback(async (candidate: PinningServiceConfig): Promise<boolean> => {
+    try {
+      setError(null)
+      await new PinningServiceClient(candidate).listPins({ limit: 1 })
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reach pinning service')
+      return false
+    }
+  }, [])
+
+  return {
+    config,
+    error,
+    saveConfig,
+    clearConfig,
+    testConnection,
+    clearError
+  }
+}
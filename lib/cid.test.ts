@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { InvalidCIDError, isValidCid, normalizeCid, parseCid } from './cid'
+
+const CID_V0 = 'QmdfTbBqBPQ7VNxZEYEj14VmRuZBkqFbiwReogJgS1zR1n'
+const CID_V1 = 'bafybeihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku'
+// The same CIDv1 in base58btc, which CID.parse cannot decode without a multibase decoder
+const CID_V1_BASE58 = 'zdj7Wkkhxcu2rsiN6GUyHCLsSLL47kdUNfjbFqBUUhMFTZKBi'
+
+function reason(input: string) {
+  try {
+    parseCid(input)
+  } catch (error) {
+    expect(error).toBeInstanceOf(InvalidCIDError)
+    return (error as InvalidCIDError).reason
+  }
+  return null
+}
+
+describe('parseCid', () => {
+  it('parses CIDv0 and CIDv1 in any multibase', () => {
+    const v1 = parseCid(CID_V1)
+    expect(parseCid(CID_V0).toV1().equals(v1)).toBe(true)
+    expect(parseCid(CID_V1_BASE58).equals(v1)).toBe(true)
+    expect(parseCid(`  ${CID_V1}\n`).equals(v1)).toBe(true)
+  })
+
+  it('reports why a CID was rejected', () => {
+    expect(reason('')).toBe('empty')
+    expect(reason('   ')).toBe('empty')
+    expect(reason('not-a-cid')).toBe('malformed')
+    expect(reason(`${CID_V1.slice(0, -2)}!!`)).toBe('malformed')
+    // dag-jose (0x85) is a valid CID that no backend can read
+    expect(reason('bagcqcerajp2relzuivkmko66f25yzuvx4piwacwwghbyljoxztrdy54fiwna')).toBe('unsupported-codec')
+  })
+
+  it('normalizes to CIDv1 in base32', () => {
+    expect(normalizeCid(CID_V0)).toBe(CID_V1)
+    expect(isValidCid(CID_V1)).toBe(true)
+    expect(isValidCid('bafy')).toBe(false)
+  })
+})
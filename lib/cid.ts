@@ -0,0 +1,82 @@
+import { CID } from 'multiformats/cid'
+import { bases } from 'multiformats/basics'
+import type { MultibaseDecoder } from 'multiformats/bases/interface'
+
+// Codecs that will documents and attachments can be stored under. Anything
+// else is rejected, since no backend could read it back.
+const SUPPORTED_CODECS: Record<number, string> = {
+  0x55: 'raw',
+  0x70: 'dag-pb',
+  0x71: 'dag-cbor',
+  0x0129: 'dag-json',
+  0x0200: 'json'
+}
+
+// CID.parse only knows base58btc, base32 and base36 on its own
+const MULTIBASE_DECODER: MultibaseDecoder<string> = {
+  decode(multibase) {
+    const base = Object.values(bases).find(candidate => multibase.startsWith(candidate.prefix))
+    if (!base) {
+      throw new Error(`Unknown multibase prefix "${multibase.slice(0, 1)}"`)
+    }
+    return base.decoder.decode(multibase)
+  }
+}
+
+export type InvalidCIDReason = 'empty' | 'malformed' | 'unsupported-codec'
+
+export class InvalidCIDError extends Error {
+  readonly name = 'InvalidCIDError'
+
+  constructor(
+    readonly input: string,
+    readonly reason: InvalidCIDReason,
+    message: string
+  ) {
+    super(message)
+  }
+}
+
+// Parse a CIDv0 or CIDv1 string in any multibase. Throws InvalidCIDError.
+export function parseCid(input: string): CID {
+  const trimmed = input.trim()
+  if (!trimmed) {
+    throw new InvalidCIDError(input, 'empty', 'CID is empty')
+  }
+
+  let cid: CID
+  try {
+    cid = CID.parse(trimmed, MULTIBASE_DECODER)
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : 'unknown error'
+    throw new InvalidCIDError(input, 'malformed', `Invalid CID "${trimmed}": ${detail}`)
+  }
+
+  if (!(cid.code in SUPPORTED_CODECS)) {
+    throw new InvalidCIDError(
+      input,
+      'unsupported-codec',
+      `Unsupported CID codec 0x${cid.code.toString(16)} in "${trimmed}"`
+    )
+  }
+  return cid
+}
+
+// Canonical form for storage and comparison: CIDv1 in lowercase base32.
+// CIDv0 strings address the same dag-pb content as their v1 form.
+export function normalizeCid(input: string): string {
+  return parseCid(input).toV1().toString()
+}
+
+export function isValidCid(input: string): boolean {
+  try {
+    parseCid(input)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function cidCodecName(cid: CID): string {
+  return SUPPORTED_CODECS[cid.code] ?? `0x${cid.code.toString(16)}`
+}
@@ -0,0 +1,33 @@
+// Minimal typing for the File System Access API, which is not in lib.dom yet
+interface SaveFilePickerWindow {
+  showSaveFilePicker?: (options?: { suggestedName?: string }) => Promise<{
+    createWritable: () => Promise<WritableStream<Uint8Array>>
+  }>
+}
+
+// Save a stream to disk. Where the File System Access API is available the
+// stream is piped straight to the file, so large downloads are never held in
+// memory; other browsers fall back to a Blob download.
+export async function saveStreamToFile(
+  stream: ReadableStream<Uint8Array>,
+  fileName: string,
+  mimeType = 'application/octet-stream'
+): Promise<void> {
+  const picker = (window as unknown as SaveFilePickerWindow).showSaveFilePicker
+  if (picker) {
+    const handle = await picker({ suggestedName: fileName })
+    await stream.pipeTo(await handle.createWritable())
+    return
+  }
+
+  const blob = await new Response(stream, { headers: { 'Content-Type': mimeType } }).blob()
+  const url = URL.createObjectURL(blob)
+  try {
+    const link = document.createElement('a')
+    link.href = url
+    link.download = fileName
+    link.click()
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
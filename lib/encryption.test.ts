@@ -0,0 +1,339 @@
+import CryptoJS from 'crypto-js'
+import { privateKeyToAccount } from 'viem/accounts'
+import { describe, expect, it } from 'vitest'
+import {
+  EncryptionService,
+  FileEncryption,
+  InvalidEncryptedFileError,
+  RecipientEncryption,
+  RecoveryKit,
+  type EncryptionEnvelope,
+  type KdfParams,
+  type KeyRegistration,
+  type PasswordKdf
+} from './encryption'
+
+// Cheap cost parameters so the suite stays fast; the defaults are exercised in the app
+const FAST_KDF_PARAMS: Record<PasswordKdf, KdfParams> = {
+  'PBKDF2-SHA256': { iterations: 1000 },
+  SCRYPT: { N: 2 ** 10, r: 8, p: 1 },
+  ARGON2ID: { iterations: 1, memory: 64, parallelism: 1 }
+}
+
+const PASSWORD = 'correct horse battery staple'
+
+// Re-encode a share with its checksum, as if it had been crafted rather than corrupted
+function withChecksum(fields: string[]): string {
+  const body = fields.join('-')
+  return `${body}-${CryptoJS.SHA256(body).toString().slice(0, 8)}`
+}
+
+describe('Shamir secret sharing', () => {
+  const secret = 'guardian recovery secret ✓'
+
+  it('reconstructs the secret from any threshold of shares', () => {
+    const shares = EncryptionService.splitSecret(secret, 5, 3)
+    expect(shares).toHaveLength(5)
+
+    for (const subset of [[0, 1, 2], [0, 2, 4], [4, 3, 1], [1, 2, 3, 4]]) {
+      expect(EncryptionService.combineSecretParts(subset.map(i => shares[i]))).toBe(secret)
+    }
+  })
+
+  it('needs at least the threshold', () => {
+    const shares = EncryptionService.splitSecret(secret, 5, 3)
+    expect(() => EncryptionService.combineSecretParts(shares.slice(0, 2))).toThrow('At least 3 shares are required')
+  })
+
+  it('rejects duplicate, corrupted and mismatched shares', () => {
+    const shares = EncryptionService.splitSecret(secret, 3, 2)
+    const other = EncryptionService.splitSecret(secret, 3, 2)
+
+    expect(() => EncryptionService.combineSecretParts([shares[0], shares[0]])).toThrow('Duplicate shares')
+    expect(() => EncryptionService.combineSecretParts([shares[0], other[1]])).toThrow('different secrets')
+
+    const fields = shares[1].split('-')
+    const data = fields[5]
+    const corrupted = [...fields.slice(0, 5), `${data[0] === '0' ? '1' : '0'}${data.slice(1)}`, fields[6]].join('-')
+    expect(() => EncryptionService.combineSecretParts([shares[0], corrupted])).toThrow('checksum mismatch')
+
+    // A share whose data was altered along with its checksum fails the secret digest instead
+    const altered = withChecksum([...fields.slice(0, 5), `${data[0] === '0' ? '1' : '0'}${data.slice(1)}`])
+    expect(() => EncryptionService.combineSecretParts([shares[0], altered])).toThrow('failed verification')
+  })
+
+  it('bounds the threshold and share count', () => {
+    expect(() => EncryptionService.splitSecret(secret, 3, 1)).toThrow('at least 2')
+    expect(() => EncryptionService.splitSecret(secret, 2, 3)).toThrow('greater than total parts')
+    expect(() => EncryptionService.splitSecret(secret, 256, 2)).toThrow('more than 255')
+
+    const fields = EncryptionService.splitSecret(secret, 3, 2)[0].split('-').slice(0, 6)
+    for (const threshold of ['1', '256']) {
+      const share = withChecksum([fields[0], fields[1], threshold, ...fields.slice(3)])
+      expect(() => EncryptionService.combineSecretParts([share])).toThrow('malformed')
+    }
+  })
+
+  it('records the will the shares belong to', () => {
+    const will = { tokenId: BigInt(42), creator: '0x00000000000000000000000000000000000000Ab' } as const
+    const shares = EncryptionService.splitSecret(secret, 3, 2, will)
+
+    expect(EncryptionService.shareWill(shares[2])).toEqual({ tokenId: BigInt(42), creator: will.creator.toLowerCase() })
+    expect(EncryptionService.shareWill(EncryptionService.splitSecret(secret, 3, 2)[0])).toBeUndefined()
+    expect(EncryptionService.combineSecretParts(shares.slice(1))).toBe(secret)
+
+    // Same set, but one share claims another will
+    const fields = shares[1].split('-').slice(0, 6)
+    const moved = withChecksum([...fields.slice(0, 4), `7.${will.creator.toLowerCase()}`, fields[5]])
+    expect(() => EncryptionService.combineSecretParts([shares[0], moved])).toThrow('different secrets')
+  })
+})
+
+describe('password KDFs', () => {
+  const salt = btoa('0123456789abcdef')
+
+  for (const kdf of Object.keys(FAST_KDF_PARAMS) as PasswordKdf[]) {
+    it(`derives ${kdf} keys deterministically from the salt`, async () => {
+      const first = await EncryptionService.derivePasswordFromInput(PASSWORD, salt, kdf, FAST_KDF_PARAMS[kdf])
+      const again = await EncryptionService.derivePasswordFromInput(PASSWORD, salt, kdf, FAST_KDF_PARAMS[kdf])
+      const salted = await EncryptionService.derivePasswordFromInput(PASSWORD, undefined, kdf, FAST_KDF_PARAMS[kdf])
+
+      expect(first.key).toMatch(/^[0-9a-f]{64}$/)
+      expect(again.key).toBe(first.key)
+      expect(salted.key).not.toBe(first.key)
+    })
+  }
+
+  it('seals envelopes under each password KDF', async () => {
+    for (const kdf of Object.keys(FAST_KDF_PARAMS) as PasswordKdf[]) {
+      const envelope = await EncryptionService.encryptEnvelope('last will', PASSWORD, 'password', {
+        kdf,
+        kdfParams: FAST_KDF_PARAMS[kdf]
+      })
+      expect(envelope).toMatchObject({ kdf, kdfParams: FAST_KDF_PARAMS[kdf] })
+      expect(await EncryptionService.decryptEnvelope(envelope, PASSWORD)).toBe('last will')
+    }
+  })
+
+  it('flags wraps made with weaker parameters for an upgrade', async () => {
+    const wrap = await EncryptionService.wrapContentKey(EncryptionService.generateContentKey(), PASSWORD, 'password', {
+      kdfParams: FAST_KDF_PARAMS['PBKDF2-SHA256']
+    })
+    expect(EncryptionService.needsKdfUpgrade(wrap)).toBe(true)
+  })
+
+  it('refuses costs a crafted envelope could use to exhaust the browser', async () => {
+    const derive = (kdf: PasswordKdf, kdfParams: KdfParams) =>
+      EncryptionService.derivePasswordFromInput(PASSWORD, salt, kdf, kdfParams)
+
+    await expect(derive('PBKDF2-SHA256', { iterations: 1e9 })).rejects.toThrow('PBKDF2 iteration count')
+    await expect(derive('SCRYPT', { N: 2 ** 24, r: 8, p: 1 })).rejects.toThrow('scrypt parameters')
+    await expect(derive('ARGON2ID', { iterations: 1, memory: 2 ** 21, parallelism: 1 })).rejects.toThrow('memory cost')
+    await expect(derive('ARGON2ID', { iterations: 1e6, memory: 64, parallelism: 1 })).rejects.toThrow('pass count')
+  })
+})
+
+describe('v2 envelopes', () => {
+  const encrypt = () =>
+    EncryptionService.encryptEnvelope('last will', PASSWORD, 'password', { kdfParams: FAST_KDF_PARAMS['PBKDF2-SHA256'] })
+
+  it('round-trips and records how the key was derived', async () => {
+    const envelope = await encrypt()
+    expect(envelope).toMatchObject({ version: 2, alg: 'AES-256-GCM', kdf: 'PBKDF2-SHA256', method: 'password' })
+    expect(await EncryptionService.decryptEnvelope(envelope, PASSWORD)).toBe('last will')
+  })
+
+  it('fails on a wrong secret or a tampered header or ciphertext', async () => {
+    const envelope = await encrypt()
+    const bytes = Uint8Array.from(atob(envelope.ciphertext), c => c.charCodeAt(0))
+    bytes[0] ^= 1
+    const tampered: EncryptionEnvelope[] = [
+      { ...envelope, method: 'wallet' },
+      { ...envelope, kdfParams: { iterations: 1001 } },
+      { ...envelope, ciphertext: btoa(String.fromCharCode(...bytes)) }
+    ]
+
+    await expect(EncryptionService.decryptEnvelope(envelope, 'wrong password')).rejects.toThrow()
+    for (const candidate of tampered) {
+      await expect(EncryptionService.decryptEnvelope(candidate, PASSWORD)).rejects.toThrow()
+    }
+  })
+
+  it('wraps content keys', async () => {
+    const contentKey = EncryptionService.generateContentKey()
+    const wrap = await EncryptionService.wrapContentKey(contentKey, PASSWORD, 'password', {
+      kdfParams: FAST_KDF_PARAMS['PBKDF2-SHA256']
+    })
+
+    expect(await EncryptionService.unwrapContentKey(wrap, PASSWORD)).toEqual(contentKey)
+  })
+})
+
+describe('v3 will envelopes', () => {
+  it('round-trips under the content key and authenticates the header', async () => {
+    const contentKey = EncryptionService.generateContentKey()
+    const wrap = await EncryptionService.wrapContentKey(contentKey, PASSWORD, 'password', {
+      kdfParams: FAST_KDF_PARAMS['PBKDF2-SHA256']
+    })
+    const envelope = await EncryptionService.encryptWithContentKey('{"title":"mine"}', contentKey, 'password', [wrap])
+
+    expect(envelope).toMatchObject({ version: 3, alg: 'AES-256-GCM', method: 'password', keys: [wrap] })
+    expect(await EncryptionService.decryptWithContentKey(envelope, contentKey)).toBe('{"title":"mine"}')
+
+    await expect(EncryptionService.decryptWithContentKey(envelope, EncryptionService.generateContentKey()))
+      .rejects.toThrow('Decryption failed')
+    await expect(EncryptionService.decryptWithContentKey({ ...envelope, method: 'wallet' }, contentKey))
+      .rejects.toThrow('Decryption failed')
+  })
+
+})
+
+describe('RecipientEncryption', () => {
+  const alice = privateKeyToAccount(`0x${'11'.repeat(32)}`)
+  const bob = privateKeyToAccount(`0x${'22'.repeat(32)}`)
+
+  // The key pair a wallet derives, and the registration it publishes for it
+  async function register(account: typeof alice): Promise<{ registration: KeyRegistration; privateKey: Uint8Array }> {
+    const derivation = await account.signTypedData(RecipientEncryption.createKeyDerivationTypedData(account.address))
+    const { privateKey, publicKey } = await RecipientEncryption.deriveKeyPair(derivation)
+    const signature = await account.signTypedData(RecipientEncryption.createRegistrationTypedData(account.address, publicKey))
+    return { registration: { address: account.address, publicKey, signature }, privateKey }
+  }
+
+  it('wraps a content key to a registered recipient', async () => {
+    const { registration, privateKey } = await register(alice)
+    const contentKey = EncryptionService.generateContentKey()
+    const wrap = await RecipientEncryption.wrapKey(contentKey, registration)
+
+    expect(wrap.recipient).toBe(alice.address.toLowerCase())
+    expect(RecipientEncryption.findKeyWraps([wrap], alice.address)).toEqual([wrap])
+    expect(RecipientEncryption.findKeyWraps([wrap], bob.address)).toEqual([])
+    expect(await RecipientEncryption.unwrapKey(wrap, privateKey)).toEqual(contentKey)
+  })
+
+  it('leaves the recipient out of private wraps and finds the right one by trial', async () => {
+    const recipients = [await register(alice), await register(bob)]
+    const contentKey = EncryptionService.generateContentKey()
+    const wraps = await Promise.all(
+      recipients.map(({ registration }) => RecipientEncryption.wrapKey(contentKey, registration, false))
+    )
+
+    expect(JSON.stringify(wraps).toLowerCase()).not.toContain(alice.address.slice(2).toLowerCase())
+    expect(JSON.stringify(wraps).toLowerCase()).not.toContain(bob.address.slice(2).toLowerCase())
+
+    const candidates = RecipientEncryption.findKeyWraps(wraps, bob.address)
+    expect(candidates).toHaveLength(2)
+    expect(await RecipientEncryption.unwrapAnyKey(candidates, recipients[1].privateKey)).toEqual(contentKey)
+  })
+
+  it('rejects a key none of the wraps was made for', async () => {
+    const { registration } = await register(alice)
+    const { privateKey } = await register(bob)
+    const wrap = await RecipientEncryption.wrapKey(EncryptionService.generateContentKey(), registration, false)
+
+    await expect(RecipientEncryption.unwrapAnyKey([wrap], privateKey)).rejects.toThrow('not wrapped for this account')
+  })
+
+  it('does not let a recipient be added to a private wrap', async () => {
+    const { registration, privateKey } = await register(alice)
+    const wrap = await RecipientEncryption.wrapKey(EncryptionService.generateContentKey(), registration, false)
+
+    await expect(RecipientEncryption.unwrapKey({ ...wrap, recipient: alice.address.toLowerCase() }, privateKey))
+      .rejects.toThrow('not wrapped for this account')
+  })
+})
+
+describe('previous revision keys', () => {
+  it('seals the previous revision key under the new one', async () => {
+    const previousKey = EncryptionService.generateContentKey()
+    const contentKey = EncryptionService.generateContentKey()
+    const sealed = await EncryptionService.sealPreviousKey(previousKey, contentKey)
+
+    expect(await EncryptionService.openPreviousKey(sealed, contentKey)).toEqual(previousKey)
+    await expect(EncryptionService.openPreviousKey(sealed, previousKey)).rejects.toThrow('previous revision key')
+  })
+})
+
+describe('FileEncryption', () => {
+  const CHUNK_SIZE = 16
+
+  async function pipe(input: Uint8Array[], transform: TransformStream<Uint8Array, Uint8Array>): Promise<Uint8Array> {
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        input.forEach(chunk => controller.enqueue(chunk))
+        controller.close()
+      }
+    })
+    return new Uint8Array(await new Response(stream.pipeThrough(transform)).arrayBuffer())
+  }
+
+  const plaintext = (size: number) => Uint8Array.from({ length: size }, (_, i) => i % 251)
+
+  it('round-trips files of any size, however the input is split', async () => {
+    const contentKey = EncryptionService.generateContentKey()
+
+    for (const size of [0, 1, CHUNK_SIZE, CHUNK_SIZE + 1, 3 * CHUNK_SIZE + 5]) {
+      const data = plaintext(size)
+      // Feed the input in uneven pieces so chunking does not depend on them
+      const pieces = [data.subarray(0, 5), data.subarray(5, 23), data.subarray(23)]
+      const encrypted = await pipe(pieces, FileEncryption.encryptStream(contentKey, CHUNK_SIZE))
+
+      expect(encrypted.length).toBe(FileEncryption.encryptedSize(size, CHUNK_SIZE))
+      expect(await pipe([encrypted.subarray(0, 7), encrypted.subarray(7)], FileEncryption.decryptStream(contentKey)))
+        .toEqual(data)
+      expect(await pipe([encrypted], FileEncryption.checkStream())).toEqual(encrypted)
+    }
+  })
+
+  it('fails on a wrong key, truncation or reordered chunks', async () => {
+    const contentKey = EncryptionService.generateContentKey()
+    const encrypted = await pipe([plaintext(3 * CHUNK_SIZE)], FileEncryption.encryptStream(contentKey, CHUNK_SIZE))
+    const sealed = CHUNK_SIZE + 16
+    const header = encrypted.subarray(0, 32)
+    const chunk = (i: number) => encrypted.subarray(32 + i * sealed, 32 + (i + 1) * sealed)
+
+    await expect(pipe([encrypted], FileEncryption.decryptStream(EncryptionService.generateContentKey())))
+      .rejects.toThrow('File decryption failed')
+    // Dropping the final chunk leaves a full chunk that was not sealed as the last one
+    await expect(pipe([header, chunk(0), chunk(1)], FileEncryption.decryptStream(contentKey)))
+      .rejects.toThrow('truncated or corrupted')
+    await expect(pipe([header, chunk(1), chunk(0), chunk(2)], FileEncryption.decryptStream(contentKey)))
+      .rejects.toThrow('chunk 0')
+  })
+
+  it('checks the layout without the key', async () => {
+    const contentKey = EncryptionService.generateContentKey()
+    const encrypted = await pipe([plaintext(40)], FileEncryption.encryptStream(contentKey, CHUNK_SIZE))
+
+    await expect(pipe([new TextEncoder().encode('%PDF-1.7 plaintext attachment')], FileEncryption.checkStream()))
+      .rejects.toThrow(InvalidEncryptedFileError)
+    await expect(pipe([encrypted.subarray(0, encrypted.length - 10)], FileEncryption.checkStream()))
+      .rejects.toThrow('truncated')
+  })
+})
+
+describe('RecoveryKit', () => {
+  const contentKey = Uint8Array.from({ length: 32 }, (_, i) => i)
+
+  it('encodes the content key as a 24-word phrase', () => {
+    const words = RecoveryKit.encodeContentKey(contentKey)
+    expect(words).toHaveLength(24)
+    expect(RecoveryKit.decodeContentKey(words.join('  ').toUpperCase())).toEqual(contentKey)
+  })
+
+  it('rejects short, unknown or reordered phrases', () => {
+    const words = RecoveryKit.encodeContentKey(contentKey)
+
+    expect(() => RecoveryKit.decodeContentKey(words.slice(1))).toThrow('24 words')
+    expect(() => RecoveryKit.decodeContentKey([...words.slice(1), 'notaword'])).toThrow('Unknown recovery words')
+    expect(() => RecoveryKit.decodeContentKey([words[1], words[0], ...words.slice(2)])).toThrow('checksum mismatch')
+  })
+
+  it('parses a kit from its QR payload', () => {
+    const kit = RecoveryKit.createKit(contentKey, { tokenId: BigInt(3), cid: 'bafy', chainId: 11155111, contract: '0x1' })
+    const parsed = RecoveryKit.parse(RecoveryKit.toQrPayload(kit))
+
+    expect(parsed.kit).toEqual(kit)
+    expect(RecoveryKit.decodeContentKey(parsed.words)).toEqual(contentKey)
+  })
+})
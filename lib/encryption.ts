@@ -1,30 +1,217 @@
 import CryptoJS from 'crypto-js'
+import { secp256k1 } from '@noble/curves/secp256k1'
+import { keccak256, recoverTypedDataAddress } from 'viem'
+import nacl from 'tweetnacl'
+import { scryptAsync } from '@noble/hashes/scrypt'
+import { argon2idAsync } from '@noble/hashes/argon2'
+import { entropyToMnemonic, mnemonicToEntropy, validateMnemonic } from '@scure/bip39'
+import { wordlist } from '@scure/bip39/wordlists/english'
+import { estimatePasswordStrength, type PasswordStrength } from './password-strength'
+
+// Methods that derive a key-encryption key from a secret (see EncryptionEnvelope)
+export type SecretMethod = 'wallet' | 'password' | 'passkey'
+
+export type EncryptionMethod = SecretMethod | 'metamask'
+
+// Password-stretching KDFs; cost parameters are recorded in the envelope
+export type PasswordKdf = 'PBKDF2-SHA256' | 'SCRYPT' | 'ARGON2ID'
+
+export type KdfName = PasswordKdf | 'HKDF-SHA256'
+
+export interface KdfParams {
+  // PBKDF2 iterations, or argon2id passes
+  iterations?: number
+  info?: string
+  // scrypt cost (N), block size (r) and parallelism (p)
+  N?: number
+  r?: number
+  p?: number
+  // argon2id memory in KiB and lanes
+  memory?: number
+  parallelism?: number
+  // Wallet key derivation binding (see WalletEncryption.createKeyDerivationTypedData)
+  chainId?: number
+  verifyingContract?: string
+  creator?: string
+  // Passkey binding (see PasskeyEncryption)
+  credentialId?: string
+  prfSalt?: string
+}
+
+export interface EnvelopeOptions {
+  salt?: Uint8Array<ArrayBuffer>
+  // Password KDF; defaults to DEFAULT_PASSWORD_KDF
+  kdf?: PasswordKdf
+  kdfParams?: KdfParams
+}
+
+// Authenticated, versioned AES-256-GCM ciphertext. Binary fields are base64 encoded.
+export interface EncryptionEnvelope {
+  version: 2
+  alg: 'AES-256-GCM'
+  kdf: KdfName
+  kdfParams: KdfParams
+  salt: string
+  iv: string
+  method: SecretMethod
+  ciphertext: string
+}
+
+type EnvelopeHeader = Omit<EncryptionEnvelope, 'ciphertext'>
+
+// The will a set of secret shares belongs to, from its WillCreated event, so a
+// guardian can tell which will their share recovers. The IPFS hash is left out
+// because updateWill changes it.
+export interface ShareWill {
+  tokenId: bigint
+  creator: `0x${string}`
+}
+
+// Content key wrapped to a recipient's registered secp256k1 encryption key
+export interface EciesKeyWrap {
+  method: 'ecies'
+  alg: 'ECIES-SECP256K1-HKDF-SHA256-AES-256-GCM'
+  // Left out of private wills; readers try each unaddressed wrap instead
+  recipient?: string
+  ephemeralPublicKey: string
+  iv: string
+  ciphertext: string
+}
+
+// Ciphertext in the format produced for eth_decrypt (nacl box over x25519)
+export interface EthEncryptedData {
+  version: 'x25519-xsalsa20-poly1305'
+  nonce: string
+  ephemPublicKey: string
+  ciphertext: string
+}
+
+// Content key encrypted to a wallet's eth_getEncryptionPublicKey key
+export interface MetaMaskKeyWrap {
+  method: 'metamask'
+  // Left out of private wills, like the ECIES recipient
+  recipient?: string
+  encryptedData: EthEncryptedData
+}
+
+// Password, wallet and passkey wraps are envelopes whose plaintext is the content key
+export type KeyWrap = EncryptionEnvelope | EciesKeyWrap | MetaMaskKeyWrap
+
+// Minimal EIP-1193 provider used for the wallet encryption RPC methods
+export interface EncryptionProvider {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>
+}
+
+// Will content encrypted under a random content key, which is wrapped
+// separately for every party allowed to read the will. Only the header
+// below is authenticated with the content, so wraps can be added later.
+export interface WillEnvelope {
+  version: 3
+  alg: 'AES-256-GCM'
+  method: EncryptionMethod
+  iv: string
+  keys: KeyWrap[]
+  ciphertext: string
+  // Creator's EIP-712 signature over the plaintext (see ContentSignature)
+  signature?: `0x${string}`
+  // Place in the will's history (see RevisionLink). Envelopes written before
+  // revisions were tracked have none and count as revision 1.
+  revision?: number
+  previous?: { '/': string }
+  previousKey?: SealedContentKey
+}
+
+// Links a new will envelope to the revision it replaces. These fields are
+// covered by the document's CID rather than the AAD.
+export interface RevisionLink {
+  // Starts at 1 and increases by one with every new version
+  revision: number
+  // IPLD link to the replaced revision
+  previous?: { '/': string }
+  // The replaced revision's content key when it differs from this one's
+  previousKey?: SealedContentKey
+}
+
+// A content key encrypted under another content key
+export interface SealedContentKey {
+  iv: string
+  ciphertext: string
+}
+
+// A recipient's encryption public key, signed by their wallet
+export interface KeyRegistration {
+  address: `0x${string}`
+  publicKey: `0x${string}`
+  signature: `0x${string}`
+}
+
+const ENVELOPE_VERSION = 2
+const WILL_ENVELOPE_VERSION = 3
+const PBKDF2_ITERATIONS = 600000
+const HKDF_INFO = 'WillsDAO will encryption key'
+const PREVIOUS_KEY_AAD = 'WillsDAO previous content key'
+
+export const DEFAULT_PASSWORD_KDF: PasswordKdf = 'PBKDF2-SHA256'
+
+// Current cost parameters for new password wraps. Wraps made with weaker
+// parameters still decrypt, and are flagged by EncryptionService.needsKdfUpgrade.
+export const PASSWORD_KDF_PARAMS = {
+  'PBKDF2-SHA256': { iterations: PBKDF2_ITERATIONS },
+  SCRYPT: { N: 2 ** 17, r: 8, p: 1 },
+  ARGON2ID: { iterations: 3, memory: 64 * 1024, parallelism: 1 }
+} as const satisfies Record<PasswordKdf, KdfParams>
+
+// Upper bounds on stored parameters, so a crafted envelope cannot exhaust the browser
+const MAX_PBKDF2_ITERATIONS = 10_000_000
+const MAX_KDF_MEMORY_BYTES = 1024 * 1024 * 1024
+const MAX_ARGON2_PASSES = 64
+
+export const PASSWORD_CHARSET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!@#$%^&*'
 
 export class EncryptionService {
   // Generate a secure random password
-  static generateSecurePassword(length = 32): string {
-    const charset = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!@#$%^&*'
+  static generateSecurePassword(length = 32, charset = PASSWORD_CHARSET): string {
     let password = ''
     
     for (let i = 0; i < length; i++) {
-      const randomIndex = Math.floor(Math.random() * charset.length)
-      password += charset[randomIndex]
+      password += charset[randomIndex(charset.length)]
     }
     
     return password
   }
 
-  // Generate a password from user input with salt
-  static derivePasswordFromInput(userInput: string, salt?: string): string {
-    const saltToUse = salt || CryptoJS.lib.WordArray.random(256/8).toString()
-    const iterations = 10000
-    
-    const derivedKey = CryptoJS.PBKDF2(userInput, saltToUse, {
-      keySize: 256/32,
-      iterations: iterations
-    })
-    
-    return derivedKey.toString()
+  // Generate a Diceware-style passphrase from the BIP39 English wordlist (11 bits per word)
+  static generatePassphrase(wordCount = 6, separator = '-'): string {
+    const words: string[] = []
+
+    for (let i = 0; i < wordCount; i++) {
+      words.push(wordlist[randomIndex(wordlist.length)])
+    }
+
+    return words.join(separator)
+  }
+
+  // Entropy of a generated password in bits
+  static passwordEntropyBits(length = 32, charset = PASSWORD_CHARSET): number {
+    return length * Math.log2(new Set(charset).size)
+  }
+
+  // Entropy of a generated passphrase in bits
+  static passphraseEntropyBits(wordCount = 6): number {
+    return wordCount * Math.log2(wordlist.length)
+  }
+
+  // Derive a 256-bit key from user input, returning the salt and parameters needed to re-derive it
+  static async derivePasswordFromInput(
+    userInput: string,
+    salt?: string,
+    kdf: PasswordKdf = DEFAULT_PASSWORD_KDF,
+    kdfParams: KdfParams = PASSWORD_KDF_PARAMS[kdf]
+  ): Promise<{ key: string; salt: string; kdf: PasswordKdf; kdfParams: KdfParams }> {
+    const saltBytes = salt ? base64ToBytes(salt) : crypto.getRandomValues(new Uint8Array(16))
+    const key = await derivePasswordKeyBytes(userInput, kdf, kdfParams, saltBytes)
+
+    return { key: bytesToHex(key), salt: bytesToBase64(saltBytes), kdf, kdfParams }
   }
 
   // Generate salt for password derivation
@@ -32,19 +219,182 @@ export class EncryptionService {
     return CryptoJS.lib.WordArray.random(256/8).toString()
   }
 
-  // Encrypt text with AES
-  static encryptText(text: string, password: string): string {
+  // Encrypt text into a serialized AES-256-GCM envelope
+  static async encryptText(
+    text: string,
+    password: string,
+    method: SecretMethod = 'password'
+  ): Promise<string> {
+    const envelope = await this.encryptEnvelope(text, password, method)
+    return JSON.stringify(envelope)
+  }
+
+  // Decrypt text produced by encryptText, falling back to the legacy CryptoJS format
+  static async decryptText(encryptedText: string, password: string): Promise<string> {
+    let parsed: unknown = null
     try {
-      const encrypted = CryptoJS.AES.encrypt(text, password)
-      return encrypted.toString()
+      parsed = JSON.parse(encryptedText)
+    } catch {
+      // Not JSON - legacy CryptoJS ciphertext
+    }
+
+    if (this.isEnvelope(parsed)) {
+      return this.decryptEnvelope(parsed, password)
+    }
+
+    return this.decryptLegacyText(encryptedText, password)
+  }
+
+  // Encrypt plaintext under a key derived from `secret`, recording how the key was derived
+  static async encryptEnvelope(
+    plaintext: string,
+    secret: string,
+    method: SecretMethod,
+    options: EnvelopeOptions = {}
+  ): Promise<EncryptionEnvelope> {
+    try {
+      return await sealEnvelope(utf8ToBytes(plaintext), secret, method, options)
     } catch (error) {
       console.error('Encryption error:', error)
       throw new Error('Failed to encrypt text')
     }
   }
 
-  // Decrypt text with AES
-  static decryptText(encryptedText: string, password: string): string {
+  // Decrypt an envelope, verifying both the ciphertext and its header
+  static async decryptEnvelope(envelope: EncryptionEnvelope, secret: string): Promise<string> {
+    return bytesToUtf8(await openEnvelope(envelope, secret))
+  }
+
+  // Generate a random 256-bit content key
+  static generateContentKey(): Uint8Array<ArrayBuffer> {
+    return crypto.getRandomValues(new Uint8Array(32))
+  }
+
+  // Wrap a content key under a password or wallet-derived secret
+  static async wrapContentKey(
+    contentKey: Uint8Array<ArrayBuffer>,
+    secret: string,
+    method: SecretMethod,
+    options: EnvelopeOptions = {}
+  ): Promise<EncryptionEnvelope> {
+    return sealEnvelope(contentKey, secret, method, options)
+  }
+
+  // Unwrap a content key wrapped by wrapContentKey
+  static async unwrapContentKey(wrap: EncryptionEnvelope, secret: string): Promise<Uint8Array<ArrayBuffer>> {
+    return openEnvelope(wrap, secret)
+  }
+
+  // Encrypt plaintext under a content key, attaching the wrapped copies of that key
+  static async encryptWithContentKey(
+    plaintext: string,
+    contentKey: Uint8Array<ArrayBuffer>,
+    method: EncryptionMethod,
+    keys: KeyWrap[],
+    signature?: `0x${string}`,
+    link?: RevisionLink
+  ): Promise<WillEnvelope> {
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+    const header = { version: WILL_ENVELOPE_VERSION, alg: 'AES-256-GCM', method, iv: bytesToBase64(iv) } as const
+
+    const key = await importContentKey(contentKey)
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: utf8ToBytes(canonicalJson(header)) },
+      key,
+      utf8ToBytes(plaintext)
+    )
+
+    return { ...header, keys, ciphertext: bytesToBase64(new Uint8Array(ciphertext)), signature, ...link }
+  }
+
+  // Decrypt a will envelope with an unwrapped content key
+  static async decryptWithContentKey(envelope: WillEnvelope, contentKey: Uint8Array<ArrayBuffer>): Promise<string> {
+    if (envelope.version !== WILL_ENVELOPE_VERSION || envelope.alg !== 'AES-256-GCM') {
+      throw new Error(`Unsupported will envelope: v${envelope.version} ${envelope.alg}`)
+    }
+
+    const { version, alg, method, iv } = envelope
+    const key = await importContentKey(contentKey)
+
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: base64ToBytes(iv), additionalData: utf8ToBytes(canonicalJson({ version, alg, method, iv })) },
+        key,
+        base64ToBytes(envelope.ciphertext)
+      )
+      return bytesToUtf8(new Uint8Array(plaintext))
+    } catch {
+      throw new Error('Decryption failed - wrong key or the data has been tampered with')
+    }
+  }
+
+  // Seal a replaced revision's content key under the new one, so whoever can
+  // open the latest revision can also open the ones before a key rotation
+  static async sealPreviousKey(
+    previousKey: Uint8Array<ArrayBuffer>,
+    contentKey: Uint8Array<ArrayBuffer>
+  ): Promise<SealedContentKey> {
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: utf8ToBytes(PREVIOUS_KEY_AAD) },
+      await importContentKey(contentKey),
+      previousKey
+    )
+    return { iv: bytesToBase64(iv), ciphertext: bytesToBase64(new Uint8Array(ciphertext)) }
+  }
+
+  // Recover a content key sealed by sealPreviousKey
+  static async openPreviousKey(
+    sealed: SealedContentKey,
+    contentKey: Uint8Array<ArrayBuffer>
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    try {
+      const previousKey = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: base64ToBytes(sealed.iv), additionalData: utf8ToBytes(PREVIOUS_KEY_AAD) },
+        await importContentKey(contentKey),
+        base64ToBytes(sealed.ciphertext)
+      )
+      return new Uint8Array(previousKey)
+    } catch {
+      throw new Error('Failed to open the previous revision key')
+    }
+  }
+
+  // Check whether a key wrap is opened with a secret (password, wallet or passkey)
+  static isSecretWrap(wrap: KeyWrap): wrap is EncryptionEnvelope {
+    return wrap.method === 'password' || wrap.method === 'wallet' || wrap.method === 'passkey'
+  }
+
+  // Check whether a password wrap was made with weaker parameters than PASSWORD_KDF_PARAMS
+  static needsKdfUpgrade(envelope: EncryptionEnvelope): boolean {
+    if (envelope.method !== 'password') return false
+
+    const { kdfParams } = envelope
+    switch (envelope.kdf) {
+      case 'PBKDF2-SHA256':
+        return (kdfParams.iterations ?? 0) < PASSWORD_KDF_PARAMS['PBKDF2-SHA256'].iterations
+      case 'SCRYPT':
+        return (kdfParams.N ?? 0) < PASSWORD_KDF_PARAMS.SCRYPT.N
+      case 'ARGON2ID':
+        return (kdfParams.memory ?? 0) < PASSWORD_KDF_PARAMS.ARGON2ID.memory ||
+          (kdfParams.iterations ?? 0) < PASSWORD_KDF_PARAMS.ARGON2ID.iterations
+      default:
+        return true
+    }
+  }
+
+  // Check whether a parsed value looks like an encryption envelope
+  static isEnvelope(value: unknown): value is EncryptionEnvelope {
+    if (!value || typeof value !== 'object') return false
+    const candidate = value as Partial<EncryptionEnvelope>
+    return typeof candidate.version === 'number' &&
+      typeof candidate.alg === 'string' &&
+      typeof candidate.ciphertext === 'string' &&
+      typeof candidate.iv === 'string'
+  }
+
+  // Decrypt CryptoJS passphrase ciphertext written before the envelope format
+  static decryptLegacyText(encryptedText: string, password: string): string {
     try {
       const decrypted = CryptoJS.AES.decrypt(encryptedText, password)
       const decryptedText = decrypted.toString(CryptoJS.enc.Utf8)
@@ -71,7 +421,8 @@ export class EncryptionService {
     return passwordHash === hash
   }
 
-  // Encrypt file content
+  // Legacy CryptoJS file encryption. Buffers the whole file several times over;
+  // new attachments use FileEncryption streams instead.
   static encryptFile(fileContent: Uint8Array, password: string): string {
     try {
       // Convert Uint8Array to WordArray for CryptoJS
@@ -84,7 +435,7 @@ export class EncryptionService {
     }
   }
 
-  // Decrypt file content
+  // Decrypt a file produced by encryptFile
   static decryptFile(encryptedContent: string, password: string): Uint8Array {
     try {
       const decrypted = CryptoJS.AES.decrypt(encryptedContent, password)
@@ -122,103 +473,468 @@ export class EncryptionService {
     return CryptoJS.lib.WordArray.random(256/8).toString()
   }
 
-  // Split a secret into multiple parts (simple implementation)
-  static splitSecret(secret: string, parts: number, threshold: number): string[] {
+  // Split a secret into `parts` Shamir shares, any `threshold` of which reconstruct it.
+  // Shares of a will's key name it by the token ID and creator from WillCreated.
+  static splitSecret(secret: string, parts: number, threshold: number, will?: ShareWill): string[] {
     if (threshold > parts) {
       throw new Error('Threshold cannot be greater than total parts')
     }
-    
-    // Simple implementation - in production, use Shamir's Secret Sharing
-    const shares: string[] = []
-    
-    for (let i = 0; i < parts; i++) {
-      const shareData = {
-        index: i,
-        threshold,
-        totalParts: parts,
-        encryptedSecret: CryptoJS.AES.encrypt(secret, `share-${i}-${Date.now()}`).toString()
+    if (threshold < 2) {
+      throw new Error('Threshold must be at least 2')
+    }
+    if (parts > 255) {
+      throw new Error('Cannot create more than 255 shares')
+    }
+    if (!secret) {
+      throw new Error('Secret cannot be empty')
+    }
+
+    // Append a digest so a reconstruction from bad shares is detected
+    const secretBytes = utf8ToBytes(secret)
+    const payload = concatBytes(secretBytes, secretDigest(secretBytes))
+    const setId = bytesToHex(crypto.getRandomValues(new Uint8Array(4)))
+
+    // One random polynomial per byte, with the secret byte as the constant term
+    const shareData = Array.from({ length: parts }, () => new Uint8Array(payload.length))
+    const coefficients = new Uint8Array(threshold)
+
+    for (let byteIndex = 0; byteIndex < payload.length; byteIndex++) {
+      crypto.getRandomValues(coefficients)
+      coefficients[0] = payload[byteIndex]
+
+      for (let i = 0; i < parts; i++) {
+        shareData[i][byteIndex] = gfEvaluate(coefficients, i + 1)
       }
-      shares.push(JSON.stringify(shareData))
     }
-    
-    return shares
+
+    return shareData.map((data, i) => encodeShare({
+      setId,
+      threshold,
+      index: i + 1,
+      will,
+      data
+    }))
+  }
+
+  // The will a share recovers the key for, if it names one
+  static shareWill(share: string): ShareWill | undefined {
+    return decodeShare(share.trim(), 1).will
   }
 
-  // Combine secret parts (simple implementation)
-  static combineSecretParts(shares: string[], passwords: string[]): string {
-    if (shares.length !== passwords.length) {
-      throw new Error('Number of shares and passwords must match')
+  // Reconstruct a secret from at least `threshold` shares produced by splitSecret
+  static combineSecretParts(shares: string[]): string {
+    if (shares.length === 0) {
+      throw new Error('No shares provided')
     }
-    
-    try {
-      // Simple combination - decrypt all shares and verify they match
-      let reconstructedSecret = ''
-      
-      for (let i = 0; i < shares.length; i++) {
-        const shareData = JSON.parse(shares[i])
-        const decryptedSecret = CryptoJS.AES.decrypt(
-          shareData.encryptedSecret, 
-          passwords[i]
-        ).toString(CryptoJS.enc.Utf8)
-        
-        if (!reconstructedSecret) {
-          reconstructedSecret = decryptedSecret
-        } else if (reconstructedSecret !== decryptedSecret) {
-          throw new Error('Secret parts do not match')
+
+    const decoded = shares.map((share, i) => decodeShare(share.trim(), i + 1))
+    const { setId, threshold } = decoded[0]
+    const will = shareWillField(decoded[0].will)
+
+    for (const share of decoded) {
+      if (share.setId !== setId || share.threshold !== threshold || shareWillField(share.will) !== will) {
+        throw new Error('Shares belong to different secrets and cannot be combined')
+      }
+      if (share.data.length !== decoded[0].data.length) {
+        throw new Error(`Share ${share.index} has an unexpected length`)
+      }
+    }
+
+    const indexes = new Set(decoded.map(share => share.index))
+    if (indexes.size !== decoded.length) {
+      throw new Error('Duplicate shares provided')
+    }
+    if (decoded.length < threshold) {
+      throw new Error(`At least ${threshold} shares are required, got ${decoded.length}`)
+    }
+
+    // Interpolate at x = 0 using exactly `threshold` shares
+    const used = decoded.slice(0, threshold)
+    const payload = new Uint8Array(used[0].data.length)
+
+    for (let i = 0; i < used.length; i++) {
+      let basis = 1
+      for (let j = 0; j < used.length; j++) {
+        if (i !== j) {
+          basis = gfMul(basis, gfDiv(used[j].index, used[j].index ^ used[i].index))
         }
       }
-      
-      return reconstructedSecret
-    } catch (error) {
-      console.error('Secret combination error:', error)
-      throw new Error('Failed to combine secret parts')
+      for (let byteIndex = 0; byteIndex < payload.length; byteIndex++) {
+        payload[byteIndex] ^= gfMul(used[i].data[byteIndex], basis)
+      }
     }
+
+    const secretBytes = payload.slice(0, payload.length - SHARE_DIGEST_BYTES)
+    const digest = payload.slice(payload.length - SHARE_DIGEST_BYTES)
+
+    if (bytesToHex(digest) !== bytesToHex(secretDigest(secretBytes))) {
+      throw new Error('Reconstructed secret failed verification - one or more shares are corrupted')
+    }
+
+    return bytesToUtf8(secretBytes)
   }
 }
 
-// Password strength validation
-export class PasswordValidator {
-  static validateStrength(password: string): {
-    isValid: boolean
-    score: number
-    feedback: string[]
-  } {
-    const feedback: string[] = []
-    let score = 0
+// Shamir secret sharing over GF(256), using the AES reduction polynomial x^8 + x^4 + x^3 + x + 1
+const SHARE_VERSION = 'wss1'
+const SHARE_DIGEST_BYTES = 4
+const SHARE_CHECKSUM_CHARS = 8
+
+const GF_EXP = new Uint8Array(510)
+const GF_LOG = new Uint8Array(256)
+
+for (let i = 0, x = 1; i < 255; i++) {
+  GF_EXP[i] = x
+  GF_EXP[i + 255] = x
+  GF_LOG[x] = i
+  // Multiply by the generator 0x03
+  x ^= ((x << 1) ^ (x & 0x80 ? 0x1b : 0)) & 0xff
+}
 
-    // Length check
-    if (password.length >= 12) {
-      score += 2
-    } else if (password.length >= 8) {
-      score += 1
-    } else {
-      feedback.push('Password should be at least 8 characters long')
+function gfMul(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0
+  return GF_EXP[GF_LOG[a] + GF_LOG[b]]
+}
+
+function gfDiv(a: number, b: number): number {
+  if (b === 0) throw new Error('Division by zero in GF(256)')
+  if (a === 0) return 0
+  return GF_EXP[GF_LOG[a] + 255 - GF_LOG[b]]
+}
+
+// Evaluate a polynomial at x using Horner's method
+function gfEvaluate(coefficients: Uint8Array, x: number): number {
+  let result = 0
+  for (let i = coefficients.length - 1; i >= 0; i--) {
+    result = gfMul(result, x) ^ coefficients[i]
+  }
+  return result
+}
+
+interface SecretShare {
+  setId: string
+  threshold: number
+  index: number
+  will?: ShareWill
+  data: Uint8Array
+}
+
+// Shares are encoded as `wss1-<setId>-<threshold>-<index>-<will>-<data>-<checksum>`,
+// where <will> is `<tokenId>.<creator>` or `none`
+function encodeShare(share: SecretShare): string {
+  const body = [
+    SHARE_VERSION,
+    share.setId,
+    share.threshold,
+    share.index,
+    shareWillField(share.will),
+    bytesToHex(share.data)
+  ].join('-')
+  return `${body}-${shareChecksum(body)}`
+}
+
+function shareWillField(will?: ShareWill): string {
+  return will ? `${will.tokenId}.${will.creator.toLowerCase()}` : 'none'
+}
+
+function parseShareWillField(field: string): ShareWill | undefined | null {
+  if (field === 'none') return undefined
+  const match = /^(\d+)\.(0x[0-9a-f]{40})$/.exec(field)
+  return match ? { tokenId: BigInt(match[1]), creator: match[2] as `0x${string}` } : null
+}
+
+function decodeShare(encoded: string, position: number): SecretShare {
+  const fields = encoded.split('-')
+
+  if (fields[0] !== SHARE_VERSION) {
+    throw new Error(`Share ${position} has an unsupported format`)
+  }
+  if (fields.length !== 7) {
+    throw new Error(`Share ${position} is malformed`)
+  }
+
+  const [, setId, thresholdField, indexField, willField, dataHex, checksum] = fields
+  const body = fields.slice(0, 6).join('-')
+
+  if (shareChecksum(body) !== checksum.toLowerCase()) {
+    throw new Error(`Share ${position} is corrupted (checksum mismatch)`)
+  }
+
+  const threshold = Number(thresholdField)
+  const index = Number(indexField)
+  const will = parseShareWillField(willField)
+
+  if (
+    !Number.isInteger(threshold) || !Number.isInteger(index) ||
+    threshold < 2 || threshold > 255 || index < 1 || index > 255 ||
+    will === null || !/^([0-9a-f]{2})+$/.test(dataHex)
+  ) {
+    throw new Error(`Share ${position} is malformed`)
+  }
+
+  return { setId, threshold, index, will, data: hexToBytes(dataHex) }
+}
+
+function shareChecksum(body: string): string {
+  return CryptoJS.SHA256(body).toString().slice(0, SHARE_CHECKSUM_CHARS)
+}
+
+function secretDigest(secretBytes: Uint8Array): Uint8Array {
+  const hash = CryptoJS.SHA256(CryptoJS.enc.Hex.parse(bytesToHex(secretBytes))).toString()
+  return hexToBytes(hash.slice(0, SHARE_DIGEST_BYTES * 2))
+}
+
+// Uniform random integer in [0, max) from the CSPRNG. Values from the biased
+// tail of the 32-bit range are rejected rather than reduced modulo `max`.
+function randomIndex(max: number): number {
+  if (!Number.isInteger(max) || max < 1 || max > 2 ** 32) {
+    throw new Error(`Invalid random range: ${max}`)
+  }
+
+  const limit = 2 ** 32 - (2 ** 32 % max)
+  const buffer = new Uint32Array(1)
+
+  for (;;) {
+    crypto.getRandomValues(buffer)
+    if (buffer[0] < limit) {
+      return buffer[0] % max
     }
+  }
+}
 
-    // Character variety checks
-    if (/[a-z]/.test(password)) score += 1
-    else feedback.push('Include lowercase letters')
+async function sealEnvelope(
+  plaintext: Uint8Array<ArrayBuffer>,
+  secret: string,
+  method: SecretMethod,
+  options: EnvelopeOptions
+): Promise<EncryptionEnvelope> {
+  const kdf: KdfName = method === 'password' ? options.kdf ?? DEFAULT_PASSWORD_KDF : 'HKDF-SHA256'
+  const kdfParams: KdfParams = kdf === 'HKDF-SHA256'
+    ? { info: HKDF_INFO, ...options.kdfParams }
+    : { ...PASSWORD_KDF_PARAMS[kdf], ...options.kdfParams }
+  const salt = options.salt ?? crypto.getRandomValues(new Uint8Array(16))
+  const iv = crypto.getRandomValues(new Uint8Array(12))
 
-    if (/[A-Z]/.test(password)) score += 1
-    else feedback.push('Include uppercase letters')
+  const header: EnvelopeHeader = {
+    version: ENVELOPE_VERSION,
+    alg: 'AES-256-GCM',
+    kdf,
+    kdfParams,
+    salt: bytesToBase64(salt),
+    iv: bytesToBase64(iv),
+    method
+  }
 
-    if (/[0-9]/.test(password)) score += 1
-    else feedback.push('Include numbers')
+  const key = await deriveEnvelopeKey(secret, kdf, kdfParams, salt)
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: envelopeAad(header) },
+    key,
+    plaintext
+  )
 
-    if (/[^A-Za-z0-9]/.test(password)) score += 1
-    else feedback.push('Include special characters')
+  return { ...header, ciphertext: bytesToBase64(new Uint8Array(ciphertext)) }
+}
 
-    // Avoid common patterns
-    if (!/(.)\1{2,}/.test(password)) score += 1
-    else feedback.push('Avoid repeating characters')
+async function openEnvelope(envelope: EncryptionEnvelope, secret: string): Promise<Uint8Array<ArrayBuffer>> {
+  if (envelope.version !== ENVELOPE_VERSION || envelope.alg !== 'AES-256-GCM') {
+    throw new Error(`Unsupported encryption envelope: v${envelope.version} ${envelope.alg}`)
+  }
 
-    const isValid = score >= 5
-    
-    return {
-      isValid,
-      score,
-      feedback
+  const { ciphertext, ...header } = envelope
+  const key = await deriveEnvelopeKey(
+    secret,
+    envelope.kdf,
+    envelope.kdfParams,
+    base64ToBytes(envelope.salt)
+  )
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(envelope.iv), additionalData: envelopeAad(header) },
+      key,
+      base64ToBytes(ciphertext)
+    )
+    return new Uint8Array(plaintext)
+  } catch {
+    throw new Error('Decryption failed - wrong key or the data has been tampered with')
+  }
+}
+
+function importContentKey(contentKey: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  if (contentKey.length !== 32) {
+    throw new Error('Content key must be 32 bytes')
+  }
+  return crypto.subtle.importKey('raw', contentKey, 'AES-GCM', false, ['encrypt', 'decrypt'])
+}
+
+// Envelope key derivation. Passwords are stretched with the recorded password
+// KDF; wallet and passkey secrets already carry full entropy and only need HKDF
+// domain separation.
+async function deriveEnvelopeKey(
+  secret: string,
+  kdf: KdfName,
+  kdfParams: KdfParams,
+  salt: Uint8Array<ArrayBuffer>
+): Promise<CryptoKey> {
+  if (kdf === 'HKDF-SHA256') {
+    const baseKey = await crypto.subtle.importKey('raw', utf8ToBytes(secret), 'HKDF', false, ['deriveKey'])
+    return crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt, info: utf8ToBytes(kdfParams.info ?? HKDF_INFO) },
+      baseKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    )
+  }
+
+  const keyBytes = await derivePasswordKeyBytes(secret, kdf, kdfParams, salt)
+  return crypto.subtle.importKey('raw', keyBytes, 'AES-GCM', false, ['encrypt', 'decrypt'])
+}
+
+// Stretch a password into 32 key bytes. PBKDF2 runs natively; scrypt and
+// argon2id run in JS and yield to the event loop while they work.
+async function derivePasswordKeyBytes(
+  password: string,
+  kdf: PasswordKdf,
+  kdfParams: KdfParams,
+  salt: Uint8Array<ArrayBuffer>
+): Promise<Uint8Array<ArrayBuffer>> {
+  switch (kdf) {
+    case 'PBKDF2-SHA256': {
+      const iterations = kdfParams.iterations ?? PBKDF2_ITERATIONS
+      if (!Number.isInteger(iterations) || iterations < 1 || iterations > MAX_PBKDF2_ITERATIONS) {
+        throw new Error(`Unsupported PBKDF2 iteration count: ${iterations}`)
+      }
+
+      const baseKey = await crypto.subtle.importKey('raw', utf8ToBytes(password), 'PBKDF2', false, ['deriveBits'])
+      const bits = await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        baseKey,
+        256
+      )
+      return new Uint8Array(bits)
+    }
+    case 'SCRYPT': {
+      const { N = 0, r = 0, p = 0 } = kdfParams
+      if (128 * N * r * p > MAX_KDF_MEMORY_BYTES) {
+        throw new Error(`Unsupported scrypt parameters: N=${N} r=${r} p=${p}`)
+      }
+
+      const key = await scryptAsync(password, salt, { N, r, p, dkLen: 32, maxmem: MAX_KDF_MEMORY_BYTES + 1024 })
+      return new Uint8Array(key)
     }
+    case 'ARGON2ID': {
+      const { iterations: t = 0, memory: m = 0, parallelism: p = 0 } = kdfParams
+      if (!Number.isInteger(t) || t < 1 || t > MAX_ARGON2_PASSES) {
+        throw new Error(`Unsupported argon2id pass count: ${t}`)
+      }
+      if (m * 1024 > MAX_KDF_MEMORY_BYTES) {
+        throw new Error(`Unsupported argon2id memory cost: ${m} KiB`)
+      }
+
+      const key = await argon2idAsync(password, salt, { t, m, p, dkLen: 32 })
+      return new Uint8Array(key)
+    }
+    default:
+      throw new Error(`Unsupported password KDF: ${kdf}`)
+  }
+}
+
+// The envelope header is authenticated as additional data, so tampering with
+// the KDF parameters or method is detected just like tampering with the ciphertext
+function envelopeAad(header: EnvelopeHeader): Uint8Array<ArrayBuffer> {
+  return utf8ToBytes(canonicalJson(header))
+}
+
+// Deterministic JSON with sorted object keys
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+// Byte helpers
+function utf8ToBytes(text: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(text)
+}
+
+function bytesToUtf8(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes)
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function hexToBytes(hex: string): Uint8Array<ArrayBuffer> {
+  if (hex.length % 2 !== 0 || /[^0-9a-fA-F]/.test(hex)) {
+    throw new Error('Invalid hex string')
+  }
+  const bytes = new Uint8Array(hex.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+  }
+  return bytes
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+function concatBytes(...arrays: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(arrays.reduce((total, array) => total + array.length, 0))
+  let offset = 0
+  for (const array of arrays) {
+    result.set(array, offset)
+    offset += array.length
+  }
+  return result
+}
+
+// Password strength validation
+export interface PasswordValidation extends PasswordStrength {
+  isValid: boolean
+  // Warning first, then suggestions
+  feedback: string[]
+}
+
+// Will ciphertext is public on IPFS, so passwords must hold up to an offline
+// attack: at least 10^10 guesses (score 4)
+export const MIN_PASSWORD_SCORE = 4
+
+export class PasswordValidator {
+  // Estimate strength with dictionary, keyboard, sequence, repeat and date detection.
+  // `userInputs` (names, addresses, the will title) are treated as guessable words.
+  static validateStrength(password: string, userInputs: string[] = []): PasswordValidation {
+    const strength = estimatePasswordStrength(password, userInputs)
+    const feedback = [strength.warning, ...strength.suggestions].filter(Boolean)
+    const isValid = strength.score >= MIN_PASSWORD_SCORE
+
+    if (!isValid && feedback.length === 0) {
+      feedback.push('Add another word or two. Uncommon words are better.')
+    }
+
+    return { ...strength, isValid, feedback }
   }
 
   static generateStrongPassword(): string {
@@ -226,26 +942,872 @@ export class PasswordValidator {
   }
 }
 
+// Inputs that bind a wallet-derived key to a single will
+export interface WalletKeyBinding {
+  chainId: number
+  verifyingContract: `0x${string}`
+  creator: `0x${string}`
+  salt: `0x${string}`
+}
+
+const WALLET_KEY_PURPOSE = 'Derive the encryption key for a WillsDAO will'
+
 // Key derivation for wallet-based encryption
 export class WalletEncryption {
-  // Derive encryption key from wallet signature
-  static async deriveKeyFromSignature(
-    message: string,
-    signature: string
-  ): Promise<string> {
-    // Use the signature as entropy for key derivation
-    const hash = CryptoJS.SHA256(signature + message)
-    return hash.toString()
+  // EIP-712 types for the key derivation request
+  static readonly keyDerivationTypes = {
+    WillEncryptionKey: [
+      { name: 'purpose', type: 'string' },
+      { name: 'creator', type: 'address' },
+      { name: 'salt', type: 'bytes32' }
+    ]
+  } as const
+
+  // Build the typed data the creator signs to derive a will's key. The request
+  // contains no timestamps, so signing it again on any device yields the same
+  // signature (wallets sign deterministically per RFC 6979) and the same key.
+  static createKeyDerivationTypedData(binding: WalletKeyBinding) {
+    return {
+      domain: {
+        name: 'WillsDAO',
+        version: '1',
+        chainId: binding.chainId,
+        verifyingContract: binding.verifyingContract
+      },
+      types: this.keyDerivationTypes,
+      primaryType: 'WillEncryptionKey' as const,
+      message: {
+        purpose: WALLET_KEY_PURPOSE,
+        creator: binding.creator,
+        salt: binding.salt
+      }
+    }
   }
 
-  // Create a message for wallet signing that includes will metadata
-  static createSigningMessage(willTitle: string, createdAt: string): string {
-    return `WillsDAO Encryption Key
-    
-Will Title: ${willTitle}
-Created: ${createdAt}
-Timestamp: ${Date.now()}
+  // Generate a fresh per-will salt
+  static generateWillSalt(): `0x${string}` {
+    return `0x${bytesToHex(crypto.getRandomValues(new Uint8Array(32)))}`
+  }
+
+  // Envelope options recording the binding, so the key can be re-derived later.
+  // Private wills leave the creator out; the creator supplies it again on unlock.
+  static envelopeOptions(binding: WalletKeyBinding, recordCreator = true): EnvelopeOptions {
+    return {
+      salt: hexToBytes(binding.salt.slice(2)),
+      kdfParams: {
+        chainId: binding.chainId,
+        verifyingContract: binding.verifyingContract,
+        creator: recordCreator ? binding.creator : undefined
+      }
+    }
+  }
+
+  // Recover the binding from a wallet-encrypted envelope or key wrap. `account`
+  // stands in for the creator when the envelope does not record one.
+  static bindingFromEnvelope(envelope: EncryptionEnvelope, account?: string): WalletKeyBinding {
+    const { chainId, verifyingContract } = envelope.kdfParams
+    const creator = envelope.kdfParams.creator ?? account
+
+    if (envelope.method !== 'wallet' || !chainId || !verifyingContract || !creator) {
+      throw new Error('Envelope does not contain a wallet key binding')
+    }
+
+    return {
+      chainId,
+      verifyingContract: verifyingContract as `0x${string}`,
+      creator: creator as `0x${string}`,
+      salt: `0x${bytesToHex(base64ToBytes(envelope.salt))}`
+    }
+  }
+
+  // Ask the wallet for its x25519 encryption public key (base64)
+  static async getEncryptionPublicKey(provider: EncryptionProvider, account: `0x${string}`): Promise<string> {
+    const publicKey = await provider.request({
+      method: 'eth_getEncryptionPublicKey',
+      params: [account]
+    })
+
+    if (typeof publicKey !== 'string') {
+      throw new Error('Wallet did not return an encryption public key')
+    }
+    return publicKey
+  }
+
+  // Encrypt a UTF-8 string to an encryption public key, in the format eth_decrypt expects
+  static encryptForPublicKey(data: string, publicKey: string): EthEncryptedData {
+    const ephemeralKeyPair = nacl.box.keyPair()
+    const nonce = nacl.randomBytes(nacl.box.nonceLength)
+    const ciphertext = nacl.box(
+      utf8ToBytes(data),
+      nonce,
+      base64ToBytes(publicKey),
+      ephemeralKeyPair.secretKey
+    )
+
+    return {
+      version: 'x25519-xsalsa20-poly1305',
+      nonce: bytesToBase64(nonce),
+      ephemPublicKey: bytesToBase64(ephemeralKeyPair.publicKey),
+      ciphertext: bytesToBase64(ciphertext)
+    }
+  }
+
+  // Wrap a content key to a wallet's encryption public key. The key is
+  // base64 encoded because eth_decrypt returns a string. Private wills leave
+  // the recipient out so the document does not name the wallet.
+  static wrapKeyForWallet(
+    contentKey: Uint8Array<ArrayBuffer>,
+    publicKey: string,
+    recipient: `0x${string}`,
+    recordRecipient = true
+  ): MetaMaskKeyWrap {
+    return {
+      method: 'metamask',
+      recipient: recordRecipient ? recipient.toLowerCase() : undefined,
+      encryptedData: this.encryptForPublicKey(bytesToBase64(contentKey), publicKey)
+    }
+  }
+
+  // Have `account`'s wallet decrypt a wrapped content key. The key never
+  // leaves the wallet in a form that could decrypt anything else.
+  static async unwrapKeyWithWallet(
+    provider: EncryptionProvider,
+    wrap: MetaMaskKeyWrap,
+    account: string
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    const payload = `0x${bytesToHex(utf8ToBytes(JSON.stringify(wrap.encryptedData)))}`
+    const decrypted = await provider.request({
+      method: 'eth_decrypt',
+      params: [payload, wrap.recipient ?? account]
+    })
 
-By signing this message, you authorize the creation of an encryption key for your will document.`
+    if (typeof decrypted !== 'string') {
+      throw new Error('Wallet did not return decrypted data')
+    }
+    return base64ToBytes(decrypted)
   }
-}
\ No newline at end of file
+
+  // Wallet-encrypted wraps an account may open: the one addressed to it,
+  // then any that name no recipient
+  static findKeyWraps(keys: KeyWrap[], account: string): MetaMaskKeyWrap[] {
+    const wraps = keys.filter((wrap): wrap is MetaMaskKeyWrap => wrap.method === 'metamask')
+    return candidateWraps(wraps, account)
+  }
+
+  // Derive encryption key material from a key derivation signature
+  static async deriveKeyFromSignature(signature: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', hexToBytes(signature.replace(/^0x/, '')))
+    return bytesToHex(new Uint8Array(digest))
+  }
+}
+
+const RECIPIENT_KEY_PURPOSE = 'Derive my WillsDAO recipient encryption key'
+const ECIES_INFO = 'WillsDAO ECIES key wrap'
+
+// Per-recipient key wrapping with ECIES over secp256k1.
+//
+// Wallets do not expose their private keys, so each recipient derives a
+// dedicated encryption key pair from a deterministic signature and publishes
+// the public half in a registration signed by their wallet. Recovering the
+// registration signature proves the encryption key belongs to that address.
+export class RecipientEncryption {
+  static readonly domain = { name: 'WillsDAO', version: '1' } as const
+
+  static readonly keyDerivationTypes = {
+    RecipientEncryptionKey: [
+      { name: 'purpose', type: 'string' },
+      { name: 'account', type: 'address' }
+    ]
+  } as const
+
+  static readonly registrationTypes = {
+    KeyRegistration: [
+      { name: 'account', type: 'address' },
+      { name: 'publicKey', type: 'bytes' }
+    ]
+  } as const
+
+  // Typed data whose signature seeds the recipient's encryption key. The
+  // signature is never published.
+  static createKeyDerivationTypedData(account: `0x${string}`) {
+    return {
+      domain: this.domain,
+      types: this.keyDerivationTypes,
+      primaryType: 'RecipientEncryptionKey' as const,
+      message: { purpose: RECIPIENT_KEY_PURPOSE, account }
+    }
+  }
+
+  // Typed data the recipient signs to publish their encryption public key
+  static createRegistrationTypedData(account: `0x${string}`, publicKey: `0x${string}`) {
+    return {
+      domain: this.domain,
+      types: this.registrationTypes,
+      primaryType: 'KeyRegistration' as const,
+      message: { account, publicKey }
+    }
+  }
+
+  // Derive the recipient key pair from a key derivation signature
+  static async deriveKeyPair(signature: string): Promise<{
+    privateKey: Uint8Array
+    publicKey: `0x${string}`
+  }> {
+    const digest = await crypto.subtle.digest('SHA-256', hexToBytes(signature.replace(/^0x/, '')))
+    const privateKey = new Uint8Array(digest)
+
+    if (!secp256k1.utils.isValidPrivateKey(privateKey)) {
+      throw new Error('Signature does not yield a valid encryption key')
+    }
+
+    return {
+      privateKey,
+      publicKey: `0x${bytesToHex(secp256k1.getPublicKey(privateKey, true))}`
+    }
+  }
+
+  // Check that a registration was signed by the address it names
+  static async verifyRegistration(registration: KeyRegistration): Promise<boolean> {
+    try {
+      secp256k1.ProjectivePoint.fromHex(registration.publicKey.slice(2))
+
+      const signer = await recoverTypedDataAddress({
+        ...this.createRegistrationTypedData(registration.address, registration.publicKey),
+        signature: registration.signature
+      })
+      return signer.toLowerCase() === registration.address.toLowerCase()
+    } catch {
+      return false
+    }
+  }
+
+  // Wrap a content key to a verified registration. Private wills leave the
+  // recipient out of the wrap, and so out of the authenticated header.
+  static async wrapKey(
+    contentKey: Uint8Array<ArrayBuffer>,
+    registration: KeyRegistration,
+    recordRecipient = true
+  ): Promise<EciesKeyWrap> {
+    if (!(await this.verifyRegistration(registration))) {
+      throw new Error(`Invalid key registration for ${registration.address}`)
+    }
+
+    const recipientPublicKey = hexToBytes(registration.publicKey.slice(2))
+    const ephemeralPrivateKey = secp256k1.utils.randomPrivateKey()
+    const ephemeralPublicKey = secp256k1.getPublicKey(ephemeralPrivateKey, true)
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+
+    const header: Omit<EciesKeyWrap, 'ciphertext'> = {
+      method: 'ecies',
+      alg: 'ECIES-SECP256K1-HKDF-SHA256-AES-256-GCM',
+      recipient: recordRecipient ? registration.address.toLowerCase() : undefined,
+      ephemeralPublicKey: bytesToHex(ephemeralPublicKey),
+      iv: bytesToBase64(iv)
+    }
+
+    const key = await deriveEciesKey(
+      secp256k1.getSharedSecret(ephemeralPrivateKey, recipientPublicKey, true),
+      ephemeralPublicKey,
+      recipientPublicKey
+    )
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: utf8ToBytes(canonicalJson(header)) },
+      key,
+      contentKey
+    )
+
+    return { ...header, ciphertext: bytesToBase64(new Uint8Array(ciphertext)) }
+  }
+
+  // Unwrap a content key with the recipient's derived private key
+  static async unwrapKey(wrap: EciesKeyWrap, privateKey: Uint8Array): Promise<Uint8Array<ArrayBuffer>> {
+    const { ciphertext, ...header } = wrap
+    const ephemeralPublicKey = hexToBytes(wrap.ephemeralPublicKey)
+    const recipientPublicKey = secp256k1.getPublicKey(privateKey, true)
+
+    const key = await deriveEciesKey(
+      secp256k1.getSharedSecret(privateKey, ephemeralPublicKey, true),
+      ephemeralPublicKey,
+      recipientPublicKey
+    )
+
+    try {
+      const contentKey = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: base64ToBytes(wrap.iv), additionalData: utf8ToBytes(canonicalJson(header)) },
+        key,
+        base64ToBytes(ciphertext)
+      )
+      return new Uint8Array(contentKey)
+    } catch {
+      throw new Error('Failed to unwrap key - it was not wrapped for this account')
+    }
+  }
+
+  // Wraps an account may open: the one addressed to it, then any that name no recipient
+  static findKeyWraps(keys: KeyWrap[], account: string): EciesKeyWrap[] {
+    const wraps = keys.filter((wrap): wrap is EciesKeyWrap => wrap.method === 'ecies')
+    return candidateWraps(wraps, account)
+  }
+
+  // Unwrap the first of several wraps that opens with the private key
+  static async unwrapAnyKey(wraps: EciesKeyWrap[], privateKey: Uint8Array): Promise<Uint8Array<ArrayBuffer>> {
+    for (const wrap of wraps) {
+      try {
+        return await this.unwrapKey(wrap, privateKey)
+      } catch {
+        continue
+      }
+    }
+    throw new Error('Failed to unwrap key - it was not wrapped for this account')
+  }
+}
+
+// The wraps addressed to an account first, then those that do not say who they are for
+function candidateWraps<T extends { recipient?: string }>(wraps: T[], account: string): T[] {
+  const addressed = wraps.filter(wrap => wrap.recipient === account.toLowerCase())
+  return [...addressed, ...wraps.filter(wrap => wrap.recipient === undefined)]
+}
+
+// HKDF over the ECDH x-coordinate, salted with both public keys
+async function deriveEciesKey(
+  sharedPoint: Uint8Array,
+  ephemeralPublicKey: Uint8Array,
+  recipientPublicKey: Uint8Array
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new Uint8Array(sharedPoint.subarray(1)),
+    'HKDF',
+    false,
+    ['deriveKey']
+  )
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: concatBytes(ephemeralPublicKey, recipientPublicKey),
+      info: utf8ToBytes(ECIES_INFO)
+    },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+export type SignatureStatus = 'verified' | 'failed' | 'unsigned'
+
+// Creator signatures over will plaintext. The signed digest covers the
+// canonical JSON of the whole content object, so any field changed after
+// signing - including by someone who knows the password - fails verification.
+export class ContentSignature {
+  static readonly domain = { name: 'WillsDAO', version: '1' } as const
+
+  static readonly types = {
+    WillContent: [
+      { name: 'creator', type: 'address' },
+      { name: 'title', type: 'string' },
+      { name: 'createdAt', type: 'string' },
+      { name: 'lastModified', type: 'string' },
+      { name: 'contentHash', type: 'bytes32' }
+    ]
+  } as const
+
+  // keccak256 of the canonicalized plaintext
+  static contentHash(content: object): `0x${string}` {
+    return keccak256(utf8ToBytes(canonicalJson(content)))
+  }
+
+  // Typed data the creator signs when storing a will. Title and timestamps are
+  // included so the wallet prompt shows what is being signed.
+  static createTypedData(
+    creator: `0x${string}`,
+    content: { title: string; createdAt: string; lastModified: string }
+  ) {
+    return {
+      domain: this.domain,
+      types: this.types,
+      primaryType: 'WillContent' as const,
+      message: {
+        creator,
+        title: content.title,
+        createdAt: content.createdAt,
+        lastModified: content.lastModified,
+        contentHash: this.contentHash(content)
+      }
+    }
+  }
+
+  // Check a decrypted will's signature against the creator recorded on-chain
+  static async verify(
+    content: { title: string; createdAt: string; lastModified: string },
+    signature: `0x${string}` | undefined,
+    creator: string
+  ): Promise<SignatureStatus> {
+    if (!signature) return 'unsigned'
+
+    try {
+      const signer = await recoverTypedDataAddress({
+        ...this.createTypedData(creator as `0x${string}`, content),
+        signature
+      })
+      return signer.toLowerCase() === creator.toLowerCase() ? 'verified' : 'failed'
+    } catch {
+      return 'failed'
+    }
+  }
+}
+
+const PASSKEY_RP_NAME = 'WillsDAO'
+
+// Passkey-based encryption using the WebAuthn PRF extension. The authenticator
+// evaluates an HMAC over a per-will salt; that output is the key-encryption key
+// input, so the will key is tied to the passkey rather than a wallet or password.
+// Works with any PRF-capable authenticator, including WebDriver virtual
+// authenticators created with `hasPrf: true`.
+export class PasskeyEncryption {
+  // Check for WebAuthn support. PRF support can only be confirmed by a ceremony.
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && !!window.PublicKeyCredential && !!navigator.credentials
+  }
+
+  // Generate a fresh per-will PRF salt (base64)
+  static generatePrfSalt(): string {
+    return bytesToBase64(crypto.getRandomValues(new Uint8Array(32)))
+  }
+
+  // Register a new passkey with the PRF extension enabled. Returns the credential
+  // id (base64url) and the PRF output for `prfSalt` when the authenticator
+  // provides it during registration.
+  static async createCredential(account: string, prfSalt: string): Promise<{
+    credentialId: string
+    secret: string | null
+  }> {
+    const credential = await navigator.credentials.create({
+      publicKey: {
+        rp: { name: PASSKEY_RP_NAME },
+        user: {
+          id: crypto.getRandomValues(new Uint8Array(16)),
+          name: account,
+          displayName: `WillsDAO ${account.slice(0, 6)}...${account.slice(-4)}`
+        },
+        challenge: crypto.getRandomValues(new Uint8Array(32)),
+        pubKeyCredParams: [
+          { type: 'public-key', alg: -7 },
+          { type: 'public-key', alg: -257 }
+        ],
+        authenticatorSelection: {
+          residentKey: 'preferred',
+          userVerification: 'required'
+        },
+        extensions: { prf: { eval: { first: base64ToBytes(prfSalt) } } }
+      }
+    }) as PublicKeyCredential | null
+
+    if (!credential) {
+      throw new Error('Passkey creation was cancelled')
+    }
+
+    const prf = credential.getClientExtensionResults().prf
+    if (!prf?.enabled) {
+      throw new Error('This authenticator does not support the PRF extension')
+    }
+
+    const output = prf.results?.first
+    return {
+      credentialId: bytesToBase64Url(new Uint8Array(credential.rawId)),
+      secret: output ? bytesToHex(bufferSourceToBytes(output)) : null
+    }
+  }
+
+  // Evaluate the PRF for an existing passkey, returning the secret used to wrap keys
+  static async evaluatePrf(credentialId: string, prfSalt: string): Promise<string> {
+    const assertion = await navigator.credentials.get({
+      publicKey: {
+        challenge: crypto.getRandomValues(new Uint8Array(32)),
+        allowCredentials: [{ type: 'public-key', id: base64UrlToBytes(credentialId) }],
+        userVerification: 'required',
+        extensions: { prf: { eval: { first: base64ToBytes(prfSalt) } } }
+      }
+    }) as PublicKeyCredential | null
+
+    const output = assertion?.getClientExtensionResults().prf?.results?.first
+    if (!output) {
+      throw new Error('Passkey did not return a PRF result')
+    }
+
+    return bytesToHex(bufferSourceToBytes(output))
+  }
+
+  // Envelope options recording the passkey, so the key can be re-derived later
+  static envelopeOptions(credentialId: string, prfSalt: string): EnvelopeOptions {
+    return { kdfParams: { credentialId, prfSalt } }
+  }
+
+  // Read the passkey binding back from a passkey-wrapped envelope
+  static bindingFromEnvelope(envelope: EncryptionEnvelope): { credentialId: string; prfSalt: string } {
+    const { credentialId, prfSalt } = envelope.kdfParams
+
+    if (envelope.method !== 'passkey' || !credentialId || !prfSalt) {
+      throw new Error('Envelope does not contain a passkey binding')
+    }
+    return { credentialId, prfSalt }
+  }
+}
+
+function bufferSourceToBytes(source: BufferSource): Uint8Array {
+  return ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength)
+    : new Uint8Array(source)
+}
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function base64UrlToBytes(base64Url: string): Uint8Array<ArrayBuffer> {
+  const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/')
+  return base64ToBytes(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='))
+}
+
+// Offline backup of a will's content key. The key is encoded as a 24-word
+// BIP39 phrase (the last word carries an 8-bit checksum) alongside the
+// details needed to find the will again.
+export interface RecoveryKitData {
+  version: 1
+  tokenId: string
+  cid: string
+  chainId: number
+  contract: string
+  words: string[]
+  createdAt: string
+}
+
+const RECOVERY_KIT_VERSION = 1
+
+export class RecoveryKit {
+  // Encode a 256-bit content key as a 24-word phrase
+  static encodeContentKey(contentKey: Uint8Array): string[] {
+    if (contentKey.length !== 32) {
+      throw new Error('Content key must be 32 bytes')
+    }
+    return entropyToMnemonic(contentKey, wordlist).split(' ')
+  }
+
+  // Decode a recovery phrase back into the content key, verifying its checksum
+  static decodeContentKey(phrase: string | string[]): Uint8Array<ArrayBuffer> {
+    const words = (Array.isArray(phrase) ? phrase.join(' ') : phrase)
+      .trim()
+      .toLowerCase()
+      .split(/\s+/)
+
+    if (words.length !== 24) {
+      throw new Error(`Recovery phrase must have 24 words, got ${words.length}`)
+    }
+
+    const unknown = words.filter(word => !wordlist.includes(word))
+    if (unknown.length > 0) {
+      throw new Error(`Unknown recovery words: ${unknown.join(', ')}`)
+    }
+
+    const mnemonic = words.join(' ')
+    if (!validateMnemonic(mnemonic, wordlist)) {
+      throw new Error('Recovery phrase checksum mismatch - check the word order')
+    }
+
+    return new Uint8Array(mnemonicToEntropy(mnemonic, wordlist))
+  }
+
+  static createKit(
+    contentKey: Uint8Array,
+    details: { tokenId: bigint | string; cid: string; chainId: number; contract: string }
+  ): RecoveryKitData {
+    return {
+      version: RECOVERY_KIT_VERSION,
+      tokenId: details.tokenId.toString(),
+      cid: details.cid,
+      chainId: details.chainId,
+      contract: details.contract,
+      words: this.encodeContentKey(contentKey),
+      createdAt: new Date().toISOString()
+    }
+  }
+
+  // Compact payload for the kit's QR code
+  static toQrPayload(kit: RecoveryKitData): string {
+    return canonicalJson(kit)
+  }
+
+  // Parse a scanned QR payload or a pasted phrase
+  static parse(text: string): { words: string[]; kit?: RecoveryKitData } {
+    const trimmed = text.trim()
+    if (trimmed.startsWith('{')) {
+      const kit = JSON.parse(trimmed) as RecoveryKitData
+      if (kit.version !== RECOVERY_KIT_VERSION || !Array.isArray(kit.words)) {
+        throw new Error('Unsupported recovery kit format')
+      }
+      this.decodeContentKey(kit.words)
+      return { words: kit.words, kit }
+    }
+
+    this.decodeContentKey(trimmed)
+    return { words: trimmed.toLowerCase().split(/\s+/) }
+  }
+}
+
+// Streaming encryption for file attachments. Files are split into fixed-size
+// chunks, each sealed with AES-256-GCM under a per-file key (HKDF of the
+// content key and a random salt). The nonce is a random prefix, the chunk
+// index and a final-chunk flag, so reordered, dropped or truncated chunks fail
+// authentication.
+//
+// Layout: header (32 bytes) || chunk_0 || ... || chunk_n, where each chunk is
+// chunkSize bytes of ciphertext plus a 16-byte tag and only the last may be
+// shorter. The header is authenticated with every chunk.
+//
+//   magic 'WDFS' (4) | version (1) | chunkSize u32 BE (4) | salt (16) | noncePrefix (7)
+const FILE_STREAM_MAGIC = 'WDFS'
+const FILE_STREAM_VERSION = 1
+const FILE_STREAM_HEADER_BYTES = 32
+const FILE_STREAM_SALT_BYTES = 16
+const FILE_STREAM_PREFIX_BYTES = 7
+const FILE_STREAM_TAG_BYTES = 16
+const FILE_STREAM_INFO = 'WillsDAO file stream key'
+const DEFAULT_FILE_CHUNK_SIZE = 64 * 1024
+const MAX_FILE_CHUNK_SIZE = 16 * 1024 * 1024
+const MAX_FILE_CHUNKS = 0xffffffff
+
+// Bytes that are not laid out as a FileEncryption stream
+export class InvalidEncryptedFileError extends Error {
+  readonly name = 'InvalidEncryptedFileError'
+}
+
+export class FileEncryption {
+  // Encrypting transform: `file.stream().pipeThrough(FileEncryption.encryptStream(key))`
+  static encryptStream(
+    contentKey: Uint8Array<ArrayBuffer>,
+    chunkSize = DEFAULT_FILE_CHUNK_SIZE
+  ): TransformStream<Uint8Array, Uint8Array> {
+    if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_FILE_CHUNK_SIZE) {
+      throw new Error('Invalid chunk size')
+    }
+
+    const header = new Uint8Array(FILE_STREAM_HEADER_BYTES)
+    header.set(utf8ToBytes(FILE_STREAM_MAGIC), 0)
+    header[4] = FILE_STREAM_VERSION
+    new DataView(header.buffer).setUint32(5, chunkSize)
+    crypto.getRandomValues(header.subarray(9))
+
+    const pending = new ByteQueue()
+    let key: CryptoKey
+    let index = 0
+
+    const seal = async (plaintext: Uint8Array<ArrayBuffer>, final: boolean) => {
+      const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv: fileChunkNonce(header, index, final), additionalData: header },
+        key,
+        plaintext
+      )
+      index++
+      return new Uint8Array(ciphertext)
+    }
+
+    return new TransformStream({
+      async start(controller) {
+        key = await deriveFileStreamKey(contentKey, header)
+        controller.enqueue(header)
+      },
+      // A full chunk is held back until more data arrives, since the last chunk is sealed differently
+      async transform(chunk, controller) {
+        pending.push(chunk)
+        while (pending.length > chunkSize) {
+          controller.enqueue(await seal(pending.take(chunkSize), false))
+        }
+      },
+      async flush(controller) {
+        controller.enqueue(await seal(pending.take(pending.length), true))
+      }
+    })
+  }
+
+  // Decrypting transform. Plaintext is released chunk by chunk once each chunk
+  // authenticates; a truncated stream errors at the end, so consumers must
+  // treat the output as incomplete until the stream closes without error.
+  static decryptStream(contentKey: Uint8Array<ArrayBuffer>): TransformStream<Uint8Array, Uint8Array> {
+    const pending = new ByteQueue()
+    let header: Uint8Array<ArrayBuffer> | null = null
+    let key: CryptoKey
+    let sealedChunkSize = 0
+    let index = 0
+
+    const open = async (ciphertext: Uint8Array<ArrayBuffer>, final: boolean) => {
+      if (!header) {
+        throw new Error('Encrypted file is truncated')
+      }
+      try {
+        const plaintext = await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: fileChunkNonce(header, index, final), additionalData: header },
+          key,
+          ciphertext
+        )
+        index++
+        return new Uint8Array(plaintext)
+      } catch {
+        throw new Error(final
+          ? 'File decryption failed - wrong key, or the file is truncated or corrupted'
+          : `File decryption failed at chunk ${index} - wrong key or corrupted data`)
+      }
+    }
+
+    return new TransformStream({
+      async transform(chunk, controller) {
+        pending.push(chunk)
+
+        if (!header) {
+          if (pending.length < FILE_STREAM_HEADER_BYTES) return
+          header = pending.take(FILE_STREAM_HEADER_BYTES)
+          sealedChunkSize = parseFileStreamHeader(header) + FILE_STREAM_TAG_BYTES
+          key = await deriveFileStreamKey(contentKey, header)
+        }
+
+        while (pending.length > sealedChunkSize) {
+          controller.enqueue(await open(pending.take(sealedChunkSize), false))
+        }
+      },
+      async flush(controller) {
+        if (pending.length < FILE_STREAM_TAG_BYTES) {
+          throw new Error('Encrypted file is truncated')
+        }
+        controller.enqueue(await open(pending.take(pending.length), true))
+      }
+    })
+  }
+
+  // Pass an encrypted file through unchanged, erroring unless it has the
+  // header and chunk layout encryptStream produces. Needs no key, so a server
+  // can refuse to store plaintext without being able to read what it stores.
+  static checkStream(): TransformStream<Uint8Array, Uint8Array> {
+    const header = new Uint8Array(FILE_STREAM_HEADER_BYTES)
+    let headerLength = 0
+    let sealedChunkSize = 0
+    // Bytes after the header
+    let length = 0
+
+    return new TransformStream({
+      transform(chunk, controller) {
+        if (headerLength < FILE_STREAM_HEADER_BYTES) {
+          const part = chunk.subarray(0, FILE_STREAM_HEADER_BYTES - headerLength)
+          header.set(part, headerLength)
+          headerLength += part.length
+          if (headerLength === FILE_STREAM_HEADER_BYTES) {
+            sealedChunkSize = parseFileStreamHeader(header) + FILE_STREAM_TAG_BYTES
+          }
+          length += chunk.length - part.length
+        } else {
+          length += chunk.length
+        }
+        controller.enqueue(chunk)
+      },
+      flush() {
+        if (headerLength < FILE_STREAM_HEADER_BYTES) {
+          throw new InvalidEncryptedFileError('Not an encrypted WillsDAO file')
+        }
+        // Every chunk but the last is full, and the last holds at least its tag
+        const last = length % sealedChunkSize
+        if (length < FILE_STREAM_TAG_BYTES || (last > 0 && last < FILE_STREAM_TAG_BYTES)) {
+          throw new InvalidEncryptedFileError('Encrypted file is truncated')
+        }
+      }
+    })
+  }
+
+  // Size of the encrypted output for a plaintext of `size` bytes
+  static encryptedSize(size: number, chunkSize = DEFAULT_FILE_CHUNK_SIZE): number {
+    const chunks = Math.max(1, Math.ceil(size / chunkSize))
+    return FILE_STREAM_HEADER_BYTES + size + chunks * FILE_STREAM_TAG_BYTES
+  }
+}
+
+function parseFileStreamHeader(header: Uint8Array<ArrayBuffer>): number {
+  if (bytesToUtf8(header.subarray(0, 4)) !== FILE_STREAM_MAGIC) {
+    throw new InvalidEncryptedFileError('Not an encrypted WillsDAO file')
+  }
+  if (header[4] !== FILE_STREAM_VERSION) {
+    throw new InvalidEncryptedFileError(`Unsupported encrypted file version: ${header[4]}`)
+  }
+
+  const chunkSize = new DataView(header.buffer, header.byteOffset).getUint32(5)
+  if (chunkSize < 1 || chunkSize > MAX_FILE_CHUNK_SIZE) {
+    throw new InvalidEncryptedFileError('Invalid chunk size in encrypted file')
+  }
+  return chunkSize
+}
+
+async function deriveFileStreamKey(
+  contentKey: Uint8Array<ArrayBuffer>,
+  header: Uint8Array<ArrayBuffer>
+): Promise<CryptoKey> {
+  if (contentKey.length !== 32) {
+    throw new Error('Content key must be 32 bytes')
+  }
+  const baseKey = await crypto.subtle.importKey('raw', contentKey, 'HKDF', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: header.slice(9, 9 + FILE_STREAM_SALT_BYTES),
+      info: utf8ToBytes(FILE_STREAM_INFO)
+    },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+// noncePrefix (7) || chunk index u32 BE (4) || final flag (1)
+function fileChunkNonce(header: Uint8Array, index: number, final: boolean): Uint8Array<ArrayBuffer> {
+  if (index > MAX_FILE_CHUNKS) {
+    throw new Error('File is too large to encrypt')
+  }
+  const nonce = new Uint8Array(12)
+  nonce.set(header.subarray(FILE_STREAM_HEADER_BYTES - FILE_STREAM_PREFIX_BYTES), 0)
+  new DataView(nonce.buffer).setUint32(FILE_STREAM_PREFIX_BYTES, index)
+  nonce[11] = final ? 1 : 0
+  return nonce
+}
+
+// FIFO of byte chunks that can be drained in fixed-size pieces without
+// re-copying everything that is buffered
+class ByteQueue {
+  private chunks: Uint8Array[] = []
+  length = 0
+
+  push(bytes: Uint8Array) {
+    if (bytes.length > 0) {
+      this.chunks.push(bytes)
+      this.length += bytes.length
+    }
+  }
+
+  take(count: number): Uint8Array<ArrayBuffer> {
+    const out = new Uint8Array(count)
+    let offset = 0
+    while (offset < count) {
+      const head = this.chunks[0]
+      const needed = count - offset
+      if (head.length <= needed) {
+        out.set(head, offset)
+        offset += head.length
+        this.chunks.shift()
+      } else {
+        out.set(head.subarray(0, needed), offset)
+        this.chunks[0] = head.subarray(needed)
+        offset += needed
+      }
+    }
+    this.length -= count
+    return out
+  }
+}
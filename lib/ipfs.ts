@@ -1,8 +1,47 @@
-import { createHelia, type Helia } from 'helia'
-import { unixfs, type UnixFS } from '@helia/unixfs'
-import { json, type JSON } from '@helia/json'
-import CryptoJS from 'crypto-js'
 import type { CID } from 'multiformats/cid'
+import * as jsonCodec from 'multiformats/codecs/json'
+import {
+  blockLinks,
+  BlockVerificationError,
+  createStorageBackend,
+  ensureStorageAvailable,
+  readCar,
+  retrievalConfigFromEnv,
+  RetrievalStrategy,
+  retryConfigFromEnv,
+  StorageQuotaError,
+  verifyBlock,
+  withRetry,
+  writeCar,
+  type AbortOptions,
+  type CarBlock,
+  type RetrievalConfig,
+  type Retrieved,
+  type RetryConfig,
+  type StorageStat,
+  type StorageUsage,
+  type TransferOptions,
+  type WillStorageBackend
+} from './storage'
+import { isValidCid, normalizeCid, parseCid } from './cid'
+import {
+  CURRENT_WILL_DATA_VERSION,
+  readSealedPayload,
+  readWillContent,
+  readWillDocument,
+  validateWillContent,
+  WillValidationError
+} from './will-schema'
+import {
+  EncryptionService,
+  FileEncryption,
+  type EncryptionEnvelope,
+  type EncryptionMethod,
+  type KeyWrap,
+  type PasswordKdf,
+  type RevisionLink,
+  type WillEnvelope
+} from './encryption'
 
 // Types for will data
 interface WillContent {
@@ -17,10 +56,30 @@ interface WillContent {
     tokenId?: string
   }>
   executorInstructions: string
+  // Encrypted files that belong to the will; absent on wills written before attachments
+  attachments?: WillAttachment[]
   createdAt: string
   lastModified: string
 }
 
+// A file stored alongside the will. Only the ciphertext is uploaded.
+interface WillAttachment {
+  name: string
+  mimeType: string
+  // Plaintext size in bytes
+  size: number
+  cid: string
+  encryption: AttachmentEncryption
+}
+
+// FileEncryption's chunked stream, keyed from the will's content key
+interface AttachmentEncryption {
+  alg: 'AES-256-GCM-STREAM'
+  key: 'content-key'
+}
+
+const ATTACHMENT_ENCRYPTION: AttachmentEncryption = { alg: 'AES-256-GCM-STREAM', key: 'content-key' }
+
 interface WillMetadata {
   title: string
   creator: string
@@ -29,182 +88,668 @@ interface WillMetadata {
   version: string
 }
 
+// Public metadata of a will stored in privacy mode. The real WillMetadata is
+// encrypted together with the content (see SealedWillPayload).
+interface PrivateWillMetadata {
+  version: string
+  private: true
+}
+
 interface EncryptedWillData {
+  // WillEnvelope since metadata version '3.0'; single-key EncryptionEnvelope in '2.0'
+  envelope: WillEnvelope | EncryptionEnvelope
+  metadata: WillMetadata | PrivateWillMetadata
+}
+
+// Plaintext of a privacy-mode will
+interface SealedWillPayload {
+  willContent: WillContent
+  metadata: WillMetadata
+  // Addresses the key wraps are for, since privacy-mode wraps do not name them
+  recipients?: string[]
+}
+
+interface DecryptedWill {
+  willContent: WillContent
+  metadata: WillMetadata
+}
+
+// The version a new will document replaces
+interface PreviousRevision {
+  cid: string
+  // The replaced version's content key, when the new version uses a different one
+  contentKey?: Uint8Array<ArrayBuffer>
+}
+
+// How storeEncryptedWill writes a will document; mirrors StoreWillOptions in hooks/useIPFS
+interface StoreEncryptedWillOptions extends TransferOptions {
+  method: EncryptionMethod
+  // Creator's EIP-712 signature over the content
+  signature?: `0x${string}`
+  // Keep the title, creator and timestamps inside the ciphertext (default true)
+  privateMetadata?: boolean
+  // Addresses the key wraps are for; privacy mode seals them with the content
+  recipients?: string[]
+  // The version this one replaces, linked as the previous revision
+  previous?: PreviousRevision
+}
+
+// One entry of a will's history. Revisions the chain's keys cannot open have no content.
+interface WillRevision {
+  cid: string
+  revision: number
+  decrypted?: DecryptedWill
+  signature?: `0x${string}`
+}
+
+// A will's DAG packaged as a CARv1 file
+interface WillExport {
+  root: string
+  revisions: number
+  attachments: number
+  // Revisions the chain's keys do not decrypt; any attachments they have are not included
+  lockedRevisions: number
+  car: ReadableStream<Uint8Array>
+}
+
+// What a CAR import added to the storage backend
+interface WillImport {
+  // Compare with the token's on-chain ipfsHash
+  root: string
+  revision: number
+  blocks: number
+  bytes: number
+}
+
+// Format written before the AES-GCM envelope (metadata version '1.0')
+interface LegacyEncryptedWillData {
   encryptedContent: string
   metadata: WillMetadata
 }
 
+// Longest history walked, in case a chain of previous links loops
+const MAX_HISTORY_LENGTH = 100
+
+function isPrivateMetadata(metadata: WillMetadata | PrivateWillMetadata): metadata is PrivateWillMetadata {
+  return 'private' in metadata && metadata.private === true
+}
+
 class IPFSService {
-  private helia: Helia | null = null
-  private fs: UnixFS | null = null
-  private jsonService: JSON | null = null
+  private backend: Promise<WillStorageBackend> | null = null
+  private retrieval = new RetrievalStrategy(retrievalConfigFromEnv())
+  private retry = retryConfigFromEnv()
 
-  async initialize() {
-    if (!this.helia) {
-      try {
-        this.helia = await createHelia()
-        this.fs = unixfs(this.helia)
-        this.jsonService = json(this.helia)
-        console.log('IPFS initialized successfully')
-      } catch (error) {
+  // Resolve the storage backend selected by configuration (see lib/storage)
+  initialize(): Promise<WillStorageBackend> {
+    if (!this.backend) {
+      this.backend = createStorageBackend().catch(error => {
+        this.backend = null
         console.error('Failed to initialize IPFS:', error)
         throw new Error('IPFS initialization failed')
-      }
+      })
     }
+    return this.backend
+  }
+
+  // Use a specific backend instead of the configured one, e.g. in-memory storage in tests
+  async setBackend(backend: WillStorageBackend) {
+    await this.shutdown()
+    this.backend = Promise.resolve(backend)
   }
 
+  // Change the Kubo and gateway fallbacks used when the backend cannot serve content
+  setRetrievalConfig(config: RetrievalConfig) {
+    this.retrieval = new RetrievalStrategy(config)
+  }
+
+  // Change how often failed uploads and retrievals are retried
+  setRetryConfig(config: RetryConfig) {
+    this.retry = config
+  }
+
+  // Close the backend once its in-flight writes finish. Safe to call more than once.
   async shutdown() {
-    if (this.helia) {
-      await this.helia.stop()
-      this.helia = null
-      this.fs = null
-      this.jsonService = null
+    const backend = this.backend
+    this.backend = null
+    if (!backend) return
+
+    try {
+      await (await backend).close()
+    } catch (error) {
+      console.error('Failed to shut down IPFS:', error)
     }
   }
 
-  // Encrypt will content with user's password/key
-  encryptWillContent(willContent: WillContent, password: string): string {
+  // Encrypt will content under a content key, attaching the key's wrapped copies
+  async encryptWillContent(
+    willContent: WillContent,
+    contentKey: Uint8Array<ArrayBuffer>,
+    method: EncryptionMethod,
+    keys: KeyWrap[],
+    signature?: `0x${string}`,
+    sealed?: Omit<SealedWillPayload, 'willContent'>,
+    link?: RevisionLink
+  ): Promise<WillEnvelope> {
     try {
-      const jsonString = JSON.stringify(willContent)
-      const encrypted = CryptoJS.AES.encrypt(jsonString, password).toString()
-      return encrypted
+      // In privacy mode the metadata and recipients travel inside the ciphertext
+      const payload: WillContent | SealedWillPayload = sealed ? { willContent, ...sealed } : willContent
+      const jsonString = JSON.stringify(payload)
+      return await EncryptionService.encryptWithContentKey(jsonString, contentKey, method, keys, signature, link)
     } catch (error) {
       console.error('Encryption failed:', error)
       throw new Error('Failed to encrypt will content')
     }
   }
 
-  // Decrypt will content
-  decryptWillContent(encryptedContent: string, password: string): WillContent {
+  // Decrypt will content with a password or wallet-derived secret. Accepts
+  // content-key, single-key envelope and legacy CryptoJS documents.
+  async decryptWillContent(
+    encryptedWillData: EncryptedWillData | LegacyEncryptedWillData,
+    secret: string
+  ): Promise<DecryptedWill> {
     try {
-      const decryptedBytes = CryptoJS.AES.decrypt(encryptedContent, password)
-      const decryptedString = decryptedBytes.toString(CryptoJS.enc.Utf8)
-      
-      if (!decryptedString) {
-        throw new Error('Invalid password or corrupted data')
+      if (!('envelope' in encryptedWillData)) {
+        // CryptoJS is not authenticated, so a wrong password shows up as unparseable output
+        const plaintext = EncryptionService.decryptLegacyText(encryptedWillData.encryptedContent, secret)
+        return {
+          willContent: validateWillContent(JSON.parse(plaintext)),
+          metadata: encryptedWillData.metadata
+        }
       }
-      
-      return JSON.parse(decryptedString)
+
+      const { envelope } = encryptedWillData
+      if (envelope.version === 2) {
+        return this.openPayload(encryptedWillData, await EncryptionService.decryptEnvelope(envelope, secret))
+      }
+
+      const contentKey = await this.unwrapContentKey(envelope, secret)
+      return this.openPayload(encryptedWillData, await EncryptionService.decryptWithContentKey(envelope, contentKey))
     } catch (error) {
       console.error('Decryption failed:', error)
+      // The will decrypted but its content is malformed, which no password will fix
+      if (error instanceof WillValidationError) throw error
       throw new Error('Failed to decrypt will content - check your password')
     }
   }
 
+  // Recover a will's content key with a password, wallet or passkey secret
+  async unwrapContentKey(envelope: WillEnvelope, secret: string): Promise<Uint8Array<ArrayBuffer>> {
+    // Try each secret-based wrap until one opens with this secret
+    for (const wrap of envelope.keys) {
+      if (!EncryptionService.isSecretWrap(wrap)) continue
+      try {
+        return await EncryptionService.unwrapContentKey(wrap, secret)
+      } catch {
+        continue
+      }
+    }
+
+    throw new Error('No key wrap matches the provided secret')
+  }
+
+  // Decrypt will content with an already unwrapped content key
+  async decryptWillContentWithKey(
+    encryptedWillData: EncryptedWillData,
+    contentKey: Uint8Array<ArrayBuffer>
+  ): Promise<DecryptedWill> {
+    const { envelope } = encryptedWillData
+    if (envelope.version !== 3) {
+      throw new Error('Will does not use a content key')
+    }
+
+    return this.openPayload(encryptedWillData, await EncryptionService.decryptWithContentKey(envelope, contentKey))
+  }
+
+  // Split decrypted plaintext into content and metadata, which privacy-mode wills keep encrypted
+  private openPayload(encryptedWillData: EncryptedWillData, plaintext: string): DecryptedWill {
+    if (!isPrivateMetadata(encryptedWillData.metadata)) {
+      return { willContent: readWillContent(plaintext), metadata: encryptedWillData.metadata }
+    }
+    return readSealedPayload(plaintext)
+  }
+
+  // Whether a stored will keeps its title, creator and timestamps encrypted
+  hasPrivateMetadata(encryptedWillData: EncryptedWillData | LegacyEncryptedWillData): boolean {
+    return isPrivateMetadata(encryptedWillData.metadata)
+  }
+
+  // Creator address from the public metadata; unknown for privacy-mode wills
+  publicCreator(encryptedWillData: EncryptedWillData | LegacyEncryptedWillData): string | undefined {
+    const { metadata } = encryptedWillData
+    return isPrivateMetadata(metadata) ? undefined : metadata.creator
+  }
+
   // Store encrypted will data to IPFS
   async storeEncryptedWill(
     willContent: WillContent,
-    password: string,
-    creatorAddress: string
+    contentKey: Uint8Array<ArrayBuffer>,
+    keys: KeyWrap[],
+    creatorAddress: string,
+    { method, signature, privateMetadata = true, recipients, previous, ...options }: StoreEncryptedWillOptions
   ): Promise<string> {
-    await this.initialize()
+    validateWillContent(willContent)
 
-    try {
-      // Encrypt the will content
-      const encryptedContent = this.encryptWillContent(willContent, password)
+    const metadata: WillMetadata = {
+      title: willContent.title,
+      creator: creatorAddress,
+      createdAt: willContent.createdAt,
+      lastModified: willContent.lastModified,
+      version: CURRENT_WILL_DATA_VERSION
+    }
 
-      // Create metadata (non-sensitive info)
-      const encryptedWillData: EncryptedWillData = {
-        encryptedContent,
-        metadata: {
-          title: willContent.title,
-          creator: creatorAddress,
-          createdAt: willContent.createdAt,
-          lastModified: willContent.lastModified,
-          version: '1.0'
-        }
+    // A rotated key is sealed under the new one so the older revisions stay readable
+    let link: RevisionLink = { revision: 1 }
+    if (previous) {
+      link = this.nextRevision(previous.cid, await this.retrieveWillData(previous.cid, options))
+      if (previous.contentKey) {
+        link.previousKey = await EncryptionService.sealPreviousKey(previous.contentKey, contentKey)
       }
+    }
+
+    // Privacy mode publishes only the version; otherwise the metadata is stored in the clear
+    const envelope = await this.encryptWillContent(
+      willContent,
+      contentKey,
+      method,
+      keys,
+      signature,
+      privateMetadata ? { metadata, recipients } : undefined,
+      link
+    )
+    const encryptedWillData: EncryptedWillData = {
+      envelope,
+      metadata: privateMetadata ? { version: CURRENT_WILL_DATA_VERSION, private: true } : metadata
+    }
+
+    return this.storeWillData(encryptedWillData, options)
+  }
+
+  // Store an already encrypted will document to IPFS
+  async storeWillData(
+    encryptedWillData: EncryptedWillData,
+    { signal, onProgress }: TransferOptions = {}
+  ): Promise<string> {
+    const storage = await this.initialize()
+    // A will document is a single block, so progress jumps from nothing to all of it
+    const total = jsonCodec.encode(encryptedWillData).byteLength
+    onProgress?.({ loaded: 0, total })
+
+    try {
+      const cid = normalizeCid(await withRetry(() => storage.putJSON(encryptedWillData, { signal }), this.retry, signal))
+      console.log('Will stored to IPFS with CID:', cid)
 
-      // Store to IPFS using JSON service
-      const cid = await this.jsonService.add(encryptedWillData)
-      console.log('Will stored to IPFS with CID:', cid.toString())
-      
-      return cid.toString()
+      onProgress?.({ loaded: total, total })
+      return cid
     } catch (error) {
       console.error('Failed to store will to IPFS:', error)
+      // A full browser store needs a different fix than a network failure
+      if (error instanceof StorageQuotaError) throw error
       throw new Error('Failed to store will to IPFS')
     }
   }
 
-  // Retrieve and decrypt will data from IPFS
-  async retrieveAndDecryptWill(
-    ipfsHash: string, 
-    password: string
-  ): Promise<{ willContent: WillContent; metadata: WillMetadata }> {
-    await this.initialize()
+  // Addresses the content key is wrapped to, other than through a secret.
+  // Private wills do not name them in their wraps, so the content key is
+  // needed to read them from the sealed payload.
+  async keyRecipients(
+    encryptedWillData: EncryptedWillData | LegacyEncryptedWillData,
+    contentKey?: Uint8Array<ArrayBuffer>
+  ): Promise<string[]> {
+    if (!('envelope' in encryptedWillData) || encryptedWillData.envelope.version !== 3) {
+      return []
+    }
 
-    try {
-      // Retrieve from IPFS
-      const cid = { toString: () => ipfsHash } as CID
-      const encryptedWillData: EncryptedWillData = await this.jsonService.get(cid)
+    const wraps = encryptedWillData.envelope.keys
+      .filter(wrap => wrap.method === 'ecies' || wrap.method === 'metamask')
+    const named = wraps.flatMap(wrap => wrap.recipient ? [wrap.recipient.toLowerCase()] : [])
+    if (named.length === wraps.length) {
+      return [...new Set(named)]
+    }
+
+    if (!contentKey || !isPrivateMetadata(encryptedWillData.metadata)) {
+      throw new Error('The key wraps of this will do not name their recipients')
+    }
+    const plaintext = await EncryptionService.decryptWithContentKey(encryptedWillData.envelope, contentKey)
+    const { recipients } = readSealedPayload(plaintext)
+    if (!recipients) {
+      throw new Error('The key wraps of this will do not name their recipients')
+    }
+    return [...new Set(recipients.map(recipient => recipient.toLowerCase()))]
+  }
+
+  // Creator signature over the plaintext; only content-key envelopes carry one
+  contentSignature(encryptedWillData: EncryptedWillData | LegacyEncryptedWillData): `0x${string}` | undefined {
+    if (!('envelope' in encryptedWillData) || encryptedWillData.envelope.version !== 3) {
+      return undefined
+    }
+    return encryptedWillData.envelope.signature
+  }
+
+  // Revision number of a will document; documents from before revisions count as 1
+  revisionNumber(encryptedWillData: EncryptedWillData | LegacyEncryptedWillData): number {
+    if (!('envelope' in encryptedWillData) || encryptedWillData.envelope.version !== 3) {
+      return 1
+    }
+    return encryptedWillData.envelope.revision ?? 1
+  }
+
+  // Link for a document replacing the one stored at `cid`
+  nextRevision(cid: string, encryptedWillData: EncryptedWillData | LegacyEncryptedWillData): RevisionLink {
+    return { revision: this.revisionNumber(encryptedWillData) + 1, previous: { '/': normalizeCid(cid) } }
+  }
+
+  // Walk a will's history back from `cid`. Each revision is decrypted with the
+  // content key of the one after it, or the key sealed in it by a rotation.
+  async willHistory(cid: string, contentKey: Uint8Array<ArrayBuffer> | null): Promise<WillRevision[]> {
+    const revisions: WillRevision[] = []
+    const seen = new Set<string>()
+    let next: string | undefined = normalizeCid(cid)
+    let key: Uint8Array<ArrayBuffer> | null = contentKey
+
+    while (next && !seen.has(next) && revisions.length < MAX_HISTORY_LENGTH) {
+      seen.add(next)
+      const encryptedWillData = await this.retrieveWillData(next)
+      const revision: WillRevision = {
+        cid: next,
+        revision: this.revisionNumber(encryptedWillData),
+        signature: this.contentSignature(encryptedWillData)
+      }
+
+      // Revision numbers only go down along the chain
+      const later = revisions[revisions.length - 1]
+      if (later && revision.revision >= later.revision) {
+        console.warn(`Will history stops at ${next}: revision ${revision.revision} follows ${later.revision}`)
+        break
+      }
+      revisions.push(revision)
+      next = undefined
 
-      // Decrypt the content
-      const willContent = this.decryptWillContent(encryptedWillData.encryptedContent, password)
+      if (!('envelope' in encryptedWillData) || encryptedWillData.envelope.version !== 3) continue
+      const { envelope } = encryptedWillData
 
-      return {
-        willContent,
-        metadata: encryptedWillData.metadata
+      if (key) {
+        try {
+          revision.decrypted = await this.decryptWillContentWithKey(encryptedWillData, key)
+          key = envelope.previousKey ? await EncryptionService.openPreviousKey(envelope.previousKey, key) : key
+        } catch (error) {
+          console.warn(`Failed to decrypt will revision ${revision.cid}:`, error)
+          key = null
+        }
+      }
+
+      next = envelope.previous?.['/']
+    }
+
+    return revisions
+  }
+
+  // Check whether a password-protected will was encrypted with outdated KDF parameters
+  needsKdfUpgrade(encryptedWillData: EncryptedWillData | LegacyEncryptedWillData): boolean {
+    if (!('envelope' in encryptedWillData)) {
+      return true
+    }
+
+    const { envelope } = encryptedWillData
+    const wraps = envelope.version === 2 ? [envelope] : envelope.keys.filter(EncryptionService.isSecretWrap)
+    return wraps.some(wrap => EncryptionService.needsKdfUpgrade(wrap))
+  }
+
+  // Re-protect the password will stored at `cid` with the current parameters of
+  // `kdf`, as the next revision. Content-key wills only have their password wrap
+  // replaced; older formats are re-encrypted.
+  async upgradePasswordKdf(
+    cid: string,
+    encryptedWillData: EncryptedWillData | LegacyEncryptedWillData,
+    password: string,
+    kdf: PasswordKdf
+  ): Promise<EncryptedWillData> {
+    const metadata = { ...encryptedWillData.metadata, version: CURRENT_WILL_DATA_VERSION }
+    const link = this.nextRevision(cid, encryptedWillData)
+
+    if ('envelope' in encryptedWillData && encryptedWillData.envelope.version === 3) {
+      const { envelope } = encryptedWillData
+
+      for (const [index, wrap] of envelope.keys.entries()) {
+        if (wrap.method !== 'password') continue
+
+        let contentKey: Uint8Array<ArrayBuffer>
+        try {
+          contentKey = await EncryptionService.unwrapContentKey(wrap, password)
+        } catch {
+          continue
+        }
+
+        const keys = [...envelope.keys]
+        keys[index] = await EncryptionService.wrapContentKey(contentKey, password, 'password', { kdf })
+        // The content key is unchanged, so there is no previous key to seal
+        return { envelope: { ...envelope, keys, ...link, previousKey: undefined }, metadata }
       }
+
+      throw new Error('Failed to decrypt will content - check your password')
+    }
+
+    const { willContent } = await this.decryptWillContent(encryptedWillData, password)
+    const contentKey = EncryptionService.generateContentKey()
+    const wrap = await EncryptionService.wrapContentKey(contentKey, password, 'password', { kdf })
+    const envelope = await this.encryptWillContent(willContent, contentKey, 'password', [wrap], undefined, undefined, link)
+
+    return { envelope, metadata }
+  }
+
+  // Retrieve the encrypted will document without decrypting it
+  async retrieveWillData(
+    ipfsHash: string,
+    options: AbortOptions = {}
+  ): Promise<EncryptedWillData | LegacyEncryptedWillData> {
+    return (await this.retrieveWillDataWithSource(ipfsHash, options)).value
+  }
+
+  // Retrieve the encrypted will document along with the node or gateway that served it
+  async retrieveWillDataWithSource(
+    ipfsHash: string,
+    { signal }: AbortOptions = {}
+  ): Promise<Retrieved<EncryptedWillData | LegacyEncryptedWillData>> {
+    // Malformed CIDs surface as InvalidCIDError rather than a retrieval failure
+    const cid = normalizeCid(ipfsHash)
+    const storage = await this.initialize()
+
+    let retrieved: Retrieved<unknown>
+    try {
+      retrieved = await withRetry(() => this.retrieval.getJSON<unknown>(storage, cid, { signal }), this.retry, signal)
     } catch (error) {
       console.error('Failed to retrieve will from IPFS:', error)
-      throw new Error('Failed to retrieve or decrypt will from IPFS')
+      throw new Error('Failed to retrieve will from IPFS')
     }
+
+    // Older formats are migrated on read; anything unrecognised is a WillValidationError
+    return { value: readWillDocument(retrieved.value), source: retrieved.source }
+  }
+
+  // Retrieve and decrypt will data from IPFS
+  async retrieveAndDecryptWill(
+    ipfsHash: string, 
+    password: string
+  ): Promise<DecryptedWill> {
+    const encryptedWillData = await this.retrieveWillData(ipfsHash)
+    return this.decryptWillContent(encryptedWillData, password)
   }
 
-  // Store file attachments to IPFS
-  async storeFile(file: File): Promise<string> {
-    await this.initialize()
+  // Store file attachments to IPFS, streaming the file rather than reading it into memory
+  async storeFile(file: Blob, options: TransferOptions = {}): Promise<string> {
+    const storage = await this.initialize()
+    await this.ensureLocalSpace(storage, file.size)
 
     try {
-      const arrayBuffer = await file.arrayBuffer()
-      const uint8Array = new Uint8Array(arrayBuffer)
-      
-      const cid = await this.fs.addFile({
-        content: uint8Array
-      })
+      // Each attempt re-reads the file from the start
+      const cid = normalizeCid(await withRetry(() => {
+        return storage.putBytes(streamToIterable(file.stream()), uploadOptions(options, file.size))
+      }, this.retry, options.signal))
 
-      console.log('File stored to IPFS with CID:', cid.toString())
-      return cid.toString()
+      console.log('File stored to IPFS with CID:', cid)
+      return cid
     } catch (error) {
       console.error('Failed to store file to IPFS:', error)
+      // A full browser store needs a different fix than a network failure
+      if (error instanceof StorageQuotaError) throw error
       throw new Error('Failed to store file to IPFS')
     }
   }
 
   // Retrieve file from IPFS
-  async retrieveFile(ipfsHash: string): Promise<Uint8Array> {
-    await this.initialize()
+  async retrieveFile(ipfsHash: string, options: TransferOptions = {}): Promise<Uint8Array> {
+    const cid = normalizeCid(ipfsHash)
+    const storage = await this.initialize()
 
     try {
-      const cid = { toString: () => ipfsHash } as CID
-      let content = new Uint8Array()
-      
-      for await (const chunk of this.fs.cat(cid)) {
-        const newContent = new Uint8Array(content.length + chunk.length)
-        newContent.set(content)
-        newContent.set(chunk, content.length)
-        content = newContent
+      const content = await this.openFile(storage, cid, options)
+      const chunks: Uint8Array[] = []
+      let length = 0
+
+      for await (const chunk of content) {
+        chunks.push(chunk)
+        length += chunk.length
       }
 
-      return content
+      // Copy once at the end instead of growing the buffer per chunk
+      const file = new Uint8Array(length)
+      let offset = 0
+      for (const chunk of chunks) {
+        file.set(chunk, offset)
+        offset += chunk.length
+      }
+      return file
     } catch (error) {
       console.error('Failed to retrieve file from IPFS:', error)
       throw new Error('Failed to retrieve file from IPFS')
     }
   }
 
-  // Generate IPFS gateway URL for viewing
-  getGatewayUrl(ipfsHash: string, gateway = 'https://gateway.pinata.cloud'): string {
-    return `${gateway}/ipfs/${ipfsHash}`
+  // Stream a file from IPFS without buffering it. `size` is the expected
+  // number of bytes, for progress reports.
+  async retrieveFileStream(
+    ipfsHash: string,
+    options: TransferOptions = {},
+    size?: number
+  ): Promise<ReadableStream<Uint8Array>> {
+    const cid = normalizeCid(ipfsHash)
+    const storage = await this.initialize()
+
+    try {
+      return iterableToStream(await this.openFile(storage, cid, options, size))
+    } catch (error) {
+      console.error('Failed to retrieve file from IPFS:', error)
+      throw new Error('Failed to retrieve file from IPFS')
+    }
+  }
+
+  // Encrypt an attachment under a will's content key while uploading it
+  async storeEncryptedFile(
+    file: Blob,
+    contentKey: Uint8Array<ArrayBuffer>,
+    options: TransferOptions = {}
+  ): Promise<string> {
+    const storage = await this.initialize()
+    const size = FileEncryption.encryptedSize(file.size)
+    await this.ensureLocalSpace(storage, size)
+
+    try {
+      const cid = normalizeCid(await withRetry(() => {
+        const encrypted = file.stream().pipeThrough(FileEncryption.encryptStream(contentKey))
+        return storage.putBytes(streamToIterable(encrypted), uploadOptions(options, size))
+      }, this.retry, options.signal))
+
+      console.log('Encrypted file stored to IPFS with CID:', cid)
+      return cid
+    } catch (error) {
+      console.error('Failed to store encrypted file to IPFS:', error)
+      // A full browser store needs a different fix than a network failure
+      if (error instanceof StorageQuotaError) throw error
+      throw new Error('Failed to store encrypted file to IPFS')
+    }
+  }
+
+  // Encrypt and upload a file as a will attachment
+  async storeAttachment(
+    file: File,
+    contentKey: Uint8Array<ArrayBuffer>,
+    options: TransferOptions = {}
+  ): Promise<WillAttachment> {
+    const cid = await this.storeEncryptedFile(file, contentKey, options)
+    return {
+      name: file.name,
+      mimeType: file.type || 'application/octet-stream',
+      size: file.size,
+      cid,
+      encryption: ATTACHMENT_ENCRYPTION
+    }
+  }
+
+  // Decrypting stream of an attachment's contents
+  async retrieveAttachment(
+    attachment: WillAttachment,
+    contentKey: Uint8Array<ArrayBuffer>,
+    options: TransferOptions = {}
+  ): Promise<ReadableStream<Uint8Array>> {
+    const { alg, key } = attachment.encryption
+    if (alg !== ATTACHMENT_ENCRYPTION.alg || key !== ATTACHMENT_ENCRYPTION.key) {
+      throw new Error(`Unsupported attachment encryption: ${alg}`)
+    }
+    return this.retrieveEncryptedFile(attachment.cid, contentKey, options, FileEncryption.encryptedSize(attachment.size))
+  }
+
+  // Re-encrypt an attachment under another content key, so it stays readable
+  // by the version of the will that replaces the old key
+  async reencryptAttachment(
+    attachment: WillAttachment,
+    fromKey: Uint8Array<ArrayBuffer>,
+    toKey: Uint8Array<ArrayBuffer>,
+    options: TransferOptions = {}
+  ): Promise<WillAttachment> {
+    const storage = await this.initialize()
+    await this.ensureLocalSpace(storage, FileEncryption.encryptedSize(attachment.size))
+
+    try {
+      // Progress follows the upload, which pulls the download along with it
+      const size = FileEncryption.encryptedSize(attachment.size)
+      const cid = normalizeCid(await withRetry(async () => {
+        const plaintext = await this.retrieveAttachment(attachment, fromKey, { signal: options.signal })
+        const encrypted = plaintext.pipeThrough(FileEncryption.encryptStream(toKey))
+        return storage.putBytes(streamToIterable(encrypted), uploadOptions(options, size))
+      }, this.retry, options.signal))
+
+      console.log('Attachment re-encrypted to IPFS with CID:', cid)
+      return { ...attachment, cid }
+    } catch (error) {
+      console.error('Failed to re-encrypt attachment:', error)
+      if (error instanceof StorageQuotaError) throw error
+      throw new Error(`Failed to re-encrypt attachment ${attachment.name}`)
+    }
+  }
+
+  // Stream and decrypt an attachment. Authentication failures and truncation
+  // surface as an error on the returned stream.
+  async retrieveEncryptedFile(
+    ipfsHash: string,
+    contentKey: Uint8Array<ArrayBuffer>,
+    options: TransferOptions = {},
+    size?: number
+  ): Promise<ReadableStream<Uint8Array>> {
+    const encrypted = await this.retrieveFileStream(ipfsHash, options, size)
+    return encrypted.pipeThrough(FileEncryption.decryptStream(contentKey))
+  }
+
+  // Generate IPFS gateway URL for viewing, on the first configured gateway by default
+  getGatewayUrl(ipfsHash: string, gateway = this.retrieval.config.gateways[0] ?? 'https://ipfs.io'): string {
+    return `${gateway.replace(/\/+$/, '')}/ipfs/${normalizeCid(ipfsHash)}`
   }
 
   // Pin content to ensure persistence (would work with pinning services)
   async pinContent(ipfsHash: string): Promise<void> {
-    await this.initialize()
+    const cid = normalizeCid(ipfsHash)
+    const storage = await this.initialize()
 
     try {
-      const cid = { toString: () => ipfsHash } as CID
-      await this.helia.pins.add(cid)
+      await storage.pin(cid)
       console.log('Content pinned:', ipfsHash)
     } catch (error) {
       console.error('Failed to pin content:', error)
@@ -212,40 +757,357 @@ class IPFSService {
     }
   }
 
-  // Validate IPFS hash format
+  // Pin a will and every earlier revision, returning their CIDs newest first.
+  // Will documents use the plain json codec, so `previous` is not an IPLD link
+  // that a recursive pin follows and each revision needs a pin of its own.
+  async pinWillHistory(ipfsHash: string): Promise<string[]> {
+    const cid = normalizeCid(ipfsHash)
+    await this.pinContent(cid)
+
+    let cids = [cid]
+    try {
+      cids = (await this.willHistory(cid, null)).map(revision => revision.cid)
+    } catch (error) {
+      // The new version is pinned; older ones are pinned again on the next update
+      console.error('Failed to walk will history for pinning:', error)
+    }
+    for (const revision of cids.slice(1)) {
+      await this.pinContent(revision)
+    }
+    return cids
+  }
+
+  // Release a pin, e.g. for a will version that has been superseded
+  async unpinContent(ipfsHash: string): Promise<void> {
+    const cid = normalizeCid(ipfsHash)
+    const storage = await this.initialize()
+
+    try {
+      await storage.unpin(cid)
+      console.log('Content unpinned:', ipfsHash)
+    } catch (error) {
+      console.error('Failed to unpin content:', error)
+      throw new Error('Failed to unpin content')
+    }
+  }
+
+  // Size and pin state of stored content
+  async statContent(ipfsHash: string): Promise<StorageStat> {
+    const cid = normalizeCid(ipfsHash)
+    const storage = await this.initialize()
+
+    try {
+      return await storage.stat(cid)
+    } catch (error) {
+      console.error('Failed to stat content:', error)
+      throw new Error('Failed to read content status from IPFS')
+    }
+  }
+
+  // Pinned wills and files held by the storage backend
+  async listLocalContent(): Promise<StorageStat[]> {
+    const storage = await this.initialize()
+    const content: StorageStat[] = []
+
+    try {
+      for await (const stat of storage.list()) {
+        content.push(stat)
+      }
+      return content
+    } catch (error) {
+      console.error('Failed to list local content:', error)
+      throw new Error('Failed to list locally stored content')
+    }
+  }
+
+  // Drop a will or file from the local store. Remote pins are not affected.
+  async evictContent(ipfsHash: string): Promise<void> {
+    const cid = normalizeCid(ipfsHash)
+    const storage = await this.initialize()
+
+    try {
+      await storage.evict(cid)
+      console.log('Content evicted:', cid)
+    } catch (error) {
+      console.error('Failed to evict content:', error)
+      throw new Error('Failed to evict content from local storage')
+    }
+  }
+
+  // Package a will as a CAR file: its document, every earlier revision and,
+  // where the content key opens them, each revision's attachments. Blocks are
+  // fetched as the returned stream is read.
+  async exportWillCar(ipfsHash: string, contentKey: Uint8Array<ArrayBuffer> | null): Promise<WillExport> {
+    const root = normalizeCid(ipfsHash)
+    const storage = await this.initialize()
+
+    const history = await this.willHistory(root, contentKey)
+    const attachments = new Set(history.flatMap(revision =>
+      (revision.decrypted?.willContent.attachments ?? []).map(attachment => normalizeCid(attachment.cid))
+    ))
+
+    const car = writeCar(parseCid(root), this.dagBlocks(storage, [...history.map(revision => revision.cid), ...attachments]))
+    return {
+      root,
+      revisions: history.length,
+      attachments: attachments.size,
+      lockedRevisions: history.filter(revision => !revision.decrypted).length,
+      car: iterableToStream(car)
+    }
+  }
+
+  // Load a CAR file exported by exportWillCar into the storage backend. The
+  // file is read twice: first to verify every block and check that the root
+  // and each other document are revisions of one will, then to store the
+  // blocks, so a rejected file leaves nothing behind. The will, its earlier
+  // revisions and attachments are pinned.
+  async importWillCar(file: Blob): Promise<WillImport> {
+    const storage = await this.initialize()
+    if (storage.name === 'remote') {
+      throw new Error('CAR files can only be imported into a local IPFS node, not the IPFS server')
+    }
+    await this.ensureLocalSpace(storage, file.size)
+
+    try {
+      const { root, blocks } = await readCar(streamToIterable(file.stream()))
+      if (root.code !== jsonCodec.code) {
+        throw new Error('The CAR file root is not a will document')
+      }
+
+      // Exports hold JSON blocks only for will documents
+      const documents = new Map<string, EncryptedWillData | LegacyEncryptedWillData>()
+      const cids = new Map<string, CID>()
+      const linked = new Set<string>()
+      let bytes = 0
+
+      for await (const block of blocks) {
+        const key = block.cid.toV1().toString()
+        if (block.cid.code === jsonCodec.code) {
+          documents.set(key, readWillDocument(jsonCodec.decode(block.bytes)))
+        }
+        cids.set(key, block.cid)
+        bytes += block.bytes.length
+        for (const link of blockLinks(block)) {
+          linked.add(link.toV1().toString())
+        }
+      }
+
+      const rootKey = root.toV1().toString()
+      const document = documents.get(rootKey)
+      if (!document) {
+        throw new Error('The CAR file does not contain its root block')
+      }
+
+      // Follow the previous links from the root; any other document does not belong here
+      const revisions = new Set<string>()
+      let next: string | undefined = rootKey
+      while (next && !revisions.has(next)) {
+        const revision = documents.get(next)
+        if (!revision) break
+        revisions.add(next)
+        const previous = 'envelope' in revision && revision.envelope.version === 3
+          ? revision.envelope.previous?.['/']
+          : undefined
+        next = previous ? parseCid(previous).toV1().toString() : undefined
+      }
+      if (revisions.size < documents.size) {
+        throw new Error('The CAR file contains documents that are not revisions of this will')
+      }
+
+      const { blocks: verified } = await readCar(streamToIterable(file.stream()))
+      for await (const block of verified) {
+        await storage.putBlock(block.cid.toString(), block.bytes)
+      }
+
+      // Blocks nothing else links to are the roots of the will's DAGs
+      for (const [key, cid] of cids) {
+        if (!linked.has(key)) await storage.pin(cid.toString())
+      }
+
+      console.log('Will imported from CAR file:', root.toString())
+      return { root: normalizeCid(root.toString()), revision: this.revisionNumber(document), blocks: cids.size, bytes }
+    } catch (error) {
+      console.error('Failed to import CAR file:', error)
+      // Quota, tampering and format problems each need a different fix
+      if (
+        error instanceof StorageQuotaError ||
+        error instanceof BlockVerificationError ||
+        error instanceof WillValidationError
+      ) {
+        throw error
+      }
+      throw new Error('Failed to import CAR file')
+    }
+  }
+
+  // Every block of the DAGs under `roots`, verified against its CID
+  private async *dagBlocks(storage: WillStorageBackend, roots: string[]): AsyncGenerator<CarBlock> {
+    const seen = new Set<string>()
+    const queue = roots.map(root => parseCid(root))
+
+    while (queue.length > 0) {
+      const cid = queue.shift() as CID
+      const key = cid.toV1().toString()
+      if (seen.has(key)) continue
+      seen.add(key)
+
+      const { value: bytes, source } = await this.retrieval.getBlock(storage, cid.toString())
+      if (!(await verifyBlock(cid, bytes))) {
+        throw new BlockVerificationError(cid.toString(), source)
+      }
+
+      const block = { cid, bytes }
+      yield block
+      queue.push(...blockLinks(block))
+    }
+  }
+
+  async storageUsage(): Promise<StorageUsage> {
+    const storage = await this.initialize()
+    return storage.usage()
+  }
+
+  // Open a file for reading, retrying until its first chunk arrives. A stream
+  // that fails part-way is not retried, since its bytes have been handed out.
+  private async openFile(
+    storage: WillStorageBackend,
+    cid: string,
+    options: TransferOptions,
+    size?: number
+  ): Promise<AsyncIterable<Uint8Array>> {
+    const { value } = await withRetry(
+      () => this.retrieval.getBytes(storage, cid, { signal: options.signal }),
+      this.retry,
+      options.signal
+    )
+    return tracked(value, options, size)
+  }
+
+  // Only the in-browser node writes to the browser's storage quota
+  private async ensureLocalSpace(storage: WillStorageBackend, bytes: number): Promise<void> {
+    if (storage.name === 'helia') {
+      await ensureStorageAvailable(bytes)
+    }
+  }
+
+  // Validate a CID: v0 or v1, any multibase, a codec wills can be stored under
   isValidIPFSHash(hash: string): boolean {
-    // Basic validation for IPFS hash format
-    const ipfsRegex = /^Qm[1-9A-HJ-NP-Za-km-z]{44}$|^bafy[a-z2-7]{55}$|^bafk[a-z2-7]{55}$/
-    return ipfsRegex.test(hash)
+    return isValidCid(hash)
+  }
+}
+
+// Web streams are not async-iterable in every browser, so read them explicitly
+async function* streamToIterable(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader()
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) return
+      yield value
+    }
+  } finally {
+    reader.releaseLock()
   }
 }
 
+// Backends report how much of an upload they have stored; add the size known here
+function uploadOptions({ signal, onProgress }: TransferOptions, total: number): TransferOptions {
+  return { signal, onProgress: onProgress && (({ loaded }) => onProgress({ loaded, total })) }
+}
+
+// Pass chunks through, reporting the bytes seen so far and stopping once cancelled
+async function* tracked(
+  source: AsyncIterable<Uint8Array>,
+  { signal, onProgress }: TransferOptions,
+  total?: number
+): AsyncGenerator<Uint8Array> {
+  let loaded = 0
+  onProgress?.({ loaded, total })
+  for await (const chunk of source) {
+    signal?.throwIfAborted()
+    loaded += chunk.length
+    onProgress?.({ loaded, total })
+    yield chunk
+  }
+}
+
+function iterableToStream(iterable: AsyncIterable<Uint8Array>): ReadableStream<Uint8Array> {
+  const iterator = iterable[Symbol.asyncIterator]()
+  return new ReadableStream({
+    async pull(controller) {
+      const { done, value } = await iterator.next()
+      if (done) {
+        controller.close()
+      } else {
+        controller.enqueue(value)
+      }
+    },
+    async cancel() {
+      await iterator.return?.()
+    }
+  })
+}
+
 // Singleton instance
 const ipfsService = new IPFSService()
 
 // Export the service and types
-export { ipfsService, type WillContent, type EncryptedWillData }
+export {
+  ipfsService,
+  type WillContent,
+  type WillAttachment,
+  type AttachmentEncryption,
+  type WillMetadata,
+  type PrivateWillMetadata,
+  type EncryptedWillData,
+  type LegacyEncryptedWillData,
+  type DecryptedWill,
+  type SealedWillPayload,
+  type PreviousRevision,
+  type StoreEncryptedWillOptions,
+  type WillRevision,
+  type WillExport,
+  type WillImport
+}
 
 // Utility functions for easier use
 export const encryptAndStoreWill = async (
   willContent: WillContent,
-  password: string,
-  creatorAddress: string
+  contentKey: Uint8Array<ArrayBuffer>,
+  keys: KeyWrap[],
+  creatorAddress: string,
+  options: StoreEncryptedWillOptions
 ): Promise<string> => {
-  return ipfsService.storeEncryptedWill(willContent, password, creatorAddress)
+  return ipfsService.storeEncryptedWill(willContent, contentKey, keys, creatorAddress, options)
 }
 
 export const retrieveAndDecryptWill = async (
   ipfsHash: string,
   password: string
-): Promise<{ willContent: WillContent; metadata: WillMetadata }> => {
+): Promise<DecryptedWill> => {
   return ipfsService.retrieveAndDecryptWill(ipfsHash, password)
 }
 
-export const storeFileToIPFS = async (file: File): Promise<string> => {
-  return ipfsService.storeFile(file)
+export const storeFileToIPFS = async (file: File, options: TransferOptions = {}): Promise<string> => {
+  return ipfsService.storeFile(file, options)
+}
+
+export const retrieveFileFromIPFS = async (ipfsHash: string, options: TransferOptions = {}): Promise<Uint8Array> => {
+  return ipfsService.retrieveFile(ipfsHash, options)
 }
 
-export const retrieveFileFromIPFS = async (ipfsHash: string): Promise<Uint8Array> => {
-  return ipfsService.retrieveFile(ipfsHash)
+export const storeEncryptedFileToIPFS = async (
+  file: Blob,
+  contentKey: Uint8Array<ArrayBuffer>,
+  options: TransferOptions = {}
+): Promise<string> => {
+  return ipfsService.storeEncryptedFile(file, contentKey, options)
+}
+
+export const retrieveEncryptedFileFromIPFS = async (
+  ipfsHash: string,
+  contentKey: Uint8Array<ArrayBuffer>,
+  options: TransferOptions = {}
+): Promise<ReadableStream<Uint8Array>> => {
+  return ipfsService.retrieveEncryptedFile(ipfsHash, contentKey, options)
 }
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { privateKeyToAccount } from 'viem/accounts'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { RecipientEncryption, type KeyRegistration } from './encryption'
+import { fetchKeyRegistration } from './key-registry'
+
+const alice = privateKeyToAccount(`0x${'11'.repeat(32)}`)
+const mallory = privateKeyToAccount(`0x${'22'.repeat(32)}`)
+
+// A registration signed by the wallet it names, as the Execute page publishes it
+async function register(account: typeof alice): Promise<KeyRegistration> {
+  const derivation = await account.signTypedData(RecipientEncryption.createKeyDerivationTypedData(account.address))
+  const { publicKey } = await RecipientEncryption.deriveKeyPair(derivation)
+  const signature = await account.signTypedData(RecipientEncryption.createRegistrationTypedData(account.address, publicKey))
+  return { address: account.address, publicKey, signature }
+}
+
+function serve(registration: KeyRegistration) {
+  vi.stubGlobal('fetch', vi.fn(async () => Response.json(registration)))
+}
+
+describe('fetchKeyRegistration', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('returns a verified registration for the requested address', async () => {
+    const registration = await register(alice)
+    serve(registration)
+
+    expect(await fetchKeyRegistration(alice.address.toLowerCase())).toEqual(registration)
+  })
+
+  it("rejects another wallet's validly signed registration", async () => {
+    serve(await register(mallory))
+
+    expect(await fetchKeyRegistration(alice.address)).toBeNull()
+  })
+
+  it('rejects a registration whose signature does not match', async () => {
+    const registration = await register(alice)
+    serve({ ...registration, publicKey: (await register(mallory)).publicKey })
+
+    expect(await fetchKeyRegistration(alice.address)).toBeNull()
+  })
+})
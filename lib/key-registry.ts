@@ -0,0 +1,35 @@
+import { RecipientEncryption, type KeyRegistration } from './encryption'
+
+// Look up an address's encryption key registration. Returns null when the
+// address has not registered, or the registry answers with a registration
+// for another address or one that fails verification.
+export async function fetchKeyRegistration(address: string): Promise<KeyRegistration | null> {
+  const response = await fetch(`/api/key-registry?address=${address}`)
+
+  if (response.status === 404) {
+    return null
+  }
+  if (!response.ok) {
+    throw new Error('Failed to load key registration')
+  }
+
+  const registration: KeyRegistration = await response.json()
+  if (registration.address?.toLowerCase() !== address.toLowerCase()) {
+    return null
+  }
+  return await RecipientEncryption.verifyRegistration(registration) ? registration : null
+}
+
+// Publish a signed registration so will creators can wrap keys to it
+export async function publishKeyRegistration(registration: KeyRegistration): Promise<void> {
+  const response = await fetch('/api/key-registry', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(registration)
+  })
+
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }))
+    throw new Error(error || 'Failed to publish key registration')
+  }
+}
@@ -0,0 +1,703 @@
+import { wordlist } from '@scure/bip39/wordlists/english'
+
+// Password strength estimation in the style of zxcvbn: the password is split
+// into the cheapest sequence of guessable patterns (dictionary words, keyboard
+// walks, sequences, repeats, dates) plus brute-forced gaps, and the number of
+// guesses an attacker needs is the product of those pieces.
+
+export type MatchPattern = 'dictionary' | 'spatial' | 'sequence' | 'repeat' | 'date' | 'bruteforce'
+
+export interface PasswordMatch {
+  pattern: MatchPattern
+  i: number
+  j: number
+  token: string
+  guesses: number
+  // Dictionary details
+  dictionary?: 'passwords' | 'english' | 'user_inputs'
+  rank?: number
+  l33t?: boolean
+  reversed?: boolean
+  // Spatial and sequence details
+  turns?: number
+  ascending?: boolean
+  // Repeat details
+  baseToken?: string
+  repeatCount?: number
+  // Date details
+  year?: number
+  separator?: string
+}
+
+export interface CrackTimes {
+  onlineThrottled: number
+  onlineUnthrottled: number
+  offlineSlowHash: number
+  offlineFastHash: number
+}
+
+export interface PasswordStrength {
+  // 0 (too guessable) to 4 (very unguessable)
+  score: 0 | 1 | 2 | 3 | 4
+  guesses: number
+  guessesLog10: number
+  crackTimesSeconds: CrackTimes
+  crackTimesDisplay: Record<keyof CrackTimes, string>
+  warning: string
+  suggestions: string[]
+  sequence: PasswordMatch[]
+}
+
+// Only the first characters are analysed; anything beyond is already far out of reach
+const MAX_ANALYSED_LENGTH = 100
+
+const BRUTEFORCE_CARDINALITY = 10
+const MIN_GUESSES_BEFORE_GROWING_SEQUENCE = 10000
+const MIN_SUBMATCH_GUESSES_SINGLE_CHAR = 10
+const MIN_SUBMATCH_GUESSES_MULTI_CHAR = 50
+const MIN_YEAR_SPACE = 20
+const REFERENCE_YEAR = new Date().getFullYear()
+
+// Attack rates in guesses per second. The slow-hash rate matches an attacker
+// working against a PBKDF2/scrypt/argon2id protected envelope.
+const ATTACK_RATES: CrackTimes = {
+  onlineThrottled: 100 / 3600,
+  onlineUnthrottled: 10,
+  offlineSlowHash: 1e4,
+  offlineFastHash: 1e10
+}
+
+// Most common leaked passwords, most frequent first
+const COMMON_PASSWORDS = [
+  '123456', 'password', '123456789', '12345678', '12345', 'qwerty', '1234567', '111111',
+  '1234567890', '123123', 'abc123', '1234', 'password1', 'iloveyou', '1q2w3e4r', '000000',
+  'qwerty123', 'zaq12wsx', 'dragon', 'sunshine', 'princess', 'letmein', '654321', 'monkey',
+  '1qaz2wsx', '123321', 'qwertyuiop', 'superman', 'asdfghjkl', 'trustno1', 'football',
+  'baseball', 'welcome', 'admin', 'login', 'master', 'hello', 'freedom', 'whatever',
+  'qazwsx', 'shadow', 'michael', 'jennifer', 'jordan', 'hunter', 'ranger', 'buster',
+  'soccer', 'harley', 'batman', 'andrew', 'tigger', 'charlie', 'robert', 'thomas',
+  'hockey', 'daniel', 'starwars', '112233', 'george', 'computer', 'michelle', 'jessica',
+  'pepper', '1111', 'zxcvbn', '555555', '11111111', '131313', '777777', '888888', 'maggie',
+  '159753', 'aaaaaa', 'ginger', 'joshua', 'cheese', 'amanda', 'summer', 'love', 'ashley',
+  'nicole', 'chelsea', 'matthew', 'access', 'yankees', '987654321', 'dallas', 'austin',
+  'thunder', 'taylor', 'matrix', 'passw0rd', 'password123', 'secret', 'test', 'test123',
+  'changeme', 'default', 'guest', 'root', 'toor', 'pass', 'abcdef', 'abcd1234', 'q1w2e3r4',
+  '1q2w3e', '121212', '666666', '696969', '7777777', '123qwe', 'qwe123', 'asdf', 'asdfgh',
+  'zxcvbnm', 'killer', 'hannah', 'loveme', 'flower', 'naruto', 'pokemon', 'samsung',
+  'google', 'mustang', 'lovely', 'family', 'money', 'bitcoin', 'ethereum', 'crypto',
+  'wallet', 'metamask', 'satoshi', 'blockchain', 'testament', 'inheritance', 'willsdao'
+]
+
+const RANKED_DICTIONARIES = {
+  passwords: buildRankedDictionary(COMMON_PASSWORDS),
+  // The BIP39 list is alphabetical rather than frequency ranked, so every word
+  // is treated as equally likely
+  english: new Map(wordlist.map(word => [word, wordlist.length] as const))
+}
+
+const L33T_TABLE: Record<string, string> = {
+  '4': 'a', '@': 'a', '8': 'b', '(': 'c', '3': 'e', '6': 'g', '1': 'i', '!': 'i',
+  '|': 'l', '0': 'o', '$': 's', '5': 's', '7': 't', '+': 't', '2': 'z'
+}
+
+// US QWERTY rows; each row is offset half a key to the right of the one above
+const KEYBOARD_ROWS = [
+  ['`~', '1!', '2@', '3#', '4$', '5%', '6^', '7&', '8*', '9(', '0)', '-_', '=+'],
+  ['qQ', 'wW', 'eE', 'rR', 'tT', 'yY', 'uU', 'iI', 'oO', 'pP', '[{', ']}', '\\|'],
+  ['aA', 'sS', 'dD', 'fF', 'gG', 'hH', 'jJ', 'kK', 'lL', ';:', '\'"'],
+  ['zZ', 'xX', 'cC', 'vV', 'bB', 'nN', 'mM', ',<', '.>', '/?']
+]
+
+const KEYBOARD = buildKeyboardGraph(KEYBOARD_ROWS)
+
+const DATE_SPLITS: Record<number, Array<[number, number]>> = {
+  4: [[1, 2], [2, 3]],
+  5: [[1, 3], [2, 3]],
+  6: [[1, 2], [2, 4], [4, 5]],
+  7: [[1, 3], [2, 3], [4, 5], [4, 6]],
+  8: [[2, 4], [4, 6]]
+}
+
+// Estimate how many guesses an attacker needs for `password`. `userInputs` are
+// strings an attacker could know (name, address, will title) and count as a dictionary.
+export function estimatePasswordStrength(password: string, userInputs: string[] = []): PasswordStrength {
+  const analysed = password.slice(0, MAX_ANALYSED_LENGTH)
+  const userDictionary = buildRankedDictionary(
+    userInputs.flatMap(input => input.toLowerCase().split(/[^a-z0-9]+/)).filter(input => input.length >= 3)
+  )
+
+  const matches = omnimatch(analysed, userDictionary)
+  const { guessesLog10, sequence } = mostGuessableMatchSequence(analysed, matches)
+  const guesses = Math.pow(10, guessesLog10)
+  const score = guessesToScore(guessesLog10)
+
+  const crackTimesSeconds = {} as CrackTimes
+  const crackTimesDisplay = {} as Record<keyof CrackTimes, string>
+  for (const scenario of Object.keys(ATTACK_RATES) as Array<keyof CrackTimes>) {
+    crackTimesSeconds[scenario] = guesses / ATTACK_RATES[scenario]
+    crackTimesDisplay[scenario] = displayTime(crackTimesSeconds[scenario])
+  }
+
+  const { warning, suggestions } = feedbackFor(score, sequence)
+
+  return { score, guesses, guessesLog10, crackTimesSeconds, crackTimesDisplay, warning, suggestions, sequence }
+}
+
+function buildRankedDictionary(words: string[]): Map<string, number> {
+  const ranked = new Map<string, number>()
+  for (const word of words) {
+    if (!ranked.has(word)) {
+      ranked.set(word, ranked.size + 1)
+    }
+  }
+  return ranked
+}
+
+function buildKeyboardGraph(rows: string[][]): Map<string, Set<string>> {
+  const graph = new Map<string, Set<string>>()
+  const keyAt = (row: number, col: number) => rows[row]?.[col]
+
+  rows.forEach((row, r) => {
+    row.forEach((key, c) => {
+      const neighbours = [
+        keyAt(r, c - 1), keyAt(r, c + 1),
+        keyAt(r - 1, c), keyAt(r - 1, c + 1),
+        keyAt(r + 1, c - 1), keyAt(r + 1, c)
+      ].filter((neighbour): neighbour is string => !!neighbour)
+
+      for (const char of key) {
+        graph.set(char, new Set(neighbours.join('')))
+      }
+    })
+  })
+
+  return graph
+}
+
+// Keyboard statistics used by the spatial guess estimate
+const KEYBOARD_STARTING_POSITIONS = KEYBOARD_ROWS.flat().length
+const KEYBOARD_AVERAGE_DEGREE = [...KEYBOARD.values()].reduce((sum, keys) => sum + keys.size, 0) / KEYBOARD.size / 2
+
+// Matching
+
+function omnimatch(password: string, userDictionary: Map<string, number>): PasswordMatch[] {
+  return [
+    ...dictionaryMatch(password, userDictionary),
+    ...spatialMatch(password),
+    ...sequenceMatch(password),
+    ...repeatMatch(password, userDictionary),
+    ...dateMatch(password)
+  ]
+}
+
+function dictionaryMatch(password: string, userDictionary: Map<string, number>): PasswordMatch[] {
+  const matches: PasswordMatch[] = []
+  const lower = password.toLowerCase()
+  const unleeted = Array.from(lower, char => L33T_TABLE[char] ?? char).join('')
+  const reversed = Array.from(lower).reverse().join('')
+
+  const dictionaries: Array<[PasswordMatch['dictionary'], Map<string, number>]> = [
+    ['passwords', RANKED_DICTIONARIES.passwords],
+    ['english', RANKED_DICTIONARIES.english],
+    ['user_inputs', userDictionary]
+  ]
+
+  for (let i = 0; i < password.length; i++) {
+    for (let j = i + 2; j < password.length; j++) {
+      const token = password.slice(i, j + 1)
+      const plain = lower.slice(i, j + 1)
+      const substituted = unleeted.slice(i, j + 1)
+      // Reversed tokens map back onto the same span of the original password
+      const backwards = reversed.slice(password.length - 1 - j, password.length - i)
+
+      for (const [dictionary, ranked] of dictionaries) {
+        const plainRank = ranked.get(plain)
+        if (plainRank) {
+          matches.push(dictionaryGuesses({ pattern: 'dictionary', i, j, token, dictionary, rank: plainRank, guesses: 0 }))
+        } else if (substituted !== plain && ranked.has(substituted)) {
+          matches.push(dictionaryGuesses({
+            pattern: 'dictionary', i, j, token, dictionary, rank: ranked.get(substituted), l33t: true, guesses: 0
+          }))
+        }
+
+        const reversedRank = ranked.get(backwards)
+        if (reversedRank && backwards !== plain) {
+          matches.push(dictionaryGuesses({
+            pattern: 'dictionary', i, j, token, dictionary, rank: reversedRank, reversed: true, guesses: 0
+          }))
+        }
+      }
+    }
+  }
+
+  return matches
+}
+
+function dictionaryGuesses(match: PasswordMatch): PasswordMatch {
+  let guesses = match.rank ?? 1
+  guesses *= uppercaseVariations(match.token)
+
+  if (match.l33t) {
+    const substitutions = Array.from(match.token).filter(char => char in L33T_TABLE).length
+    guesses *= Math.max(2, Math.pow(2, substitutions))
+  }
+  if (match.reversed) {
+    guesses *= 2
+  }
+
+  return { ...match, guesses }
+}
+
+function uppercaseVariations(token: string): number {
+  const upper = Array.from(token).filter(char => char !== char.toLowerCase()).length
+  const lower = Array.from(token).filter(char => char !== char.toUpperCase()).length
+
+  if (upper === 0) return 1
+  // Capitalised, all caps and last-letter caps are the first things an attacker tries
+  if (/^[A-Z][^A-Z]+$/.test(token) || /^[^A-Z]+[A-Z]$/.test(token) || lower === 0) return 2
+
+  let variations = 0
+  for (let k = 1; k <= Math.min(upper, lower); k++) {
+    variations += binomial(upper + lower, k)
+  }
+  return variations
+}
+
+function spatialMatch(password: string): PasswordMatch[] {
+  const matches: PasswordMatch[] = []
+  let i = 0
+
+  while (i < password.length - 1) {
+    let j = i
+    let turns = 0
+    let lastDirection: number | null = null
+
+    while (j + 1 < password.length && KEYBOARD.get(password[j])?.has(password[j + 1])) {
+      const direction = keyDirection(password[j], password[j + 1])
+      if (direction !== lastDirection) {
+        turns += 1
+        lastDirection = direction
+      }
+      j += 1
+    }
+
+    if (j - i + 1 >= 3) {
+      const token = password.slice(i, j + 1)
+      matches.push({ pattern: 'spatial', i, j, token, turns, guesses: spatialGuesses(token, turns) })
+      i = j
+    } else {
+      i += 1
+    }
+  }
+
+  return matches
+}
+
+function keyDirection(from: string, to: string): number {
+  const position = (char: string) => {
+    for (const [r, row] of KEYBOARD_ROWS.entries()) {
+      const c = row.findIndex(key => key.includes(char))
+      if (c >= 0) return [r, c]
+    }
+    return [0, 0]
+  }
+  const [r1, c1] = position(from)
+  const [r2, c2] = position(to)
+  return (r2 - r1) * 10 + (c2 - c1)
+}
+
+function spatialGuesses(token: string, turns: number): number {
+  let guesses = 0
+  for (let i = 2; i <= token.length; i++) {
+    for (let j = 1; j <= Math.min(turns, i - 1); j++) {
+      guesses += binomial(i - 1, j - 1) * KEYBOARD_STARTING_POSITIONS * Math.pow(KEYBOARD_AVERAGE_DEGREE, j)
+    }
+  }
+
+  const shifted = Array.from(token).filter(char => /[A-Z~!@#$%^&*()_+{}|:"<>?]/.test(char)).length
+  if (shifted > 0) {
+    guesses *= shifted === token.length ? 2 : uppercaseVariations(token) || 2
+  }
+  return guesses
+}
+
+function sequenceMatch(password: string): PasswordMatch[] {
+  const matches: PasswordMatch[] = []
+  let i = 0
+
+  while (i < password.length - 2) {
+    const delta = password.charCodeAt(i + 1) - password.charCodeAt(i)
+    if (Math.abs(delta) < 1 || Math.abs(delta) > 2 || !sameCharClass(password[i], password[i + 1])) {
+      i += 1
+      continue
+    }
+
+    let j = i + 1
+    while (
+      j + 1 < password.length &&
+      password.charCodeAt(j + 1) - password.charCodeAt(j) === delta &&
+      sameCharClass(password[j], password[j + 1])
+    ) {
+      j += 1
+    }
+
+    if (j - i + 1 >= 3) {
+      const token = password.slice(i, j + 1)
+      const ascending = delta > 0
+      matches.push({ pattern: 'sequence', i, j, token, ascending, guesses: sequenceGuesses(token, ascending) })
+      i = j
+    } else {
+      i += 1
+    }
+  }
+
+  return matches
+}
+
+function sameCharClass(a: string, b: string): boolean {
+  const charClass = (char: string) => (/[a-z]/.test(char) ? 'lower' : /[A-Z]/.test(char) ? 'upper' : /\d/.test(char) ? 'digit' : 'other')
+  return charClass(a) === charClass(b) && charClass(a) !== 'other'
+}
+
+function sequenceGuesses(token: string, ascending: boolean): number {
+  const first = token[0]
+  let base: number
+  if ('aAzZ019'.includes(first)) {
+    base = 4
+  } else if (/\d/.test(first)) {
+    base = 10
+  } else {
+    base = 26
+  }
+  return base * token.length * (ascending ? 1 : 2)
+}
+
+function repeatMatch(password: string, userDictionary: Map<string, number>): PasswordMatch[] {
+  const matches: PasswordMatch[] = []
+  const greedy = /(.+)\1+/g
+  const lazy = /(.+?)\1+/g
+  const lazyAnchored = /^(.+?)\1+$/
+
+  let lastIndex = 0
+  while (lastIndex < password.length) {
+    greedy.lastIndex = lazy.lastIndex = lastIndex
+    const greedyMatch = greedy.exec(password)
+    const lazyMatch = lazy.exec(password)
+    if (!greedyMatch || !lazyMatch) break
+
+    let match: RegExpExecArray
+    let baseToken: string
+    if (greedyMatch[0].length > lazyMatch[0].length) {
+      // e.g. "abcabc": the greedy match covers more; find its shortest repeating unit
+      match = greedyMatch
+      baseToken = lazyAnchored.exec(match[0])?.[1] ?? match[1]
+    } else {
+      match = lazyMatch
+      baseToken = match[1]
+    }
+
+    const i = match.index
+    const j = i + match[0].length - 1
+    const repeatCount = match[0].length / baseToken.length
+    const baseAnalysis = mostGuessableMatchSequence(baseToken, omnimatch(baseToken, userDictionary))
+
+    matches.push({
+      pattern: 'repeat',
+      i,
+      j,
+      token: match[0],
+      baseToken,
+      repeatCount,
+      guesses: Math.pow(10, baseAnalysis.guessesLog10) * repeatCount
+    })
+    lastIndex = j + 1
+  }
+
+  return matches
+}
+
+function dateMatch(password: string): PasswordMatch[] {
+  const matches: PasswordMatch[] = []
+
+  // Standalone years
+  for (const match of password.matchAll(/(?:19|20)\d\d/g)) {
+    const year = parseInt(match[0])
+    matches.push({
+      pattern: 'date', i: match.index, j: match.index + 3, token: match[0], year,
+      guesses: yearSpace(year)
+    })
+  }
+
+  // Dates without separators, e.g. 14051987 or 870514
+  for (let i = 0; i <= password.length - 4; i++) {
+    for (let j = i + 3; j <= i + 7 && j < password.length; j++) {
+      const token = password.slice(i, j + 1)
+      if (!/^\d+$/.test(token)) continue
+
+      const candidates = DATE_SPLITS[token.length]
+        .map(([k, l]) => mapIntsToDate([
+          parseInt(token.slice(0, k)), parseInt(token.slice(k, l)), parseInt(token.slice(l))
+        ]))
+        .filter((date): date is { year: number } => !!date)
+
+      if (candidates.length === 0) continue
+
+      // Prefer the reading closest to the reference year, as zxcvbn does
+      const best = candidates.reduce((a, b) => (Math.abs(a.year - REFERENCE_YEAR) <= Math.abs(b.year - REFERENCE_YEAR) ? a : b))
+      matches.push({ pattern: 'date', i, j, token, year: best.year, guesses: yearSpace(best.year) * 365 })
+    }
+  }
+
+  // Dates with separators, e.g. 14/05/1987 or 1987-05-14
+  const separated = /(?=((\d{1,4})([\s/\\_.-])(\d{1,2})\3(\d{1,4})))/g
+  for (const match of password.matchAll(separated)) {
+    const token = match[1]
+    const date = mapIntsToDate([parseInt(match[2]), parseInt(match[4]), parseInt(match[5])])
+    if (!date || token.length < 6 || token.length > 10) continue
+
+    matches.push({
+      pattern: 'date', i: match.index, j: match.index + token.length - 1, token, year: date.year,
+      separator: match[3], guesses: yearSpace(date.year) * 365 * 4
+    })
+  }
+
+  return matches
+}
+
+// Interpret three integers as day, month and year in any common order
+function mapIntsToDate(ints: number[]): { year: number } | null {
+  if (ints[1] > 31 || ints[1] <= 0) return null
+  if (ints.some(value => value > 99 && (value < 1000 || value > 2050))) return null
+
+  const candidates: Array<[number, number[]]> = [
+    [ints[2], ints.slice(0, 2)],
+    [ints[0], ints.slice(1, 3)]
+  ]
+
+  for (const [year, [a, b]] of candidates) {
+    const isDayMonth = (a >= 1 && a <= 31 && b >= 1 && b <= 12) || (a >= 1 && a <= 12 && b >= 1 && b <= 31)
+    if (!isDayMonth) continue
+
+    if (year >= 1000 && year <= 2050) {
+      return { year }
+    }
+    if (year <= 99) {
+      return { year: year > 50 ? 1900 + year : 2000 + year }
+    }
+  }
+
+  return null
+}
+
+function yearSpace(year: number): number {
+  return Math.max(Math.abs(year - REFERENCE_YEAR), MIN_YEAR_SPACE)
+}
+
+// Search
+
+// Find the sequence of non-overlapping matches covering the password that needs
+// the fewest guesses overall, filling gaps with brute force. Guess counts are
+// kept in log10 to avoid overflow on long passwords.
+function mostGuessableMatchSequence(
+  password: string,
+  matches: PasswordMatch[]
+): { guessesLog10: number; sequence: PasswordMatch[] } {
+  const n = password.length
+  if (n === 0) {
+    return { guessesLog10: 0, sequence: [] }
+  }
+
+  const matchesByEnd: PasswordMatch[][] = Array.from({ length: n }, () => [])
+  for (const match of matches) {
+    matchesByEnd[match.j].push(match)
+  }
+
+  // best[k][l]: cheapest way to cover password[0..k] with l matches
+  const best: Array<Map<number, { log: number; match: PasswordMatch }>> = Array.from({ length: n }, () => new Map())
+
+  const consider = (match: PasswordMatch) => {
+    const log = Math.log10(Math.max(match.guesses, minimumGuesses(match)))
+    const candidates: Array<[number, number]> = match.i === 0
+      ? [[1, log]]
+      : [...best[match.i - 1].entries()].map(([l, previous]) => [l + 1, previous.log + log])
+
+    for (const [l, total] of candidates) {
+      const current = best[match.j].get(l)
+      if (!current || total < current.log) {
+        best[match.j].set(l, { log: total, match })
+      }
+    }
+  }
+
+  for (let k = 0; k < n; k++) {
+    for (const match of matchesByEnd[k]) {
+      consider(match)
+    }
+    for (let i = 0; i <= k; i++) {
+      const token = password.slice(i, k + 1)
+      consider({ pattern: 'bruteforce', i, j: k, token, guesses: Math.pow(BRUTEFORCE_CARDINALITY, token.length) })
+    }
+  }
+
+  // Longer sequences pay l! for ordering plus a floor that grows with l
+  let bestLength = 1
+  let bestLog = Infinity
+  for (const [l, { log }] of best[n - 1]) {
+    const total = logSum(logFactorial(l) + log, (l - 1) * Math.log10(MIN_GUESSES_BEFORE_GROWING_SEQUENCE))
+    if (total < bestLog) {
+      bestLog = total
+      bestLength = l
+    }
+  }
+
+  const sequence: PasswordMatch[] = []
+  let k = n - 1
+  let l = bestLength
+  while (k >= 0) {
+    const { match } = best[k].get(l)!
+    sequence.unshift(match)
+    k = match.i - 1
+    l -= 1
+  }
+
+  return { guessesLog10: bestLog, sequence }
+}
+
+function minimumGuesses(match: PasswordMatch): number {
+  if (match.pattern === 'bruteforce') return 1
+  return match.token.length === 1 ? MIN_SUBMATCH_GUESSES_SINGLE_CHAR : MIN_SUBMATCH_GUESSES_MULTI_CHAR
+}
+
+function guessesToScore(guessesLog10: number): PasswordStrength['score'] {
+  if (guessesLog10 < 3) return 0
+  if (guessesLog10 < 6) return 1
+  if (guessesLog10 < 8) return 2
+  if (guessesLog10 < 10) return 3
+  return 4
+}
+
+// Feedback
+
+function feedbackFor(score: number, sequence: PasswordMatch[]): { warning: string; suggestions: string[] } {
+  if (sequence.length === 0) {
+    return {
+      warning: '',
+      suggestions: ['Use a few words, avoid common phrases', 'No need for symbols, digits, or uppercase letters']
+    }
+  }
+
+  if (score > 3) {
+    return { warning: '', suggestions: [] }
+  }
+
+  const longest = sequence.reduce((a, b) => (b.token.length > a.token.length ? b : a))
+  const { warning, suggestions } = matchFeedback(longest, sequence.length === 1)
+
+  return {
+    warning,
+    suggestions: ['Add another word or two. Uncommon words are better.', ...suggestions]
+  }
+}
+
+function matchFeedback(match: PasswordMatch, isSoleMatch: boolean): { warning: string; suggestions: string[] } {
+  switch (match.pattern) {
+    case 'dictionary': {
+      const suggestions: string[] = []
+      if (/^[A-Z][^A-Z]+$/.test(match.token)) {
+        suggestions.push('Capitalization doesn\'t help very much')
+      } else if (match.token.length > 1 && match.token === match.token.toUpperCase() && /[A-Z]/.test(match.token)) {
+        suggestions.push('All-uppercase is almost as easy to guess as all-lowercase')
+      }
+      if (match.reversed) {
+        suggestions.push('Reversed words aren\'t much harder to guess')
+      }
+      if (match.l33t) {
+        suggestions.push('Predictable substitutions like \'@\' instead of \'a\' don\'t help very much')
+      }
+
+      let warning = ''
+      if (match.dictionary === 'passwords') {
+        warning = isSoleMatch && (match.rank ?? 0) <= 20
+          ? 'This is a top-20 common password'
+          : 'This is similar to a commonly used password'
+      } else if (match.dictionary === 'user_inputs') {
+        warning = 'Avoid details that can be tied to you or this will'
+      } else if (isSoleMatch) {
+        warning = 'A word by itself is easy to guess'
+      }
+      return { warning, suggestions }
+    }
+    case 'spatial':
+      return {
+        warning: match.turns === 1 ? 'Straight rows of keys are easy to guess' : 'Short keyboard patterns are easy to guess',
+        suggestions: ['Use a longer keyboard pattern with more turns']
+      }
+    case 'repeat':
+      return {
+        warning: match.baseToken?.length === 1
+          ? 'Repeats like "aaa" are easy to guess'
+          : 'Repeats like "abcabcabc" are only slightly harder to guess than "abc"',
+        suggestions: ['Avoid repeated words and characters']
+      }
+    case 'sequence':
+      return {
+        warning: 'Sequences like abc or 6543 are easy to guess',
+        suggestions: ['Avoid sequences']
+      }
+    case 'date':
+      return {
+        warning: 'Dates are often easy to guess',
+        suggestions: ['Avoid dates and years that are associated with you']
+      }
+    default:
+      return { warning: '', suggestions: [] }
+  }
+}
+
+function displayTime(seconds: number): string {
+  const minute = 60
+  const hour = minute * 60
+  const day = hour * 24
+  const month = day * 31
+  const year = month * 12
+  const century = year * 100
+
+  const units: Array<[number, string]> = [[year, 'year'], [month, 'month'], [day, 'day'], [hour, 'hour'], [minute, 'minute'], [1, 'second']]
+
+  if (seconds < 1) return 'less than a second'
+  if (seconds >= century) return 'centuries'
+
+  for (const [size, unit] of units) {
+    if (seconds >= size) {
+      const count = Math.round(seconds / size)
+      return `${count} ${unit}${count === 1 ? '' : 's'}`
+    }
+  }
+  return 'less than a second'
+}
+
+// Math helpers
+
+function binomial(n: number, k: number): number {
+  if (k > n) return 0
+  if (k === 0) return 1
+  let result = 1
+  for (let d = 1; d <= k; d++) {
+    result = (result * (n - k + d)) / d
+  }
+  return result
+}
+
+function logFactorial(n: number): number {
+  let log = 0
+  for (let i = 2; i <= n; i++) {
+    log += Math.log10(i)
+  }
+  return log
+}
+
+// log10(10^a + 10^b) without leaving log space
+function logSum(a: number, b: number): number {
+  const high = Math.max(a, b)
+  return high + Math.log10(1 + Math.pow(10, Math.min(a, b) - high))
+}
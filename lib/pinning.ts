@@ -0,0 +1,190 @@
+import { normalizeCid } from './cid'
+
+// Client for the IPFS Pinning Service API
+// (https://ipfs.github.io/pinning-services-api-spec/). The browser node's pins
+// disappear with the tab, so wills are also pinned on a remote service.
+
+export type PinningStatus = 'queued' | 'pinning' | 'pinned' | 'failed'
+
+export interface Pin {
+  cid: string
+  name?: string
+  // Multiaddrs the service can fetch the content from
+  origins?: string[]
+  meta?: Record<string, string>
+}
+
+export interface PinStatus {
+  requestid: string
+  status: PinningStatus
+  created: string
+  pin: Pin
+  // Multiaddrs of the service's nodes that will hold the content
+  delegates: string[]
+  info?: Record<string, string>
+}
+
+export interface PinResults {
+  count: number
+  results: PinStatus[]
+}
+
+export interface PinListQuery {
+  cid?: string[]
+  name?: string
+  status?: PinningStatus[]
+  before?: string
+  after?: string
+  limit?: number
+  meta?: Record<string, string>
+}
+
+export interface PinningServiceConfig {
+  // API root, e.g. https://api.pinata.cloud/psa
+  endpoint: string
+  accessToken: string
+}
+
+const ALL_STATUSES: PinningStatus[] = ['queued', 'pinning', 'pinned', 'failed']
+const CONFIG_STORAGE_PREFIX = 'willsdao:pinning-service:'
+
+export class PinningServiceError extends Error {
+  readonly name = 'PinningServiceError'
+
+  constructor(
+    readonly status: number,
+    readonly reason: string,
+    message: string
+  ) {
+    super(message)
+  }
+}
+
+export class PinningServiceClient {
+  private readonly endpoint: string
+  private readonly accessToken: string
+
+  constructor({ endpoint, accessToken }: PinningServiceConfig) {
+    this.endpoint = endpoint.replace(/\/+$/, '')
+    this.accessToken = accessToken
+  }
+
+  async addPin(pin: Pin): Promise<PinStatus> {
+    const response = await this.request('/pins', {
+      method: 'POST',
+      body: JSON.stringify({ ...pin, cid: normalizeCid(pin.cid) })
+    })
+    return await response.json()
+  }
+
+  // The spec only returns pinned requests unless a status filter is given
+  async listPins(query: PinListQuery = {}): Promise<PinResults> {
+    const params = new URLSearchParams()
+    params.set('status', (query.status ?? ALL_STATUSES).join(','))
+    if (query.cid) params.set('cid', query.cid.map(normalizeCid).join(','))
+    if (query.name) params.set('name', query.name)
+    if (query.before) params.set('before', query.before)
+    if (query.after) params.set('after', query.after)
+    if (query.limit) params.set('limit', query.limit.toString())
+    if (query.meta) params.set('meta', JSON.stringify(query.meta))
+
+    const response = await this.request(`/pins?${params}`)
+    return await response.json()
+  }
+
+  async getPin(requestId: string): Promise<PinStatus> {
+    const response = await this.request(`/pins/${encodeURIComponent(requestId)}`)
+    return await response.json()
+  }
+
+  // Replace an existing pin request, e.g. when a will is updated to a new CID
+  async replacePin(requestId: string, pin: Pin): Promise<PinStatus> {
+    const response = await this.request(`/pins/${encodeURIComponent(requestId)}`, {
+      method: 'POST',
+      body: JSON.stringify({ ...pin, cid: normalizeCid(pin.cid) })
+    })
+    return await response.json()
+  }
+
+  async removePin(requestId: string): Promise<void> {
+    await this.request(`/pins/${encodeURIComponent(requestId)}`, { method: 'DELETE' })
+  }
+
+  // Most recent pin request for a CID, or null if it was never pinned here
+  async findPin(cid: string): Promise<PinStatus | null> {
+    const { results } = await this.listPins({ cid: [cid], limit: 1 })
+    return results[0] ?? null
+  }
+
+  // Pin a CID unless a request for it is already queued, pinning or pinned
+  async ensurePinned(pin: Pin): Promise<PinStatus> {
+    const existing = await this.findPin(pin.cid)
+    if (existing && existing.status !== 'failed') return existing
+    return this.addPin(pin)
+  }
+
+  // Poll a pin request until it is pinned or failed
+  async waitForPin(
+    requestId: string,
+    { interval = 2000, timeout = 120000 }: { interval?: number; timeout?: number } = {}
+  ): Promise<PinStatus> {
+    const deadline = Date.now() + timeout
+
+    while (true) {
+      const status = await this.getPin(requestId)
+      if (status.status === 'pinned' || status.status === 'failed') {
+        return status
+      }
+      if (Date.now() + interval > deadline) {
+        throw new Error(`Timed out waiting for pin ${requestId} (last status: ${status.status})`)
+      }
+      await new Promise(resolve => setTimeout(resolve, interval))
+    }
+  }
+
+  private async request(path: string, init: RequestInit = {}): Promise<Response> {
+    const response = await fetch(`${this.endpoint}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${this.accessToken}`,
+        ...(init.body ? { 'Content-Type': 'application/json' } : {})
+      }
+    })
+
+    if (!response.ok) {
+      // Errors are JSON: { error: { reason, details } }
+      const body = await response.json().catch(() => null) as { error?: { reason?: string; details?: string } } | null
+      const reason = body?.error?.reason ?? response.statusText
+      const details = body?.error?.details
+      throw new PinningServiceError(
+        response.status,
+        reason,
+        `Pinning service request failed: ${reason}${details ? ` (${details})` : ''}`
+      )
+    }
+    return response
+  }
+}
+
+// Service settings are per wallet and stay in this browser; the access token is never uploaded
+export function loadPinningConfig(address: string): PinningServiceConfig | null {
+  if (typeof window === 'undefined') return null
+
+  const stored = window.localStorage.getItem(CONFIG_STORAGE_PREFIX + address.toLowerCase())
+  if (!stored) return null
+
+  try {
+    const config = JSON.parse(stored) as PinningServiceConfig
+    return config.endpoint && config.accessToken ? config : null
+  } catch {
+    return null
+  }
+}
+
+export function savePinningConfig(address: string, config: PinningServiceConfig): void {
+  window.localStorage.setItem(CONFIG_STORAGE_PREFIX + address.toLowerCase(), JSON.stringify(config))
+}
+
+export function clearPinningConfig(address: string): void {
+  window.localStorage.removeItem(CONFIG_STORAGE_PREFIX + address.toLowerCase())
+}
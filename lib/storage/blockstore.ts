@@ -0,0 +1,230 @@
+import { unixfs, type UnixFS } from '@helia/unixfs'
+import { json, type JSON } from '@helia/json'
+import * as dagPb from '@ipld/dag-pb'
+import { base32 } from 'multiformats/bases/base32'
+import type { CID } from 'multiformats/cid'
+import * as jsonCodec from 'multiformats/codecs/json'
+import type { Blockstore } from 'interface-blockstore'
+import { parseCid } from '../cid'
+import { isQuotaExceededError, StorageQuotaError } from './quota'
+import type {
+  AbortOptions,
+  StorageBackendName,
+  StorageStat,
+  StorageUsage,
+  TransferOptions,
+  WillStorageBackend
+} from './types'
+
+interface BlockstoreComponents {
+  blockstore: Blockstore
+  fs: UnixFS
+  json: JSON
+}
+
+// Shared implementation for backends that run the UnixFS importer and the JSON
+// codec over a blockstore. Subclasses provide the blockstore and pin tracking.
+export abstract class BlockstoreBackend implements WillStorageBackend {
+  abstract readonly name: StorageBackendName
+  private ready: Promise<BlockstoreComponents> | null = null
+  // Writes still in progress, awaited on close so nothing is cut off half-written
+  private readonly pending = new Set<Promise<unknown>>()
+
+  protected abstract openBlockstore(): Promise<Blockstore>
+  protected abstract addPin(cid: CID, blockstore: Blockstore): Promise<void>
+  protected abstract removePin(cid: CID): Promise<void>
+  protected abstract isPinned(cid: CID): Promise<boolean>
+  protected abstract pinnedCids(): AsyncIterable<CID>
+  protected abstract closeBlockstore(): Promise<void>
+
+  // The blocks held on this device. Networked stores override this so
+  // eviction and usage never reach out to peers.
+  protected localBlockstore(blockstore: Blockstore): Blockstore {
+    return blockstore
+  }
+
+  protected components(): Promise<BlockstoreComponents> {
+    if (!this.ready) {
+      this.ready = this.openBlockstore()
+        .then(blockstore => ({ blockstore, fs: unixfs({ blockstore }), json: json({ blockstore }) }))
+        .catch(error => {
+          this.ready = null
+          throw error
+        })
+    }
+    return this.ready
+  }
+
+  putJSON(value: unknown, options: AbortOptions = {}): Promise<string> {
+    return this.write(async () => {
+      const { json } = await this.components()
+      return (await json.add(value, options)).toString()
+    })
+  }
+
+  async getJSON<T>(cid: string, options: AbortOptions = {}): Promise<T> {
+    const { json } = await this.components()
+    return await json.get<T>(parseCid(cid), options)
+  }
+
+  putBytes(
+    content: Uint8Array | AsyncIterable<Uint8Array>,
+    { signal, onProgress }: TransferOptions = {}
+  ): Promise<string> {
+    return this.write(async () => {
+      const { fs } = await this.components()
+      if (content instanceof Uint8Array) {
+        const cid = await fs.addBytes(content, { signal })
+        onProgress?.({ loaded: content.length })
+        return cid.toString()
+      }
+      return (await fs.addByteStream(imported(content, { signal, onProgress }), { signal })).toString()
+    })
+  }
+
+  async *getBytes(cid: string, options: AbortOptions = {}): AsyncIterable<Uint8Array> {
+    const { fs } = await this.components()
+    yield* fs.cat(parseCid(cid), options)
+  }
+
+  async getBlock(cid: string, options: AbortOptions = {}): Promise<Uint8Array> {
+    const { blockstore } = await this.components()
+    return await blockstore.get(parseCid(cid), options)
+  }
+
+  putBlock(cid: string, block: Uint8Array): Promise<void> {
+    return this.write(async () => {
+      const { blockstore } = await this.components()
+      await blockstore.put(parseCid(cid), block)
+    })
+  }
+
+  pin(cid: string): Promise<void> {
+    return this.write(async () => {
+      const { blockstore } = await this.components()
+      await this.addPin(parseCid(cid), blockstore)
+    })
+  }
+
+  async unpin(cid: string): Promise<void> {
+    await this.components()
+    await this.removePin(parseCid(cid))
+  }
+
+  async stat(cid: string): Promise<StorageStat> {
+    const { blockstore, fs } = await this.components()
+    const parsed = parseCid(cid)
+
+    // JSON documents are a single block; everything else is UnixFS
+    const size = parsed.code === jsonCodec.code
+      ? (await blockstore.get(parsed)).length
+      : Number((await fs.stat(parsed)).size)
+
+    return { cid: parsed.toString(), size, pinned: await this.isPinned(parsed) }
+  }
+
+  async *list(): AsyncIterable<StorageStat> {
+    await this.components()
+    for await (const cid of this.pinnedCids()) {
+      yield await this.stat(cid.toString())
+    }
+  }
+
+  async evict(cid: string): Promise<void> {
+    const { blockstore } = await this.components()
+    const local = this.localBlockstore(blockstore)
+    const parsed = parseCid(cid)
+
+    await this.removePin(parsed)
+
+    // Blocks can be shared between DAGs, e.g. identical file chunks
+    const keep = new Set<string>()
+    for await (const pinned of this.pinnedCids()) {
+      for (const block of await localDag(local, pinned)) {
+        keep.add(blockKey(block))
+      }
+    }
+
+    for (const block of await localDag(local, parsed)) {
+      if (!keep.has(blockKey(block))) {
+        await local.delete(block)
+      }
+    }
+  }
+
+  async usage(): Promise<StorageUsage> {
+    const { blockstore } = await this.components()
+    let blocks = 0
+    let bytes = 0
+    for await (const { block } of this.localBlockstore(blockstore).getAll()) {
+      blocks++
+      bytes += block.length
+    }
+    return { blocks, bytes }
+  }
+
+  async close(): Promise<void> {
+    if (!this.ready) return
+    this.ready = null
+    await Promise.allSettled(this.pending)
+    await this.closeBlockstore()
+  }
+
+  // Track a write from the moment it is requested until it settles, and
+  // report a full store as StorageQuotaError
+  private write<T>(operation: () => Promise<T>): Promise<T> {
+    const result = operation().catch(error => {
+      throw isQuotaExceededError(error) ? new StorageQuotaError() : error
+    })
+
+    this.pending.add(result)
+    const settle = () => {
+      this.pending.delete(result)
+    }
+    result.then(settle, settle)
+    return result
+  }
+}
+
+// The importer pulls chunks as it writes their blocks, so counting them
+// follows what has been stored. Stops at the next chunk once cancelled.
+async function* imported(
+  content: AsyncIterable<Uint8Array>,
+  { signal, onProgress }: TransferOptions
+): AsyncGenerator<Uint8Array> {
+  let loaded = 0
+  onProgress?.({ loaded })
+  for await (const chunk of content) {
+    signal?.throwIfAborted()
+    yield chunk
+    loaded += chunk.length
+    onProgress?.({ loaded })
+  }
+}
+
+// Blocks of a DAG that are present locally. dag-pb nodes link to their
+// children; raw and JSON blocks are leaves.
+async function localDag(blockstore: Blockstore, root: CID): Promise<CID[]> {
+  const blocks: CID[] = []
+  const seen = new Set<string>()
+  const queue = [root]
+
+  while (queue.length > 0) {
+    const cid = queue.pop() as CID
+    const key = blockKey(cid)
+    if (seen.has(key) || !(await blockstore.has(cid))) continue
+    seen.add(key)
+    blocks.push(cid)
+
+    if (cid.code === dagPb.code) {
+      const node = dagPb.decode(await blockstore.get(cid))
+      queue.push(...node.Links.map(link => link.Hash))
+    }
+  }
+  return blocks
+}
+
+// Blockstores key blocks by multihash, so the same bytes under another codec are the same block
+function blockKey(cid: CID): string {
+  return base32.encode(cid.multihash.bytes)
+}
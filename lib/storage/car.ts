@@ -0,0 +1,59 @@
+import { CarBlockIterator, CarWriter } from '@ipld/car'
+import * as dagPb from '@ipld/dag-pb'
+import type { CID } from 'multiformats/cid'
+import { BlockVerificationError, verifyBlock } from './retrieval'
+
+export const CAR_MIME_TYPE = 'application/vnd.ipld.car'
+
+export interface CarBlock {
+  cid: CID
+  bytes: Uint8Array
+}
+
+// Encode blocks as a CARv1 stream with a single root. Blocks are pulled as
+// the output is read, so a large DAG is never held in memory.
+export async function* writeCar(root: CID, blocks: AsyncIterable<CarBlock>): AsyncGenerator<Uint8Array> {
+  const { writer, out } = CarWriter.create([root])
+
+  let failure: unknown
+  const writing = (async () => {
+    try {
+      for await (const block of blocks) {
+        await writer.put(block)
+      }
+    } finally {
+      await writer.close()
+    }
+  })().catch(error => {
+    failure = error
+  })
+
+  yield* out
+  await writing
+  if (failure) throw failure
+}
+
+// Read a CARv1 stream with a single root, checking every block against its CID
+export async function readCar(source: AsyncIterable<Uint8Array>): Promise<{ root: CID; blocks: AsyncIterable<CarBlock> }> {
+  const reader = await CarBlockIterator.fromIterable(source)
+  const roots = await reader.getRoots()
+  if (roots.length !== 1) {
+    throw new Error(`Expected a CAR file with one root, found ${roots.length}`)
+  }
+
+  const blocks = (async function* () {
+    for await (const block of reader) {
+      if (!(await verifyBlock(block.cid, block.bytes))) {
+        throw new BlockVerificationError(block.cid.toString(), 'CAR file')
+      }
+      yield block
+    }
+  })()
+
+  return { root: roots[0], blocks }
+}
+
+// Children of a block. Wills use dag-pb for UnixFS files; raw and JSON blocks are leaves.
+export function blockLinks({ cid, bytes }: CarBlock): CID[] {
+  return cid.code === dagPb.code ? dagPb.decode(bytes).Links.map(link => link.Hash) : []
+}
@@ -0,0 +1,58 @@
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { FilesystemBackend } from './filesystem'
+import { MemoryBackend } from './memory'
+
+async function collect(source: AsyncIterable<Uint8Array>): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = []
+  for await (const chunk of source) chunks.push(chunk)
+  return new Uint8Array(await new Blob(chunks as BlobPart[]).arrayBuffer())
+}
+
+describe('FilesystemBackend', () => {
+  let directory: string
+  let backend: FilesystemBackend
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'wills-fs-'))
+    backend = new FilesystemBackend(directory)
+  })
+
+  afterEach(async () => {
+    await backend.close()
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('gives content the same CIDs as the other backends', async () => {
+    const memory = new MemoryBackend()
+    const file = new Uint8Array(1024 * 1024 + 3).fill(9)
+
+    expect(await backend.putJSON({ will: 1 })).toBe(await memory.putJSON({ will: 1 }))
+    expect(await backend.putBytes(file)).toBe(await memory.putBytes(file))
+    await memory.close()
+  })
+
+  it('keeps blocks and pins across restarts', async () => {
+    const document = await backend.putJSON({ will: 1 })
+    const file = await backend.putBytes(new TextEncoder().encode('attachment'))
+    await backend.pin(document)
+    await backend.close()
+
+    backend = new FilesystemBackend(directory)
+    expect(await backend.getJSON(document)).toEqual({ will: 1 })
+    expect(new TextDecoder().decode(await collect(backend.getBytes(file)))).toBe('attachment')
+    expect((await backend.stat(document)).pinned).toBe(true)
+    expect((await backend.stat(file)).pinned).toBe(false)
+  })
+
+  it('writes every pin when requests pin at the same time', async () => {
+    const cids = await Promise.all(Array.from({ length: 20 }, (_, i) => backend.putJSON({ i })))
+    await Promise.all(cids.map(cid => backend.pin(cid)))
+
+    const pins = JSON.parse(await fs.readFile(path.join(directory, 'pins.json'), 'utf8'))
+    expect(pins.sort()).toEqual([...cids].sort())
+    expect(await fs.readdir(directory)).not.toContain('pins.json.tmp')
+  })
+})
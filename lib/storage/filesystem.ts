@@ -0,0 +1,80 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { FsBlockstore } from 'blockstore-fs'
+import type { Blockstore } from 'interface-blockstore'
+import type { CID } from 'multiformats/cid'
+import { parseCid } from '../cid'
+import { BlockstoreBackend } from './blockstore'
+
+// Stores blocks under `<directory>/blocks` and the pin set in `<directory>/pins.json`.
+// Node only - used by server routes, scripts and tests.
+export class FilesystemBackend extends BlockstoreBackend {
+  readonly name = 'filesystem'
+  private blockstore: FsBlockstore | null = null
+  private pins = new Set<string>()
+  private pinWrites: Promise<void> = Promise.resolve()
+
+  constructor(private readonly directory: string) {
+    super()
+  }
+
+  private get pinsPath(): string {
+    return path.join(this.directory, 'pins.json')
+  }
+
+  protected async openBlockstore(): Promise<Blockstore> {
+    await fs.mkdir(this.directory, { recursive: true })
+    this.blockstore = new FsBlockstore(path.join(this.directory, 'blocks'))
+    await this.blockstore.open()
+
+    try {
+      this.pins = new Set(JSON.parse(await fs.readFile(this.pinsPath, 'utf8')))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      this.pins = new Set()
+    }
+
+    return this.blockstore
+  }
+
+  protected async addPin(cid: CID, blockstore: Blockstore): Promise<void> {
+    if (!(await blockstore.has(cid))) {
+      throw new Error(`Cannot pin ${cid}: content not found`)
+    }
+    this.pins.add(cid.toString())
+    await this.savePins()
+  }
+
+  protected async removePin(cid: CID): Promise<void> {
+    if (this.pins.delete(cid.toString())) {
+      await this.savePins()
+    }
+  }
+
+  protected async isPinned(cid: CID): Promise<boolean> {
+    return this.pins.has(cid.toString())
+  }
+
+  protected async *pinnedCids(): AsyncIterable<CID> {
+    for (const cid of this.pins) {
+      yield parseCid(cid)
+    }
+  }
+
+  protected async closeBlockstore(): Promise<void> {
+    await this.blockstore?.close()
+    this.blockstore = null
+  }
+
+  // Concurrent requests pin at the same time, so writes are queued, and each
+  // goes to a temporary file renamed over pins.json so it is never half written
+  private savePins(): Promise<void> {
+    const write = this.pinWrites.then(async () => {
+      const temporary = `${this.pinsPath}.tmp`
+      await fs.writeFile(temporary, JSON.stringify([...this.pins]))
+      await fs.rename(temporary, this.pinsPath)
+    })
+    this.pinWrites = write.catch(() => {})
+    return write
+  }
+}
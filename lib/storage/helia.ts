@@ -0,0 +1,120 @@
+import { createHelia, type Helia } from 'helia'
+import { MemoryBlockstore } from 'blockstore-core/memory'
+import { IDBBlockstore } from 'blockstore-idb'
+import { IDBDatastore } from 'datastore-idb'
+import type { Blockstore } from 'interface-blockstore'
+import type { CID } from 'multiformats/cid'
+import { BlockstoreBackend } from './blockstore'
+import { requestPersistentStorage } from './quota'
+
+const BLOCKSTORE_DB = 'willsdao-blocks'
+const DATASTORE_DB = 'willsdao-data'
+
+// In-browser IPFS node. Blocks and pins are kept in IndexedDB so stored wills
+// survive a reload; blocks missing locally are fetched from the network.
+export class HeliaBackend extends BlockstoreBackend {
+  readonly name = 'helia'
+  private helia: Helia | null = null
+  private blocks: Blockstore | null = null
+  private datastore: IDBDatastore | null = null
+
+  protected async openBlockstore(): Promise<Blockstore> {
+    try {
+      this.blocks = await this.openPersistentStores()
+      this.helia = await createHelia({
+        blockstore: this.blocks,
+        ...(this.datastore ? { datastore: this.datastore } : {})
+      })
+      console.log('IPFS initialized successfully')
+      return this.helia.blockstore
+    } catch (error) {
+      console.error('Failed to initialize IPFS:', error)
+      await this.closeStores()
+      throw new Error('IPFS initialization failed')
+    }
+  }
+
+  protected localBlockstore(): Blockstore {
+    if (!this.blocks) {
+      throw new Error('IPFS not initialized')
+    }
+    return this.blocks
+  }
+
+  protected async addPin(cid: CID): Promise<void> {
+    await drain(this.node().pins.add(cid))
+  }
+
+  protected async removePin(cid: CID): Promise<void> {
+    if (!(await this.node().pins.isPinned(cid))) return
+    await drain(this.node().pins.rm(cid))
+  }
+
+  protected async isPinned(cid: CID): Promise<boolean> {
+    return this.node().pins.isPinned(cid)
+  }
+
+  protected async *pinnedCids(): AsyncIterable<CID> {
+    for await (const pin of this.node().pins.ls()) {
+      yield pin.cid
+    }
+  }
+
+  // Stop the node first so libp2p and pin updates are done before the stores close
+  protected async closeBlockstore(): Promise<void> {
+    await this.helia?.stop()
+    this.helia = null
+    await this.closeStores()
+  }
+
+  // Falls back to memory where IndexedDB is unavailable, e.g. some private browsing modes
+  private async openPersistentStores(): Promise<Blockstore> {
+    if (typeof indexedDB === 'undefined') {
+      console.warn('IndexedDB unavailable - stored wills will not survive a reload')
+      return new MemoryBlockstore()
+    }
+
+    const blockstore = new IDBBlockstore(BLOCKSTORE_DB)
+    const datastore = new IDBDatastore(DATASTORE_DB)
+    try {
+      await blockstore.open()
+      await datastore.open()
+    } catch (error) {
+      console.warn('Failed to open IndexedDB - stored wills will not survive a reload:', error)
+      await blockstore.close()
+      await datastore.close()
+      return new MemoryBlockstore()
+    }
+
+    this.datastore = datastore
+    if (!(await requestPersistentStorage())) {
+      console.warn('Persistent storage not granted - the browser may evict cached wills under storage pressure')
+    }
+    return blockstore
+  }
+
+  private async closeStores(): Promise<void> {
+    if (this.blocks instanceof IDBBlockstore) {
+      await this.blocks.close()
+    }
+    await this.datastore?.close()
+    this.blocks = null
+    this.datastore = null
+  }
+
+  private node(): Helia {
+    if (!this.helia) {
+      throw new Error('IPFS not initialized')
+    }
+    return this.helia
+  }
+}
+
+// Helia's pin operations are generators that do their work as they are consumed
+async function drain(source: AsyncIterable<unknown>): Promise<void> {
+  const iterator = source[Symbol.asyncIterator]()
+  let result = await iterator.next()
+  while (!result.done) {
+    result = await iterator.next()
+  }
+}
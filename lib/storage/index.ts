@@ -0,0 +1,113 @@
+import type { RetrievalConfig, RetryConfig, StorageBackendName, StorageConfig, WillStorageBackend } from './types'
+
+export type {
+  AbortOptions,
+  RetrievalConfig,
+  RetryConfig,
+  StorageBackendName,
+  StorageConfig,
+  StorageStat,
+  StorageUsage,
+  TransferOptions,
+  TransferProgress,
+  WillStorageBackend
+} from './types'
+export { BlockVerificationError, RetrievalStrategy, verifyBlock, type Retrieved } from './retrieval'
+export { blockLinks, CAR_MIME_TYPE, readCar, writeCar, type CarBlock } from './car'
+export { withRetry } from './retry'
+export {
+  ensureStorageAvailable,
+  estimateStorage,
+  formatBytes,
+  requestPersistentStorage,
+  StorageQuotaError,
+  type StorageEstimate
+} from './quota'
+
+// The filesystem backend is Node only; servers create it through lib/storage/server
+const BACKENDS: StorageBackendName[] = ['helia', 'kubo', 'memory', 'remote']
+const DEFAULT_GATEWAYS = ['https://trustless-gateway.link', 'https://ipfs.io', 'https://dweb.link']
+const DEFAULT_RETRIEVAL_TIMEOUT = 15000
+const DEFAULT_RETRIES = 2
+const DEFAULT_RETRY_DELAY = 1000
+const MAX_RETRY_DELAY = 30000
+
+// Backend selection from the environment:
+//   NEXT_PUBLIC_IPFS_BACKEND   helia (default) | kubo | memory | remote
+//   NEXT_PUBLIC_KUBO_API_URL   Kubo RPC endpoint (default http://127.0.0.1:5001)
+//   NEXT_PUBLIC_IPFS_API_URL   the app's IPFS routes for the remote backend (default /api/ipfs)
+export function storageConfigFromEnv(): StorageConfig {
+  const backend = process.env.NEXT_PUBLIC_IPFS_BACKEND || 'helia'
+  if (!BACKENDS.includes(backend as StorageBackendName)) {
+    throw new Error(`Unknown IPFS storage backend: ${backend}`)
+  }
+
+  return {
+    backend: backend as StorageBackendName,
+    kuboApiUrl: process.env.NEXT_PUBLIC_KUBO_API_URL || 'http://127.0.0.1:5001',
+    remoteApiUrl: process.env.NEXT_PUBLIC_IPFS_API_URL || '/api/ipfs'
+  }
+}
+
+// Retrieval fallbacks from the environment:
+//   NEXT_PUBLIC_KUBO_API_URL             Kubo node to try after the local node, when set
+//   NEXT_PUBLIC_IPFS_GATEWAYS            comma-separated trustless gateways, tried in order
+//   NEXT_PUBLIC_IPFS_RETRIEVAL_TIMEOUT   milliseconds per source (default 15000)
+export function retrievalConfigFromEnv(): RetrievalConfig {
+  const gateways = process.env.NEXT_PUBLIC_IPFS_GATEWAYS
+  const timeout = Number(process.env.NEXT_PUBLIC_IPFS_RETRIEVAL_TIMEOUT)
+
+  return {
+    kuboApiUrl: process.env.NEXT_PUBLIC_KUBO_API_URL || undefined,
+    gateways: gateways !== undefined
+      ? gateways.split(',').map(gateway => gateway.trim()).filter(Boolean)
+      : DEFAULT_GATEWAYS,
+    timeout: timeout > 0 ? timeout : DEFAULT_RETRIEVAL_TIMEOUT
+  }
+}
+
+// Retries of failed uploads and retrievals from the environment:
+//   NEXT_PUBLIC_IPFS_RETRIES       attempts after the first failure (default 2, 0 to disable)
+//   NEXT_PUBLIC_IPFS_RETRY_DELAY   milliseconds before the first retry, doubling up to 30s (default 1000)
+export function retryConfigFromEnv(): RetryConfig {
+  const retries = parseInt(process.env.NEXT_PUBLIC_IPFS_RETRIES ?? '', 10)
+  const delay = Number(process.env.NEXT_PUBLIC_IPFS_RETRY_DELAY)
+
+  return {
+    retries: retries >= 0 ? retries : DEFAULT_RETRIES,
+    initialDelay: delay > 0 ? delay : DEFAULT_RETRY_DELAY,
+    maxDelay: MAX_RETRY_DELAY
+  }
+}
+
+// Backends are loaded on demand, so a Kubo or in-memory setup never pulls in
+// libp2p. Nothing here may reference the filesystem backend: this module is
+// bundled for the browser, where its Node imports break the build.
+export async function createStorageBackend(config: StorageConfig = storageConfigFromEnv()): Promise<WillStorageBackend> {
+  switch (config.backend) {
+    case 'helia': {
+      const { HeliaBackend } = await import('./helia')
+      return new HeliaBackend()
+    }
+    case 'kubo': {
+      if (!config.kuboApiUrl) {
+        throw new Error('The Kubo backend needs kuboApiUrl')
+      }
+      const { KuboBackend } = await import('./kubo')
+      return new KuboBackend(config.kuboApiUrl)
+    }
+    case 'memory': {
+      const { MemoryBackend } = await import('./memory')
+      return new MemoryBackend()
+    }
+    case 'remote': {
+      if (!config.remoteApiUrl) {
+        throw new Error('The remote backend needs remoteApiUrl')
+      }
+      const { RemoteBackend } = await import('./remote')
+      return new RemoteBackend(config.remoteApiUrl)
+    }
+    default:
+      throw new Error(`Unknown IPFS storage backend: ${config.backend}`)
+  }
+}
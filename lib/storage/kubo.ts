@@ -0,0 +1,215 @@
+import { unixfs } from '@helia/unixfs'
+import { BaseBlockstore } from 'blockstore-core'
+import type { CID } from 'multiformats/cid'
+import * as jsonCodec from 'multiformats/codecs/json'
+import { identity } from 'multiformats/hashes/identity'
+import { sha256, sha512 } from 'multiformats/hashes/sha2'
+import { cidCodecName, parseCid } from '../cid'
+import { BlockVerificationError, verifyBlock } from './retrieval'
+import type { AbortOptions, StorageStat, StorageUsage, TransferOptions, WillStorageBackend } from './types'
+
+// Match Helia's UnixFS importer so files get the same CIDs as in the browser node
+const ADD_PARAMS = {
+  'cid-version': '1',
+  'raw-leaves': 'true',
+  chunker: 'size-1048576',
+  pin: 'false'
+}
+
+// Kubo's names for the multihashes block/put can be asked to use
+const MULTIHASH_NAMES: Record<number, string> = {
+  [sha256.code]: 'sha2-256',
+  [sha512.code]: 'sha2-512',
+  [identity.code]: 'identity'
+}
+
+// Talks to a Kubo node over its HTTP RPC API (POST /api/v0/...)
+export class KuboBackend implements WillStorageBackend {
+  readonly name = 'kubo'
+  private readonly apiUrl: string
+
+  constructor(apiUrl: string) {
+    this.apiUrl = apiUrl.replace(/\/+$/, '')
+  }
+
+  async putJSON(value: unknown, { signal }: AbortOptions = {}): Promise<string> {
+    // Encode locally and store the raw block, so the CID matches @helia/json exactly
+    const body = new FormData()
+    body.append('data', new Blob([jsonCodec.encode(value) as BlobPart]))
+
+    const response = await this.rpc('block/put', { 'cid-codec': 'json', mhtype: 'sha2-256', pin: 'false' }, body, signal)
+    const { Key } = await response.json() as { Key: string }
+    return Key
+  }
+
+  async getJSON<T>(cid: string, options: AbortOptions = {}): Promise<T> {
+    return jsonCodec.decode<T>(await this.getBlock(cid, options))
+  }
+
+  async putBytes(
+    content: Uint8Array | AsyncIterable<Uint8Array>,
+    { signal, onProgress }: TransferOptions = {}
+  ): Promise<string> {
+    // Browsers cannot stream request bodies over HTTP/1.1, so the upload is
+    // sent as a Blob and progress only moves once the node has all of it
+    onProgress?.({ loaded: 0 })
+    const parts: Uint8Array[] = []
+    if (content instanceof Uint8Array) {
+      parts.push(content)
+    } else {
+      for await (const chunk of content) {
+        signal?.throwIfAborted()
+        parts.push(chunk)
+      }
+    }
+
+    const body = new FormData()
+    const file = new Blob(parts as BlobPart[])
+    body.append('file', file)
+
+    // add reports progress as newline-delimited JSON; the last entry is the root
+    const response = await this.rpc('add', ADD_PARAMS, body, signal)
+    const lines = (await response.text()).trim().split('\n')
+    const { Hash } = JSON.parse(lines[lines.length - 1]) as { Hash: string }
+    onProgress?.({ loaded: file.size })
+    return Hash
+  }
+
+  // Read through block/get rather than cat, so every block of the file is verified
+  async *getBytes(cid: string, options: AbortOptions = {}): AsyncIterable<Uint8Array> {
+    yield* unixfs({ blockstore: new KuboBlockstore(this) }).cat(parseCid(cid), options)
+  }
+
+  // The node is checked like any other remote source: a block must hash to its CID
+  async getBlock(cid: string, { signal }: AbortOptions = {}): Promise<Uint8Array> {
+    const parsed = parseCid(cid)
+    const response = await this.rpc('block/get', { arg: parsed.toString() }, undefined, signal)
+    const block = new Uint8Array(await response.arrayBuffer())
+    if (!(await verifyBlock(parsed, block))) {
+      throw new BlockVerificationError(parsed.toString(), `Kubo node (${new URL(this.apiUrl).host})`)
+    }
+    return block
+  }
+
+  async putBlock(cid: string, block: Uint8Array): Promise<void> {
+    const parsed = parseCid(cid)
+    const mhtype = MULTIHASH_NAMES[parsed.multihash.code]
+    if (!mhtype) {
+      throw new Error(`Unsupported multihash 0x${parsed.multihash.code.toString(16)} in ${cid}`)
+    }
+
+    const body = new FormData()
+    body.append('data', new Blob([block as BlobPart]))
+    const response = await this.rpc('block/put', { 'cid-codec': cidCodecName(parsed), mhtype, pin: 'false' }, body)
+
+    // Kubo hashes the block itself; a different CID means it was stored under another address
+    const { Key } = await response.json() as { Key: string }
+    if (!parseCid(Key).toV1().equals(parsed.toV1())) {
+      throw new Error(`Kubo stored block ${cid} as ${Key}`)
+    }
+  }
+
+  async pin(cid: string): Promise<void> {
+    await this.rpc('pin/add', { arg: parseCid(cid).toString() })
+  }
+
+  async unpin(cid: string): Promise<void> {
+    try {
+      await this.rpc('pin/rm', { arg: parseCid(cid).toString() })
+    } catch (error) {
+      // Unpinning content that is not pinned is a no-op, as in the other backends
+      if (error instanceof Error && error.message.includes('not pinned')) return
+      throw error
+    }
+  }
+
+  async stat(cid: string): Promise<StorageStat> {
+    const parsed = parseCid(cid)
+
+    let size: number
+    if (parsed.code === jsonCodec.code) {
+      const response = await this.rpc('block/stat', { arg: parsed.toString() })
+      size = (await response.json() as { Size: number }).Size
+    } else {
+      const response = await this.rpc('files/stat', { arg: `/ipfs/${parsed}` })
+      size = (await response.json() as { Size: number }).Size
+    }
+
+    let pinned = true
+    try {
+      await this.rpc('pin/ls', { arg: parsed.toString(), type: 'recursive' })
+    } catch {
+      pinned = false
+    }
+
+    return { cid: parsed.toString(), size, pinned }
+  }
+
+  async *list(): AsyncIterable<StorageStat> {
+    const response = await this.rpc('pin/ls', { type: 'recursive' })
+    const { Keys } = await response.json() as { Keys: Record<string, { Type: string }> }
+    for (const cid of Object.keys(Keys)) {
+      yield await this.stat(cid)
+    }
+  }
+
+  async evict(cid: string): Promise<void> {
+    const parsed = parseCid(cid).toString()
+    await this.unpin(parsed)
+
+    // refs streams one JSON object per linked block
+    const response = await this.rpc('refs', { arg: parsed, recursive: 'true', unique: 'true' })
+    const refs = (await response.text()).trim().split('\n').filter(Boolean)
+      .map(line => (JSON.parse(line) as { Ref: string }).Ref)
+      .filter(Boolean)
+
+    for (const block of [parsed, ...refs]) {
+      try {
+        await this.rpc('block/rm', { arg: block })
+      } catch {
+        // Still pinned through another will; Kubo refuses to remove it
+      }
+    }
+  }
+
+  async usage(): Promise<StorageUsage> {
+    const response = await this.rpc('repo/stat', {})
+    const { NumObjects, RepoSize } = await response.json() as { NumObjects: number; RepoSize: number }
+    return { blocks: NumObjects, bytes: RepoSize }
+  }
+
+  async close(): Promise<void> {
+    // Stateless HTTP client
+  }
+
+  private async rpc(
+    command: string,
+    params: Record<string, string>,
+    body?: FormData,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const url = new URL(`${this.apiUrl}/api/v0/${command}`)
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value)
+    }
+
+    const response = await fetch(url, { method: 'POST', body, signal })
+    if (!response.ok) {
+      // Kubo errors are JSON: { Message, Code, Type }
+      const { Message } = await response.json().catch(() => ({ Message: response.statusText }))
+      throw new Error(`Kubo ${command} failed: ${Message}`)
+    }
+    return response
+  }
+}
+
+// Verified blocks from a Kubo backend, for reading files with the UnixFS exporter
+class KuboBlockstore extends BaseBlockstore {
+  constructor(private readonly backend: KuboBackend) {
+    super()
+  }
+
+  async get(cid: CID, options: AbortOptions = {}): Promise<Uint8Array> {
+    return this.backend.getBlock(cid.toString(), options)
+  }
+}
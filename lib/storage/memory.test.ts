@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { InvalidCIDError } from '../cid'
+import { MemoryBackend } from './memory'
+import type { TransferProgress } from './types'
+
+async function collect(source: AsyncIterable<Uint8Array>): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = []
+  for await (const chunk of source) chunks.push(chunk)
+  return new Uint8Array(await new Blob(chunks as BlobPart[]).arrayBuffer())
+}
+
+function bytes(length: number, last = 0): Uint8Array {
+  const data = new Uint8Array(length)
+  for (let i = 0; i < length; i++) data[i] = i % 251
+  data[length - 1] = last
+  return data
+}
+
+async function* pieces(data: Uint8Array, size: number): AsyncIterable<Uint8Array> {
+  for (let offset = 0; offset < data.length; offset += size) {
+    yield data.subarray(offset, offset + size)
+  }
+}
+
+describe('MemoryBackend', () => {
+  let backend = new MemoryBackend()
+
+  afterEach(async () => {
+    await backend.close()
+    backend = new MemoryBackend()
+  })
+
+  it('stores JSON documents as single json blocks', async () => {
+    const cid = await backend.putJSON({ metadata: { version: '3.1' } })
+
+    expect(cid).toMatch(/^bagaaiera/)
+    expect(await backend.getJSON(cid)).toEqual({ metadata: { version: '3.1' } })
+    expect(await backend.putJSON({ metadata: { version: '3.1' } })).toBe(cid)
+    expect((await backend.stat(cid)).size).toBe((await backend.getBlock(cid)).length)
+  })
+
+  it('stores byte streams as UnixFS files with progress', async () => {
+    const data = bytes(2 * 1024 * 1024 + 7)
+    const progress: TransferProgress[] = []
+    const cid = await backend.putBytes(pieces(data, 256 * 1024), { onProgress: update => progress.push(update) })
+
+    // Buffer.compare, since toEqual walks megabytes element by element
+    expect(Buffer.compare(await collect(backend.getBytes(cid)), data)).toBe(0)
+    expect(await backend.putBytes(data)).toBe(cid)
+    expect(progress[0]).toEqual({ loaded: 0 })
+    expect(progress.at(-1)).toEqual({ loaded: data.length })
+    expect(await backend.stat(cid)).toEqual({ cid, size: data.length, pinned: false })
+  })
+
+  it('stops an upload once cancelled', async () => {
+    const controller = new AbortController()
+    const upload = backend.putBytes(pieces(new Uint8Array(4 * 1024 * 1024), 1024 * 1024), {
+      signal: controller.signal,
+      onProgress: ({ loaded }) => {
+        if (loaded > 0) controller.abort()
+      }
+    })
+    await expect(upload).rejects.toThrow()
+  })
+
+  it('pins, lists and unpins content it holds', async () => {
+    const document = await backend.putJSON({ a: 1 })
+    const file = await backend.putBytes(new Uint8Array([1, 2, 3]))
+
+    await backend.pin(document)
+    await backend.pin(file)
+    const listed = []
+    for await (const stat of backend.list()) listed.push(stat.cid)
+    expect(listed.sort()).toEqual([document, file].sort())
+
+    await backend.unpin(file)
+    expect((await backend.stat(file)).pinned).toBe(false)
+    await expect(backend.pin('bafkreigh2akiscaildcqabsyg3dfr6chu3fgpregiymsck7e7aqa4s52zy')).rejects.toThrow(
+      'content not found'
+    )
+  })
+
+  it('evicts blocks no other pin uses', async () => {
+    // Files one byte longer than a chunk, sharing their first chunk
+    const first = await backend.putBytes(bytes(1024 * 1024 + 1, 1))
+    const second = await backend.putBytes(bytes(1024 * 1024 + 1, 2))
+    await backend.pin(first)
+    await backend.pin(second)
+    const before = await backend.usage()
+
+    await backend.evict(first)
+    const after = await backend.usage()
+
+    // The shared first chunk stays; the root and the one-byte leaf go
+    expect(before.blocks - after.blocks).toBe(2)
+    expect(Buffer.compare(await collect(backend.getBytes(second)), bytes(1024 * 1024 + 1, 2))).toBe(0)
+  })
+
+  it('rejects invalid CIDs', async () => {
+    await expect(backend.getJSON('not-a-cid')).rejects.toBeInstanceOf(InvalidCIDError)
+  })
+})
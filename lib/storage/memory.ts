@@ -0,0 +1,40 @@
+import { MemoryBlockstore } from 'blockstore-core/memory'
+import type { Blockstore } from 'interface-blockstore'
+import type { CID } from 'multiformats/cid'
+import { parseCid } from '../cid'
+import { BlockstoreBackend } from './blockstore'
+
+// Keeps everything in memory. Useful offline and in tests; content is lost on reload.
+export class MemoryBackend extends BlockstoreBackend {
+  readonly name = 'memory'
+  private readonly pins = new Set<string>()
+
+  protected async openBlockstore(): Promise<Blockstore> {
+    return new MemoryBlockstore()
+  }
+
+  protected async addPin(cid: CID, blockstore: Blockstore): Promise<void> {
+    if (!(await blockstore.has(cid))) {
+      throw new Error(`Cannot pin ${cid}: content not found`)
+    }
+    this.pins.add(cid.toString())
+  }
+
+  protected async removePin(cid: CID): Promise<void> {
+    this.pins.delete(cid.toString())
+  }
+
+  protected async isPinned(cid: CID): Promise<boolean> {
+    return this.pins.has(cid.toString())
+  }
+
+  protected async *pinnedCids(): AsyncIterable<CID> {
+    for (const cid of this.pins) {
+      yield parseCid(cid)
+    }
+  }
+
+  protected async closeBlockstore(): Promise<void> {
+    this.pins.clear()
+  }
+}
@@ -0,0 +1,69 @@
+// Browser storage quota. IndexedDB writes fail once the origin's quota is
+// used up, so large uploads are checked up front and failed writes are
+// reported as StorageQuotaError.
+
+export interface StorageEstimate {
+  usage: number
+  quota: number
+  // Whether the browser has agreed not to evict this origin's data
+  persisted: boolean
+}
+
+export class StorageQuotaError extends Error {
+  readonly name = 'StorageQuotaError'
+
+  constructor(message = 'Browser storage is full. Evict cached wills under Local Cache or free up disk space.') {
+    super(message)
+  }
+}
+
+export async function estimateStorage(): Promise<StorageEstimate | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null
+
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+  const persisted = await navigator.storage.persisted?.() ?? false
+  return { usage, quota, persisted }
+}
+
+// Ask the browser to keep stored wills under storage pressure. Browsers may
+// grant this silently, prompt, or refuse.
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) return false
+
+  try {
+    return await navigator.storage.persisted() || await navigator.storage.persist()
+  } catch {
+    return false
+  }
+}
+
+// Throw before writing when the estimate shows there is not enough room
+export async function ensureStorageAvailable(bytes: number): Promise<void> {
+  const estimate = await estimateStorage()
+  if (!estimate || estimate.quota === 0) return
+
+  const available = estimate.quota - estimate.usage
+  if (bytes > available) {
+    throw new StorageQuotaError(
+      `Not enough browser storage: ${formatBytes(bytes)} needed, ${formatBytes(available)} available. ` +
+      'Evict cached wills under Local Cache or free up disk space.'
+    )
+  }
+}
+
+// IndexedDB reports QuotaExceededError, which blockstore-idb wraps in its own error
+export function isQuotaExceededError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false
+  return error.name === 'QuotaExceededError' || error.message.includes('QuotaExceededError')
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB']
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`
+}
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { MemoryBackend } from './memory'
+import { RemoteBackend } from './remote'
+import { BlockVerificationError } from './retrieval'
+import type { TransferProgress } from './types'
+
+const MiB = 1024 * 1024
+
+function bytes(length: number, seed: number): Uint8Array {
+  const data = new Uint8Array(length)
+  for (let i = 0; i < length; i++) data[i] = (i + seed) % 251
+  return data
+}
+
+async function* pieces(data: Uint8Array, size: number): AsyncIterable<Uint8Array> {
+  for (let offset = 0; offset < data.length; offset += size) {
+    yield data.subarray(offset, offset + size)
+  }
+}
+
+async function collect(source: AsyncIterable<Uint8Array>): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = []
+  for await (const chunk of source) chunks.push(chunk)
+  return new Uint8Array(await new Blob(chunks as BlobPart[]).arrayBuffer())
+}
+
+describe('RemoteBackend', () => {
+  let store: MemoryBackend
+  let answerWith: string | null
+  let tamper: ((block: Uint8Array) => Uint8Array) | null
+  const remote = new RemoteBackend('/api/ipfs')
+
+  beforeEach(() => {
+    store = new MemoryBackend()
+    answerWith = null
+    tamper = null
+    // Stands in for the /api/ipfs routes, with hooks to make them misbehave
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+      const { pathname, searchParams } = new URL(url, 'http://localhost')
+      if (init?.method === 'POST') {
+        const body = init.body instanceof ReadableStream ? init.body : new Response(init.body).body!
+        const cid = await store.putBytes(streamChunks(body))
+        return Response.json({ cid: answerWith ?? cid })
+      }
+      if (searchParams.get('format') === 'raw') {
+        const block = await store.getBlock(pathname.split('/').pop()!)
+        return new Response((tamper ? tamper(block) : block) as BodyInit)
+      }
+      return Response.json({ error: 'Unexpected request' }, { status: 400 })
+    }))
+  })
+
+  afterEach(async () => {
+    vi.unstubAllGlobals()
+    await store.close()
+  })
+
+  it('streams uploads and reads files back block by block', async () => {
+    const data = bytes(2 * MiB + 5, 0)
+    const progress: TransferProgress[] = []
+    const cid = await remote.putBytes(pieces(data, 256 * 1024), { onProgress: update => progress.push(update) })
+
+    expect(cid).toBe(await store.putBytes(data))
+    expect(progress.length).toBeGreaterThan(2)
+    expect(progress.at(-1)).toEqual({ loaded: data.length })
+    expect(Buffer.compare(await collect(remote.getBytes(cid)), data)).toBe(0)
+  })
+
+  it('rejects a CID the server returns for other content', async () => {
+    answerWith = await store.putBytes(bytes(1000, 1))
+
+    await expect(remote.putBytes(bytes(1000, 2))).rejects.toBeInstanceOf(BlockVerificationError)
+  })
+
+  it('rejects file blocks that do not match the CID asked for', async () => {
+    const cid = await store.putBytes(bytes(2 * MiB, 3))
+    tamper = block => {
+      const copy = block.slice()
+      copy[copy.length - 1] ^= 1
+      return copy
+    }
+
+    await expect(collect(remote.getBytes(cid))).rejects.toBeInstanceOf(BlockVerificationError)
+  })
+})
+
+async function* streamChunks(stream: ReadableStream<Uint8Array>): AsyncIterable<Uint8Array> {
+  const reader = stream.getReader()
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) return
+    yield value
+  }
+}
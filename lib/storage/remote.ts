@@ -0,0 +1,265 @@
+import { unixfs } from '@helia/unixfs'
+import { BaseBlockstore, BlackHoleBlockstore } from 'blockstore-core'
+import type { CID } from 'multiformats/cid'
+import * as jsonCodec from 'multiformats/codecs/json'
+import { parseCid } from '../cid'
+import { readWillDocument } from '../will-schema'
+import { BlockVerificationError, verifyBlock } from './retrieval'
+import type { AbortOptions, StorageStat, StorageUsage, TransferOptions, WillStorageBackend } from './types'
+
+// Stores content on the app's server through the /api/ipfs routes, so wills
+// do not depend on a node running in the tab. Only will documents and
+// FileEncryption streams are uploaded, and the server refuses anything else.
+export class RemoteBackend implements WillStorageBackend {
+  readonly name = 'remote'
+  private readonly apiUrl: string
+
+  constructor(apiUrl: string) {
+    this.apiUrl = apiUrl.replace(/\/+$/, '')
+  }
+
+  async putJSON(value: unknown, { signal }: AbortOptions = {}): Promise<string> {
+    // The server stores the document as the will schema parses it, so send that form
+    const block = jsonCodec.encode(readWillDocument(value))
+    const response = await this.request('', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: block as BodyInit,
+      signal
+    })
+
+    // Check the server stored these exact bytes
+    const { cid } = await response.json() as { cid: string }
+    const parsed = parseCid(cid)
+    if (parsed.code !== jsonCodec.code || !(await verifyBlock(parsed, block))) {
+      throw new BlockVerificationError(cid, 'IPFS server')
+    }
+    return cid
+  }
+
+  async getJSON<T>(cid: string, options: AbortOptions = {}): Promise<T> {
+    return jsonCodec.decode<T>(await this.getBlock(cid, options))
+  }
+
+  async putBytes(
+    content: Uint8Array | AsyncIterable<Uint8Array>,
+    { signal, onProgress }: TransferOptions = {}
+  ): Promise<string> {
+    // The server imports the file like Helia does, so importing it here as it
+    // is sent, storing nothing, gives the CID the server has to return
+    const local = new ChunkChannel()
+    const expected = unixfs({ blockstore: new BlackHoleBlockstore() }).addByteStream(local, { signal })
+    // Awaited once the server answers; until then a failed upload must not leave it unhandled
+    expected.catch(() => {})
+
+    let response: Response
+    try {
+      response = await this.upload(content, local, { signal, onProgress })
+    } catch (error) {
+      local.fail(error)
+      throw error
+    }
+
+    const { cid } = await response.json() as { cid: string }
+    if (!(await expected).equals(parseCid(cid))) {
+      throw new BlockVerificationError(cid, 'IPFS server')
+    }
+    return cid
+  }
+
+  // Read through single blocks rather than the file route, so every block of
+  // the file is checked against the CID it was asked for
+  async *getBytes(cid: string, options: AbortOptions = {}): AsyncIterable<Uint8Array> {
+    yield* unixfs({ blockstore: new RemoteBlockstore(this) }).cat(parseCid(cid), options)
+  }
+
+  async getBlock(cid: string, { signal }: AbortOptions = {}): Promise<Uint8Array> {
+    const parsed = parseCid(cid)
+    const response = await this.request(`/${parsed}?format=raw`, { signal })
+    const block = new Uint8Array(await response.arrayBuffer())
+    if (!(await verifyBlock(parsed, block))) {
+      throw new BlockVerificationError(parsed.toString(), 'IPFS server')
+    }
+    return block
+  }
+
+  // Single blocks cannot be checked for plaintext, so the server does not accept them
+  async putBlock(): Promise<void> {
+    throw new Error('The IPFS server only accepts encrypted files and will documents, not single blocks')
+  }
+
+  // The server pins everything it accepts, so this only confirms it holds the content
+  async pin(cid: string): Promise<void> {
+    const { pinned } = await this.stat(cid)
+    if (!pinned) {
+      throw new Error(`The IPFS server has not pinned ${cid}`)
+    }
+  }
+
+  async unpin(): Promise<void> {
+    throw new Error('Content pinned on the IPFS server cannot be unpinned from the browser')
+  }
+
+  async stat(cid: string): Promise<StorageStat> {
+    const response = await this.request(`/${parseCid(cid)}/pin`)
+    return await response.json() as StorageStat
+  }
+
+  // Nothing is kept in the browser, so there is no local cache to list or evict from
+  async *list(): AsyncIterable<StorageStat> {}
+
+  async evict(): Promise<void> {}
+
+  async usage(): Promise<StorageUsage> {
+    return { blocks: 0, bytes: 0 }
+  }
+
+  async close(): Promise<void> {
+    // Stateless HTTP client
+  }
+
+  // Send a file, handing each chunk to `local` as it goes. Where the browser
+  // streams request bodies, the file is never held in memory and progress
+  // follows what has been sent. Otherwise, including Chromium over HTTP/1.1,
+  // it is collected into a Blob and progress only moves once the server has it.
+  private async upload(
+    content: Uint8Array | AsyncIterable<Uint8Array>,
+    local: ChunkChannel,
+    { signal, onProgress }: TransferOptions
+  ): Promise<Response> {
+    const chunks = (async function* () {
+      yield* content instanceof Uint8Array ? [content] : content
+    })()
+    const init = { method: 'POST', headers: { 'Content-Type': 'application/octet-stream' }, signal }
+    let loaded = 0
+    onProgress?.({ loaded })
+
+    if (supportsRequestStreams()) {
+      let pulled = false
+      // A high-water mark of 0 reads nothing until fetch starts sending
+      const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          pulled = true
+          const { done, value } = await chunks.next()
+          if (done) {
+            local.close()
+            controller.close()
+            return
+          }
+          local.push(value)
+          controller.enqueue(value)
+          loaded += value.length
+          onProgress?.({ loaded })
+        },
+        async cancel() {
+          await chunks.return(undefined)
+        }
+      }, { highWaterMark: 0 })
+
+      try {
+        return await this.request('', { ...init, body, duplex: 'half' } as RequestInit)
+      } catch (error) {
+        // Chromium refuses streamed bodies over HTTP/1.1 before reading any
+        if (pulled || signal?.aborted || !(error instanceof TypeError)) throw error
+      }
+    }
+
+    const parts: Uint8Array[] = []
+    for await (const chunk of chunks) {
+      signal?.throwIfAborted()
+      local.push(chunk)
+      parts.push(chunk)
+    }
+    local.close()
+
+    const file = new Blob(parts as BlobPart[])
+    const response = await this.request('', { ...init, body: file })
+    onProgress?.({ loaded: file.size })
+    return response
+  }
+
+  private async request(path: string, init?: RequestInit): Promise<Response> {
+    const response = await fetch(`${this.apiUrl}${path}`, init)
+    if (!response.ok) {
+      // The routes answer errors with { error }
+      const { error } = await response.json().catch(() => ({ error: response.statusText }))
+      throw new Error(`IPFS server request failed: ${error}`)
+    }
+    return response
+  }
+}
+
+// Verified blocks from the IPFS server, for reading files with the UnixFS exporter
+class RemoteBlockstore extends BaseBlockstore {
+  constructor(private readonly backend: RemoteBackend) {
+    super()
+  }
+
+  async get(cid: CID, options: AbortOptions = {}): Promise<Uint8Array> {
+    return this.backend.getBlock(cid.toString(), options)
+  }
+}
+
+// Chunks passed from an upload to the local import as they are sent. The
+// import keeps up with the network, so only a few are ever queued.
+class ChunkChannel implements AsyncIterable<Uint8Array> {
+  private readonly chunks: Uint8Array[] = []
+  private closed = false
+  private error: unknown = null
+  private wake: (() => void) | null = null
+
+  push(chunk: Uint8Array): void {
+    this.chunks.push(chunk)
+    this.notify()
+  }
+
+  close(): void {
+    this.closed = true
+    this.notify()
+  }
+
+  fail(error: unknown): void {
+    this.error = error ?? new Error('Upload failed')
+    this.notify()
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<Uint8Array> {
+    while (true) {
+      if (this.error) throw this.error
+      const chunk = this.chunks.shift()
+      if (chunk) {
+        yield chunk
+      } else if (this.closed) {
+        return
+      } else {
+        await new Promise<void>(resolve => {
+          this.wake = resolve
+        })
+      }
+    }
+  }
+
+  private notify(): void {
+    this.wake?.()
+    this.wake = null
+  }
+}
+
+// Whether fetch can send a ReadableStream body (Chromium 105+). Browsers that
+// cannot ignore `duplex` and send the stream as the text "[object ReadableStream]".
+function supportsRequestStreams(): boolean {
+  try {
+    let duplexRead = false
+    const hasContentType = new Request('http://localhost', {
+      method: 'POST',
+      body: new ReadableStream(),
+      get duplex() {
+        duplexRead = true
+        return 'half'
+      }
+    } as RequestInit).headers.has('Content-Type')
+    return duplexRead && !hasContentType
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,270 @@
+import { unixfs } from '@helia/unixfs'
+import { json } from '@helia/json'
+import { CarReader } from '@ipld/car'
+import { BaseBlockstore, MemoryBlockstore } from 'blockstore-core'
+import { equals } from 'multiformats/bytes'
+import type { CID } from 'multiformats/cid'
+import { identity } from 'multiformats/hashes/identity'
+import { sha256, sha512 } from 'multiformats/hashes/sha2'
+import type { MultihashHasher } from 'multiformats/hashes/interface'
+import { parseCid } from '../cid'
+import type { AbortOptions, RetrievalConfig, WillStorageBackend } from './types'
+
+const HASHERS: Record<number, Pick<MultihashHasher, 'digest'>> = {
+  [sha256.code]: sha256,
+  [sha512.code]: sha512,
+  [identity.code]: identity
+}
+
+// Data together with the source that served it, for display
+export interface Retrieved<T> {
+  value: T
+  source: string
+}
+
+// Somewhere a single block can be fetched from by CID
+export interface BlockSource {
+  readonly name: string
+  getBlock(cid: CID, options: AbortOptions): Promise<Uint8Array>
+}
+
+export class BlockVerificationError extends Error {
+  readonly name = 'BlockVerificationError'
+
+  constructor(
+    readonly cid: string,
+    readonly source: string
+  ) {
+    super(`Block ${cid} from ${source} does not match its CID`)
+  }
+}
+
+// Check that a block hashes to the multihash in its CID
+export async function verifyBlock(cid: CID, block: Uint8Array): Promise<boolean> {
+  const hasher = HASHERS[cid.multihash.code]
+  if (!hasher) {
+    throw new Error(`Unsupported multihash 0x${cid.multihash.code.toString(16)} in ${cid}`)
+  }
+  const digest = await hasher.digest(block)
+  return equals(digest.bytes, cid.multihash.bytes)
+}
+
+// Raw blocks from a Kubo node's RPC API
+export class KuboBlockSource implements BlockSource {
+  readonly name: string
+  private readonly apiUrl: string
+
+  constructor(apiUrl: string) {
+    this.apiUrl = apiUrl.replace(/\/+$/, '')
+    this.name = `Kubo node (${new URL(this.apiUrl).host})`
+  }
+
+  async getBlock(cid: CID, { signal }: AbortOptions): Promise<Uint8Array> {
+    const response = await fetch(`${this.apiUrl}/api/v0/block/get?arg=${cid}`, { method: 'POST', signal })
+    if (!response.ok) {
+      throw new Error(`Kubo block/get failed with status ${response.status}`)
+    }
+    return new Uint8Array(await response.arrayBuffer())
+  }
+}
+
+// A trustless gateway (https://specs.ipfs.tech/http-gateways/trustless-gateway/).
+// Raw block responses are preferred; a CAR response is searched for the block.
+export class GatewayBlockSource implements BlockSource {
+  readonly name: string
+  private readonly url: string
+
+  constructor(url: string) {
+    this.url = url.replace(/\/+$/, '')
+    this.name = `Gateway (${new URL(this.url).host})`
+  }
+
+  async getBlock(cid: CID, { signal }: AbortOptions): Promise<Uint8Array> {
+    const response = await fetch(`${this.url}/ipfs/${cid}?format=raw`, {
+      headers: { Accept: 'application/vnd.ipld.raw, application/vnd.ipld.car;q=0.5' },
+      signal
+    })
+    if (!response.ok) {
+      throw new Error(`Gateway responded with status ${response.status}`)
+    }
+
+    const bytes = new Uint8Array(await response.arrayBuffer())
+    if (!response.headers.get('Content-Type')?.startsWith('application/vnd.ipld.car')) {
+      return bytes
+    }
+
+    const block = await (await CarReader.fromBytes(bytes)).get(cid)
+    if (!block) {
+      throw new Error(`Gateway CAR response does not contain ${cid}`)
+    }
+    return block.bytes
+  }
+}
+
+// Blockstore that fetches each block from the first source able to serve it
+// within the timeout. Blocks are verified against their CID and cached in
+// memory, so a DAG is only fetched once per retrieval.
+export class FallbackBlockstore extends BaseBlockstore {
+  readonly servedBy = new Set<string>()
+  private readonly cache = new MemoryBlockstore()
+
+  constructor(
+    private readonly sources: BlockSource[],
+    private readonly timeout: number
+  ) {
+    super()
+  }
+
+  async has(cid: CID): Promise<boolean> {
+    return this.cache.has(cid)
+  }
+
+  async put(cid: CID, block: Uint8Array): Promise<CID> {
+    return this.cache.put(cid, block)
+  }
+
+  async get(cid: CID, options: AbortOptions = {}): Promise<Uint8Array> {
+    if (await this.cache.has(cid)) {
+      return this.cache.get(cid)
+    }
+
+    const failures: string[] = []
+    for (const source of this.sources) {
+      options.signal?.throwIfAborted()
+
+      try {
+        const block = await source.getBlock(cid, { signal: withTimeout(this.timeout, options.signal) })
+        if (!(await verifyBlock(cid, block))) {
+          throw new BlockVerificationError(cid.toString(), source.name)
+        }
+
+        await this.cache.put(cid, block)
+        this.servedBy.add(source.name)
+        return block
+      } catch (error) {
+        console.warn(`Failed to fetch block ${cid} from ${source.name}:`, error)
+        failures.push(`${source.name}: ${error instanceof Error ? error.message : 'unknown error'}`)
+      }
+    }
+
+    throw new Error(`Block ${cid} is not available from any source (${failures.join('; ')})`)
+  }
+}
+
+// Ordered retrieval: the storage backend (the local node) first, then the
+// configured Kubo node and trustless gateways block by block
+export class RetrievalStrategy {
+  constructor(readonly config: RetrievalConfig) {}
+
+  async getJSON<T>(backend: WillStorageBackend, cid: string, { signal }: AbortOptions = {}): Promise<Retrieved<T>> {
+    let localError: unknown
+    try {
+      const value = await backend.getJSON<T>(cid, { signal: withTimeout(this.config.timeout, signal) })
+      return { value, source: localSourceName(backend) }
+    } catch (error) {
+      console.warn(`Local ${backend.name} node could not serve ${cid}:`, error)
+      localError = error
+    }
+    // Cancelled by the caller rather than missing locally
+    signal?.throwIfAborted()
+
+    const blockstore = this.remoteBlockstore(backend)
+    if (!blockstore) throw localError
+
+    const value = await json({ blockstore }).get<T>(parseCid(cid), { signal })
+    return { value, source: [...blockstore.servedBy].join(', ') }
+  }
+
+  // A single raw block, for exporting a will's DAG
+  async getBlock(backend: WillStorageBackend, cid: string, { signal }: AbortOptions = {}): Promise<Retrieved<Uint8Array>> {
+    let localError: unknown
+    try {
+      const value = await backend.getBlock(cid, { signal: withTimeout(this.config.timeout, signal) })
+      return { value, source: localSourceName(backend) }
+    } catch (error) {
+      console.warn(`Local ${backend.name} node could not serve ${cid}:`, error)
+      localError = error
+    }
+    signal?.throwIfAborted()
+
+    const blockstore = this.remoteBlockstore(backend)
+    if (!blockstore) throw localError
+
+    const value = await blockstore.get(parseCid(cid), { signal })
+    return { value, source: [...blockstore.servedBy].join(', ') }
+  }
+
+  // The first chunk decides the source: a stream that starts from the local
+  // node is read from it to the end
+  async getBytes(
+    backend: WillStorageBackend,
+    cid: string,
+    { signal }: AbortOptions = {}
+  ): Promise<Retrieved<AsyncIterable<Uint8Array>>> {
+    let localError: unknown
+    try {
+      const value = await this.startStream(streamSignal => backend.getBytes(cid, { signal: streamSignal }), signal)
+      return { value, source: localSourceName(backend) }
+    } catch (error) {
+      console.warn(`Local ${backend.name} node could not serve ${cid}:`, error)
+      localError = error
+    }
+    signal?.throwIfAborted()
+
+    const blockstore = this.remoteBlockstore(backend)
+    if (!blockstore) throw localError
+
+    const fs = unixfs({ blockstore })
+    const value = await this.startStream(streamSignal => fs.cat(parseCid(cid), { signal: streamSignal }), signal)
+    return { value, source: [...blockstore.servedBy].join(', ') }
+  }
+
+  private remoteBlockstore(backend: WillStorageBackend): FallbackBlockstore | null {
+    const sources: BlockSource[] = []
+    if (this.config.kuboApiUrl && backend.name !== 'kubo') {
+      sources.push(new KuboBlockSource(this.config.kuboApiUrl))
+    }
+    sources.push(...this.config.gateways.map(gateway => new GatewayBlockSource(gateway)))
+
+    return sources.length > 0 ? new FallbackBlockstore(sources, this.config.timeout) : null
+  }
+
+  // Wait for the first chunk within the timeout, then hand back the whole
+  // stream. The caller's signal cancels it at any point.
+  private async startStream(
+    open: (signal: AbortSignal) => AsyncIterable<Uint8Array>,
+    signal?: AbortSignal
+  ): Promise<AsyncIterable<Uint8Array>> {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(new Error('Timed out waiting for content')), this.config.timeout)
+
+    const streamSignal = signal ? AbortSignal.any([signal, controller.signal]) : controller.signal
+    const iterator = open(streamSignal)[Symbol.asyncIterator]()
+    let first: IteratorResult<Uint8Array>
+    try {
+      first = await iterator.next()
+    } finally {
+      clearTimeout(timer)
+    }
+
+    return (async function* () {
+      if (first.done) return
+      yield first.value
+      while (true) {
+        const next = await iterator.next()
+        if (next.done) return
+        yield next.value
+      }
+    })()
+  }
+}
+
+// Abort after `timeout` milliseconds, or earlier through the caller's signal
+function withTimeout(timeout: number, signal?: AbortSignal): AbortSignal {
+  const timer = AbortSignal.timeout(timeout)
+  return signal ? AbortSignal.any([signal, timer]) : timer
+}
+
+function localSourceName(backend: WillStorageBackend): string {
+  return backend.name === 'remote' ? 'IPFS server' : `Local node (${backend.name})`
+}
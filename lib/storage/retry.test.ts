@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { InvalidCIDError } from '../cid'
+import { StorageQuotaError } from './quota'
+import { withRetry } from './retry'
+
+const CONFIG = { retries: 3, initialDelay: 100, maxDelay: 250 }
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('retries with exponential backoff capped at maxDelay', async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValue('bafy')
+    const result = withRetry(operation, CONFIG)
+
+    await vi.advanceTimersByTimeAsync(0)
+    expect(operation).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(100)
+    expect(operation).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(199)
+    expect(operation).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(operation).toHaveBeenCalledTimes(3)
+    // 400ms is capped to 250ms
+    await vi.advanceTimersByTimeAsync(250)
+    expect(await result).toBe('bafy')
+    expect(operation).toHaveBeenCalledTimes(4)
+  })
+
+  it('gives up after the configured retries with the last error', async () => {
+    const operation = vi.fn().mockRejectedValue(new Error('offline'))
+    const result = withRetry(operation, { ...CONFIG, retries: 1 })
+    const settled = expect(result).rejects.toThrow('offline')
+
+    await vi.runAllTimersAsync()
+    await settled
+    expect(operation).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not retry failures another attempt cannot fix', async () => {
+    for (const error of [new StorageQuotaError(), new InvalidCIDError('x', 'malformed', 'Invalid CID "x"')]) {
+      const operation = vi.fn().mockRejectedValue(error)
+      await expect(withRetry(operation, CONFIG)).rejects.toBe(error)
+      expect(operation).toHaveBeenCalledTimes(1)
+    }
+  })
+
+  it('stops waiting once cancelled', async () => {
+    const controller = new AbortController()
+    const operation = vi.fn().mockRejectedValue(new Error('offline'))
+    const result = withRetry(operation, CONFIG, controller.signal)
+    const settled = expect(result).rejects.toThrow('cancelled')
+
+    await vi.advanceTimersByTimeAsync(50)
+    controller.abort(new Error('cancelled'))
+    await settled
+    expect(operation).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,43 @@
+import { InvalidCIDError } from '../cid'
+import { StorageQuotaError } from './quota'
+import type { RetryConfig } from './types'
+
+// Failures another attempt cannot fix
+function isPermanent(error: unknown): boolean {
+  return error instanceof StorageQuotaError || error instanceof InvalidCIDError
+}
+
+// Run an operation, retrying failures with exponential backoff. The signal
+// cancels both the operation and the wait between attempts.
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  { retries, initialDelay, maxDelay }: RetryConfig,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted()
+    try {
+      return await operation()
+    } catch (error) {
+      if (attempt >= retries || isPermanent(error) || signal?.aborted) throw error
+
+      const delay = Math.min(initialDelay * 2 ** attempt, maxDelay)
+      console.warn(`Attempt ${attempt + 1} of ${retries + 1} failed, retrying in ${delay}ms:`, error)
+      await sleep(delay, signal)
+    }
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
@@ -0,0 +1,173 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { InvalidCIDError } from '../cid'
+import { FilesystemBackend } from './filesystem'
+import { createStorageBackend } from './index'
+import type { AbortOptions, StorageBackendName, StorageConfig, WillStorageBackend } from './types'
+
+// Node only - the storage behind the /api/ipfs routes. Import this module from
+// server code alone; it is the only path to the filesystem backend.
+
+// Backends the /api/ipfs routes can store content in
+const SERVER_BACKENDS: StorageBackendName[] = ['filesystem', 'kubo']
+
+// Storage behind the /api/ipfs routes, from the server's environment:
+//   IPFS_SERVER_BACKEND   filesystem (default) | kubo
+//   KUBO_API_URL          Kubo RPC endpoint for the kubo backend (default http://127.0.0.1:5001)
+//   IPFS_STORAGE_PATH     directory for the filesystem backend (default .ipfs-store)
+export function serverStorageConfigFromEnv(): StorageConfig {
+  const backend = process.env.IPFS_SERVER_BACKEND || 'filesystem'
+  if (!SERVER_BACKENDS.includes(backend as StorageBackendName)) {
+    throw new Error(`Unsupported IPFS server backend: ${backend}`)
+  }
+
+  return {
+    backend: backend as StorageBackendName,
+    kuboApiUrl: process.env.KUBO_API_URL || 'http://127.0.0.1:5001',
+    filesystemPath: process.env.IPFS_STORAGE_PATH || '.ipfs-store'
+  }
+}
+
+// createStorageBackend plus the Node-only filesystem backend
+export async function createServerStorageBackend(
+  config: StorageConfig = serverStorageConfigFromEnv()
+): Promise<WillStorageBackend> {
+  if (config.backend !== 'filesystem') {
+    return createStorageBackend(config)
+  }
+  if (!config.filesystemPath) {
+    throw new Error('The filesystem backend needs filesystemPath')
+  }
+  return new FilesystemBackend(config.filesystemPath)
+}
+
+// Kept on globalThis so one backend serves every route and survives module
+// reloads in development, rather than each request opening the store again
+const globalForStorage = globalThis as typeof globalThis & {
+  willsServerStorage?: Promise<WillStorageBackend>
+}
+
+export function serverStorage(): Promise<WillStorageBackend> {
+  if (!globalForStorage.willsServerStorage) {
+    globalForStorage.willsServerStorage = createServerStorageBackend().catch(error => {
+      globalForStorage.willsServerStorage = undefined
+      throw error
+    })
+  }
+  return globalForStorage.willsServerStorage
+}
+
+// Largest upload the /api/ipfs routes accept, from IPFS_MAX_UPLOAD_BYTES
+// (default 100 MiB). Kept below 174 MiB, files also get the same CIDs on a Kubo
+// server as in Helia, whose UnixFS trees only differ beyond that size.
+export function maxUploadBytes(): number {
+  return Number(process.env.IPFS_MAX_UPLOAD_BYTES) || 100 * 1024 * 1024
+}
+
+export class UploadTooLargeError extends Error {
+  readonly name = 'UploadTooLargeError'
+
+  constructor(readonly limit: number) {
+    super(`Uploads are limited to ${limit} bytes`)
+  }
+}
+
+// Pass a request body through, failing once more than limit bytes have arrived.
+// Content-Length is not trusted, since chunked bodies do not send it.
+export function limitBytes(limit: number): TransformStream<Uint8Array, Uint8Array> {
+  let received = 0
+  return new TransformStream({
+    transform(chunk, controller) {
+      received += chunk.length
+      if (received > limit) {
+        controller.error(new UploadTooLargeError(limit))
+        return
+      }
+      controller.enqueue(chunk)
+    }
+  })
+}
+
+// Upload counts per client address in the current one-minute window
+const uploadWindows = new Map<string, { count: number, resetAt: number }>()
+
+// Everything uploaded is pinned for good, so each client address may upload
+// IPFS_UPLOADS_PER_MINUTE times a minute (default 30). Returns the response to
+// send when the client is over that limit.
+export function rateLimitUpload(request: NextRequest): NextResponse | null {
+  const limit = Number(process.env.IPFS_UPLOADS_PER_MINUTE) || 30
+  const client = request.headers.get('x-forwarded-for')?.split(',')[0].trim()
+    || request.headers.get('x-real-ip')
+    || 'unknown'
+  const now = Date.now()
+
+  let window = uploadWindows.get(client)
+  if (!window || window.resetAt <= now) {
+    // Forget expired windows so the map does not keep every client ever seen
+    for (const [key, { resetAt }] of uploadWindows) {
+      if (resetAt <= now) uploadWindows.delete(key)
+    }
+    window = { count: 0, resetAt: now + 60_000 }
+    uploadWindows.set(client, window)
+  }
+
+  window.count++
+  if (window.count <= limit) return null
+  return NextResponse.json(
+    { error: 'Too many uploads, try again later' },
+    { status: 429, headers: { 'Retry-After': String(Math.ceil((window.resetAt - now) / 1000)) } }
+  )
+}
+
+// Error response for a failed storage operation. A bad CID or missing
+// content is reported to the client; anything else is logged.
+export function storageErrorResponse(error: unknown, message: string): NextResponse {
+  if (error instanceof InvalidCIDError) {
+    return NextResponse.json({ error: error.message }, { status: 400 })
+  }
+  // Blockstores report missing blocks as NotFoundError
+  if (error instanceof Error && error.name === 'NotFoundError') {
+    return NextResponse.json({ error: 'Content not found' }, { status: 404 })
+  }
+  console.error(`${message}:`, error)
+  return NextResponse.json({ error: message }, { status: 500 })
+}
+
+// Stream a file, reading its first chunk before returning so that missing
+// content fails here instead of part-way through a response
+export async function openFileStream(
+  storage: WillStorageBackend,
+  cid: string,
+  options: AbortOptions
+): Promise<ReadableStream<Uint8Array>> {
+  const iterator = storage.getBytes(cid, options)[Symbol.asyncIterator]()
+  let next: IteratorResult<Uint8Array> | null = await iterator.next()
+
+  return new ReadableStream({
+    async pull(controller) {
+      const { done, value } = next ?? await iterator.next()
+      next = null
+      if (done) {
+        controller.close()
+      } else {
+        controller.enqueue(value)
+      }
+    },
+    async cancel() {
+      await iterator.return?.()
+    }
+  })
+}
+
+// Request bodies are web streams; the storage backends take async iterables
+export async function* streamChunks(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader()
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) return
+      yield value
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
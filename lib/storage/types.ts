@@ -0,0 +1,89 @@
+export type StorageBackendName = 'helia' | 'kubo' | 'memory' | 'filesystem' | 'remote'
+
+export interface AbortOptions {
+  signal?: AbortSignal
+}
+
+// Bytes moved so far, out of `total` when the size is known in advance
+export interface TransferProgress {
+  loaded: number
+  total?: number
+}
+
+export interface TransferOptions extends AbortOptions {
+  onProgress?: (progress: TransferProgress) => void
+}
+
+// Blocks held by a backend and their total size
+export interface StorageUsage {
+  blocks: number
+  bytes: number
+}
+
+export interface StorageStat {
+  cid: string
+  // File size for UnixFS content, encoded block size for JSON documents
+  size: number
+  pinned: boolean
+}
+
+// Content-addressed storage for will documents and attachments. CIDs are
+// exchanged as strings; every backend uses the same codecs and importer
+// settings as Helia, so the same content gets the same CID everywhere.
+export interface WillStorageBackend {
+  readonly name: StorageBackendName
+
+  // JSON documents are stored as a single block with the `json` codec
+  putJSON(value: unknown, options?: AbortOptions): Promise<string>
+  getJSON<T>(cid: string, options?: AbortOptions): Promise<T>
+
+  // Byte streams are imported as UnixFS files. Progress counts the bytes the
+  // backend has stored or sent, not those read from `content`.
+  putBytes(content: Uint8Array | AsyncIterable<Uint8Array>, options?: TransferOptions): Promise<string>
+  getBytes(cid: string, options?: AbortOptions): AsyncIterable<Uint8Array>
+
+  // Raw blocks, for CAR export and import. Callers verify a block against
+  // its CID before putting it.
+  getBlock(cid: string, options?: AbortOptions): Promise<Uint8Array>
+  putBlock(cid: string, block: Uint8Array): Promise<void>
+
+  pin(cid: string): Promise<void>
+  unpin(cid: string): Promise<void>
+  stat(cid: string): Promise<StorageStat>
+
+  // Pinned content, for the local cache panel
+  list(): AsyncIterable<StorageStat>
+  // Unpin content and delete its blocks, keeping blocks other pins still use
+  evict(cid: string): Promise<void>
+  usage(): Promise<StorageUsage>
+
+  // Waits for in-flight writes before releasing the store
+  close(): Promise<void>
+}
+
+export interface StorageConfig {
+  backend: StorageBackendName
+  // Kubo HTTP RPC endpoint, e.g. http://127.0.0.1:5001
+  kuboApiUrl?: string
+  // Directory for the filesystem backend (Node only)
+  filesystemPath?: string
+  // The app's IPFS API routes, for the remote backend
+  remoteApiUrl?: string
+}
+
+export interface RetrievalConfig {
+  // Kubo RPC endpoint to fall back to when Kubo is not already the storage backend
+  kuboApiUrl?: string
+  // Trustless gateways (raw block / CAR responses), tried in order
+  gateways: string[]
+  // Milliseconds each source gets before the next one is tried
+  timeout: number
+}
+
+export interface RetryConfig {
+  // Further attempts after the first one fails; 0 disables retrying
+  retries: number
+  // Milliseconds before the first retry, doubled for each one after
+  initialDelay: number
+  maxDelay: number
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import { CURRENT_WILL_DATA_VERSION, readWillContent, readWillDocument, WillValidationError } from './will-schema'
+
+const PASSWORD_WRAP = {
+  version: 2,
+  alg: 'AES-256-GCM',
+  kdf: 'PBKDF2-SHA256',
+  kdfParams: { iterations: 600000 },
+  salt: 'c2FsdA==',
+  iv: 'aXY=',
+  method: 'password',
+  ciphertext: 'Y2lwaGVydGV4dA=='
+}
+
+const ENVELOPE = {
+  version: 3,
+  alg: 'AES-256-GCM',
+  method: 'password',
+  iv: 'aXY=',
+  keys: [PASSWORD_WRAP],
+  ciphertext: 'Y2lwaGVydGV4dA=='
+}
+
+const METADATA = {
+  title: 'My will',
+  creator: '0x0000000000000000000000000000000000000001',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  lastModified: '2024-01-01T00:00:00.000Z'
+}
+
+function issues(value: unknown): string[] {
+  try {
+    readWillDocument(value)
+  } catch (error) {
+    expect(error).toBeInstanceOf(WillValidationError)
+    return (error as WillValidationError).issues
+  }
+  throw new Error('Document was accepted')
+}
+
+describe('readWillDocument', () => {
+  it('migrates 3.0 documents to the current version as their first revision', () => {
+    const document = readWillDocument({ envelope: ENVELOPE, metadata: { ...METADATA, version: '3.0' } })
+
+    expect(CURRENT_WILL_DATA_VERSION).toBe('3.1')
+    expect(document).toEqual({
+      envelope: { ...ENVELOPE, revision: 1 },
+      metadata: { ...METADATA, version: '3.1' }
+    })
+  })
+
+  it('keeps the revision of 3.1 documents and requires one', () => {
+    const previous = { '/': 'bafybeihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku' }
+    const envelope = { ...ENVELOPE, revision: 4, previous }
+    const document = readWillDocument({ envelope, metadata: { version: '3.1', private: true } })
+
+    expect(document).toEqual({ envelope, metadata: { version: '3.1', private: true } })
+    expect(issues({ envelope: ENVELOPE, metadata: { ...METADATA, version: '3.1' } })).toContain(
+      'envelope.revision: Required'
+    )
+  })
+
+  it('reads legacy formats as they are', () => {
+    const legacy = { encryptedContent: 'U2FsdGVkX1...', metadata: { ...METADATA, version: '1.0' } }
+    expect(readWillDocument(legacy)).toEqual(legacy)
+  })
+
+  it('reports missing and unknown versions and invalid fields', () => {
+    expect(issues({ envelope: ENVELOPE, metadata: METADATA })).toEqual(['metadata.version: missing'])
+    expect(issues({ envelope: ENVELOPE, metadata: { ...METADATA, version: '9.0' } })).toEqual([
+      'metadata.version: unknown version "9.0"'
+    ])
+    expect(issues({ envelope: { ...ENVELOPE, keys: [] }, metadata: { ...METADATA, version: '3.0' } })).toContain(
+      'envelope.keys: Envelope has no key wraps'
+    )
+    const badLink = { ...ENVELOPE, revision: 2, previous: { '/': 'nope' } }
+    expect(issues({ envelope: badLink, metadata: { ...METADATA, version: '3.1' } })).toContain(
+      'envelope.previous./: Invalid CID'
+    )
+  })
+})
+
+describe('readWillContent', () => {
+  it('keeps fields it does not know, since the signature covers them', () => {
+    const content = {
+      title: 'My will',
+      content: 'Everything to my cat',
+      beneficiaries: [{ name: 'Cat', address: '0x2', allocation: '100', assetType: 'ETH', note: 'meow' }],
+      executorInstructions: '',
+      createdAt: 'x',
+      lastModified: 'x',
+      extra: true
+    }
+    expect(readWillContent(JSON.stringify(content))).toEqual(content)
+    expect(() => readWillContent('not json')).toThrow('Decrypted content is not JSON')
+  })
+})
@@ -0,0 +1,249 @@
+import { z } from 'zod'
+import { isValidCid } from './cid'
+import type {
+  EncryptedWillData,
+  LegacyEncryptedWillData,
+  PrivateWillMetadata,
+  SealedWillPayload,
+  WillAttachment,
+  WillContent,
+  WillMetadata
+} from './ipfs'
+import type { EncryptionEnvelope, KeyWrap, WillEnvelope } from './encryption'
+
+// Runtime schemas for stored wills. Documents are checked against the schema
+// of their metadata version, then migrated up to CURRENT_WILL_DATA_VERSION.
+
+export const CURRENT_WILL_DATA_VERSION = '3.1'
+
+// Which part of a will failed validation: the public document or the decrypted content
+export type WillValidationTarget = 'document' | 'content'
+
+export class WillValidationError extends Error {
+  readonly name = 'WillValidationError'
+
+  constructor(
+    readonly target: WillValidationTarget,
+    // Format version the document claims, when it has one
+    readonly version: string | undefined,
+    // One "path: problem" line per failed check
+    readonly issues: string[]
+  ) {
+    super(`Invalid will ${target}${version ? ` (version ${version})` : ''}: ${issues.join('; ')}`)
+  }
+}
+
+const cidSchema = z.string().refine(isValidCid, 'Invalid CID')
+const hexSchema = z.string().regex(/^0x[0-9a-fA-F]*$/, 'Expected 0x-prefixed hex') as z.ZodType<`0x${string}`>
+
+const kdfParamsSchema = z.object({
+  iterations: z.number().int().positive().optional(),
+  info: z.string().optional(),
+  N: z.number().int().positive().optional(),
+  r: z.number().int().positive().optional(),
+  p: z.number().int().positive().optional(),
+  memory: z.number().int().positive().optional(),
+  parallelism: z.number().int().positive().optional(),
+  chainId: z.number().int().optional(),
+  verifyingContract: z.string().optional(),
+  creator: z.string().optional(),
+  credentialId: z.string().optional(),
+  prfSalt: z.string().optional()
+})
+
+// Single-key envelope ('2.0'), also the shape of password, wallet and passkey key wraps
+const encryptionEnvelopeSchema: z.ZodType<EncryptionEnvelope> = z.object({
+  version: z.literal(2),
+  alg: z.literal('AES-256-GCM'),
+  kdf: z.enum(['PBKDF2-SHA256', 'SCRYPT', 'ARGON2ID', 'HKDF-SHA256']),
+  kdfParams: kdfParamsSchema,
+  salt: z.string(),
+  iv: z.string(),
+  method: z.enum(['wallet', 'password', 'passkey']),
+  ciphertext: z.string()
+})
+
+const keyWrapSchema: z.ZodType<KeyWrap> = z.union([
+  encryptionEnvelopeSchema,
+  z.object({
+    method: z.literal('ecies'),
+    alg: z.literal('ECIES-SECP256K1-HKDF-SHA256-AES-256-GCM'),
+    recipient: z.string().optional(),
+    ephemeralPublicKey: z.string(),
+    iv: z.string(),
+    ciphertext: z.string()
+  }),
+  z.object({
+    method: z.literal('metamask'),
+    recipient: z.string().optional(),
+    encryptedData: z.object({
+      version: z.literal('x25519-xsalsa20-poly1305'),
+      nonce: z.string(),
+      ephemPublicKey: z.string(),
+      ciphertext: z.string()
+    })
+  })
+])
+
+// Content-key envelope ('3.0'); revision links are optional until '3.1'
+const willEnvelopeObject = z.object({
+  version: z.literal(3),
+  alg: z.literal('AES-256-GCM'),
+  method: z.enum(['wallet', 'password', 'passkey', 'metamask']),
+  iv: z.string(),
+  keys: z.array(keyWrapSchema).min(1, 'Envelope has no key wraps'),
+  ciphertext: z.string(),
+  signature: hexSchema.optional(),
+  revision: z.number().int().positive().optional(),
+  previous: z.object({ '/': cidSchema }).optional(),
+  previousKey: z.object({ iv: z.string(), ciphertext: z.string() }).optional()
+})
+
+const willEnvelopeSchema: z.ZodType<WillEnvelope> = willEnvelopeObject
+
+const revisionedEnvelopeSchema: z.ZodType<WillEnvelope> = willEnvelopeObject.extend({
+  revision: z.number().int().positive()
+})
+
+const willMetadataSchema: z.ZodType<WillMetadata> = z.object({
+  title: z.string(),
+  creator: z.string(),
+  createdAt: z.string(),
+  lastModified: z.string(),
+  version: z.string()
+})
+
+const privateWillMetadataSchema: z.ZodType<PrivateWillMetadata> = z.object({
+  version: z.string(),
+  private: z.literal(true)
+})
+
+const publicOrPrivateMetadataSchema = z.union([willMetadataSchema, privateWillMetadataSchema])
+
+// Schema of each stored document version
+const DOCUMENT_SCHEMAS: Record<string, z.ZodType<EncryptedWillData | LegacyEncryptedWillData>> = {
+  // CryptoJS ciphertext
+  '1.0': z.object({ encryptedContent: z.string(), metadata: willMetadataSchema }),
+  // Single-key AES-GCM envelope
+  '2.0': z.object({ envelope: encryptionEnvelopeSchema, metadata: willMetadataSchema }),
+  // Content key wrapped per reader, optionally with private metadata
+  '3.0': z.object({ envelope: willEnvelopeSchema, metadata: publicOrPrivateMetadataSchema }),
+  // Every envelope records its revision
+  '3.1': z.object({ envelope: revisionedEnvelopeSchema, metadata: publicOrPrivateMetadataSchema })
+}
+
+// Upgrades from one document version to the next, keyed by the version they
+// read. Formats whose upgrade needs the will's key (1.0 and 2.0) have none
+// and are read as they are.
+const MIGRATIONS: Record<string, (document: EncryptedWillData) => EncryptedWillData> = {
+  // Envelopes from before version history are the first revision
+  '3.0': ({ envelope, metadata }) => ({
+    envelope: envelope.version === 3 ? { ...envelope, revision: envelope.revision ?? 1 } : envelope,
+    metadata: { ...metadata, version: '3.1' }
+  })
+}
+
+// Contents are checked but never migrated: unknown fields are kept, since the
+// creator's signature covers the whole object.
+const beneficiarySchema = z.object({
+  name: z.string(),
+  address: z.string(),
+  allocation: z.string(),
+  assetType: z.enum(['ETH', 'ERC20', 'ERC721']),
+  tokenContract: z.string().optional(),
+  tokenId: z.string().optional()
+}).passthrough()
+
+const willAttachmentSchema: z.ZodType<WillAttachment> = z.object({
+  name: z.string().min(1),
+  mimeType: z.string(),
+  size: z.number().int().nonnegative(),
+  cid: cidSchema,
+  encryption: z.object({
+    alg: z.literal('AES-256-GCM-STREAM'),
+    key: z.literal('content-key')
+  })
+}).passthrough()
+
+const willContentSchema: z.ZodType<WillContent> = z.object({
+  title: z.string(),
+  content: z.string(),
+  beneficiaries: z.array(beneficiarySchema),
+  executorInstructions: z.string(),
+  // Added with attachments; older contents have none
+  attachments: z.array(willAttachmentSchema).optional(),
+  createdAt: z.string(),
+  lastModified: z.string()
+}).passthrough()
+
+const sealedWillPayloadSchema: z.ZodType<SealedWillPayload> = z.object({
+  willContent: willContentSchema,
+  metadata: willMetadataSchema,
+  // Added when key wraps stopped naming their recipients
+  recipients: z.array(z.string()).optional()
+})
+
+// Validate a stored will document and migrate it to the current version
+export function readWillDocument(value: unknown): EncryptedWillData | LegacyEncryptedWillData {
+  let document = value
+
+  while (true) {
+    const version = documentVersion(document)
+    if (version === undefined) {
+      throw new WillValidationError('document', undefined, ['metadata.version: missing'])
+    }
+
+    const schema = DOCUMENT_SCHEMAS[version]
+    if (!schema) {
+      throw new WillValidationError('document', version, [`metadata.version: unknown version "${version}"`])
+    }
+
+    const parsed = check(schema, document, 'document', version)
+    const migrate = MIGRATIONS[version]
+    if (!migrate || !('envelope' in parsed)) return parsed
+
+    document = migrate(parsed)
+  }
+}
+
+// Parse the decrypted plaintext of a public-metadata will
+export function readWillContent(plaintext: string): WillContent {
+  return check(willContentSchema, parseJson(plaintext), 'content')
+}
+
+// Parse the decrypted plaintext of a privacy-mode will
+export function readSealedPayload(plaintext: string): SealedWillPayload {
+  return check(sealedWillPayloadSchema, parseJson(plaintext), 'content')
+}
+
+// Check will content that is already parsed, e.g. before it is encrypted so
+// nothing is stored that readers would reject
+export function validateWillContent(content: unknown): WillContent {
+  return check(willContentSchema, content, 'content')
+}
+
+function documentVersion(value: unknown): string | undefined {
+  if (typeof value !== 'object' || value === null) return undefined
+  const metadata = (value as { metadata?: unknown }).metadata
+  if (typeof metadata !== 'object' || metadata === null) return undefined
+  const version = (metadata as { version?: unknown }).version
+  return typeof version === 'string' ? version : undefined
+}
+
+function parseJson(plaintext: string): unknown {
+  try {
+    return JSON.parse(plaintext)
+  } catch {
+    throw new WillValidationError('content', undefined, ['Decrypted content is not JSON'])
+  }
+}
+
+function check<T>(schema: z.ZodType<T>, value: unknown, target: WillValidationTarget, version?: string): T {
+  const result = schema.safeParse(value)
+  if (!result.success) {
+    throw new WillValidationError(target, version, result.error.issues.map(issue =>
+      `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`
+    ))
+  }
+  return result.data
+}
@@ -0,0 +1,186 @@
+// In-memory IPFS Pinning Service API for local development.
+// Pins move from queued to pinning to pinned over a few seconds; nothing is
+// actually fetched or stored.
+//
+//   npm run pinning:mock
+//
+// Then configure http://127.0.0.1:5005 with the token "dev-token" under
+// My Wills > Pinning Service.
+const http = require("http");
+const crypto = require("crypto");
+
+const PORT = Number(process.env.MOCK_PINNING_PORT || 5005);
+const TOKEN = process.env.MOCK_PINNING_TOKEN || "dev-token";
+// Comma-separated CIDs whose pins should fail, to exercise error handling
+const FAIL_CIDS = (process.env.MOCK_PINNING_FAIL_CIDS || "").split(",").filter(Boolean);
+// Milliseconds a pin spends in each state before moving on
+const QUEUED_MS = 1000;
+const PINNING_MS = 2000;
+
+const STATUSES = ["queued", "pinning", "pinned", "failed"];
+const pins = new Map();
+
+function statusOf(record) {
+  if (record.failed) return "failed";
+  const age = Date.now() - record.createdAt;
+  if (age < QUEUED_MS) return "queued";
+  if (age < QUEUED_MS + PINNING_MS) return "pinning";
+  return "pinned";
+}
+
+function toPinStatus(record) {
+  return {
+    requestid: record.requestid,
+    status: statusOf(record),
+    created: new Date(record.createdAt).toISOString(),
+    pin: record.pin,
+    delegates: [`/ip4/127.0.0.1/tcp/4001/p2p/mock-pinning-${PORT}`],
+    info: {},
+  };
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function fail(res, status, reason, details) {
+  send(res, status, { error: { reason, details } });
+}
+
+async function readJson(req) {
+  let raw = "";
+  for await (const chunk of req) raw += chunk;
+  return JSON.parse(raw || "{}");
+}
+
+// Validate a Pin body; returns an error message or null
+function invalidPin(pin) {
+  if (!pin || typeof pin.cid !== "string" || !pin.cid) return "Missing cid";
+  if (pin.name !== undefined && typeof pin.name !== "string") return "name must be a string";
+  if (pin.origins !== undefined && !Array.isArray(pin.origins)) return "origins must be an array";
+  return null;
+}
+
+function createRecord(pin) {
+  return {
+    requestid: crypto.randomUUID(),
+    createdAt: Date.now(),
+    failed: FAIL_CIDS.includes(pin.cid),
+    pin: { cid: pin.cid, name: pin.name, origins: pin.origins || [], meta: pin.meta || {} },
+  };
+}
+
+function listPins(res, params) {
+  const cids = params.get("cid") ? params.get("cid").split(",") : null;
+  const name = params.get("name");
+  const match = params.get("match") || "exact";
+  const statuses = (params.get("status") || "pinned").split(",");
+  const before = params.get("before") ? Date.parse(params.get("before")) : null;
+  const after = params.get("after") ? Date.parse(params.get("after")) : null;
+  const limit = Number(params.get("limit") || 10);
+  const meta = params.get("meta") ? JSON.parse(params.get("meta")) : null;
+
+  if (statuses.some((status) => !STATUSES.includes(status))) {
+    return fail(res, 400, "BAD_REQUEST", "Unknown status filter");
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+    return fail(res, 400, "BAD_REQUEST", "limit must be between 1 and 1000");
+  }
+
+  const nameMatches = (pinName) => {
+    if (!name) return true;
+    if (!pinName) return false;
+    switch (match) {
+      case "iexact": return pinName.toLowerCase() === name.toLowerCase();
+      case "partial": return pinName.includes(name);
+      case "ipartial": return pinName.toLowerCase().includes(name.toLowerCase());
+      default: return pinName === name;
+    }
+  };
+
+  const matching = [...pins.values()]
+    .filter((record) => !cids || cids.includes(record.pin.cid))
+    .filter((record) => nameMatches(record.pin.name))
+    .filter((record) => statuses.includes(statusOf(record)))
+    .filter((record) => before === null || record.createdAt < before)
+    .filter((record) => after === null || record.createdAt > after)
+    .filter((record) => !meta || Object.entries(meta).every(([key, value]) => record.pin.meta[key] === value))
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  send(res, 200, { count: matching.length, results: matching.slice(0, limit).map(toPinStatus) });
+}
+
+async function handle(req, res) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "Authorization, Content-Type");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+  if (req.method === "OPTIONS") {
+    res.writeHead(204);
+    return res.end();
+  }
+
+  if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+    return fail(res, 401, "UNAUTHORIZED", "Invalid or missing access token");
+  }
+
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const segments = url.pathname.split("/").filter(Boolean);
+  if (segments[0] !== "pins" || segments.length > 2) {
+    return fail(res, 404, "NOT_FOUND", `No route for ${url.pathname}`);
+  }
+
+  if (segments.length === 1) {
+    if (req.method === "GET") return listPins(res, url.searchParams);
+    if (req.method === "POST") {
+      const pin = await readJson(req);
+      const problem = invalidPin(pin);
+      if (problem) return fail(res, 400, "BAD_REQUEST", problem);
+
+      const record = createRecord(pin);
+      pins.set(record.requestid, record);
+      console.log(`Pin requested: ${pin.cid} (${record.requestid})`);
+      return send(res, 202, toPinStatus(record));
+    }
+    return fail(res, 405, "METHOD_NOT_ALLOWED", req.method);
+  }
+
+  const requestid = segments[1];
+  const existing = pins.get(requestid);
+  if (!existing) return fail(res, 404, "NOT_FOUND", `No pin request ${requestid}`);
+
+  switch (req.method) {
+    case "GET":
+      return send(res, 200, toPinStatus(existing));
+    case "POST": {
+      // Replace: the old request is removed and a new one takes its place
+      const pin = await readJson(req);
+      const problem = invalidPin(pin);
+      if (problem) return fail(res, 400, "BAD_REQUEST", problem);
+
+      pins.delete(requestid);
+      const record = createRecord(pin);
+      pins.set(record.requestid, record);
+      console.log(`Pin replaced: ${requestid} -> ${pin.cid} (${record.requestid})`);
+      return send(res, 202, toPinStatus(record));
+    }
+    case "DELETE":
+      pins.delete(requestid);
+      console.log(`Pin removed: ${existing.pin.cid} (${requestid})`);
+      return send(res, 202);
+    default:
+      return fail(res, 405, "METHOD_NOT_ALLOWED", req.method);
+  }
+}
+
+const server = http.createServer((req, res) => {
+  handle(req, res).catch((error) => {
+    console.error("Request failed:", error);
+    fail(res, 400, "BAD_REQUEST", error.message);
+  });
+});
+
+server.listen(PORT, "127.0.0.1", () => {
+  console.log(`Mock pinning service listening on http://127.0.0.1:${PORT}`);
+  console.log(`Access token: ${TOKEN}`);
+});
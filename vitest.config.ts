@@ -0,0 +1,13 @@
+import { fileURLToPath } from 'node:url'
+import { defineConfig } from 'vitest/config'
+
+// Unit tests for the TypeScript sources. The contract tests in test/ run under hardhat.
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) }
+  },
+  test: {
+    include: ['lib/**/*.test.ts'],
+    environment: 'node'
+  }
+})